@@ -1,10 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+
+import { getSessionChunks } from "@/lib/actions/document.action";
+import {
+  getExaminationState,
+  saveExaminationState,
+} from "@/lib/actions/examination.action";
+import { getInterviewById } from "@/lib/actions/general.action";
+import {
+  createExaminationState,
+  getExaminationLimits,
+  getExaminationProgress,
+  hasQuestionPlanChanged,
+  parseConversationMessages,
+  parseQuestionList,
+  planExaminerTurn,
+  recordExaminerTurn,
+  type ExaminationState,
+} from "@/lib/examination-state";
+import { generateExaminerTurn } from "@/lib/examiner";
+import { resolveModel } from "@/lib/llm-provider";
 
 /**
  * API route for the Gemini AI-powered examination phase
- * This handles requests from the VAPI workflow when useGeminiForExamination is true
+ * This handles requests from the VAPI workflow when useGeminiForExamination is true.
+ * With a sessionId the conversation and question plan progress are kept in
+ * Firestore (examinationStates/{sessionId}), so previousMessages is only
+ * needed without one, and the response carries the examiner's decision
+ * (follow-up, move-on or wrap-up) and the progress through the plan.
+ * Editing the session's questions starts the examination over.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -31,82 +54,92 @@ export async function POST(request: NextRequest) {
       hasProjectContext: Boolean(projectContext),
     });
 
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      console.error("GOOGLE_GENERATIVE_AI_API_KEY is not configured");
+    const resolved = resolveModel("examination");
+    if (!resolved) {
+      console.error("No language model is configured for the examination");
       return NextResponse.json(
-        { error: "GOOGLE_GENERATIVE_AI_API_KEY is not configured" },
+        { error: "No language model is configured for the examination" },
         { status: 500 }
       );
     }
 
-    // Format previous messages for context if available
-    const conversationHistory = previousMessages
-      ? previousMessages
-          .map((msg: any) => `${msg.role}: ${msg.content}`)
-          .join("\n")
-      : "";
-
-    // Generate basic context if project context is missing
-    const fallbackContext = `This is a defense examination for a ${
-      academicLevel || "graduate"
-    } level project titled "${
-      projectTitle || "Academic Project"
-    }". The project involves ${technologies || "various technologies"}.`;
-
-    // Prepare the examination context
-    let examinationContext = `
-    # PROJECT DEFENSE EXAMINATION CONTEXT
-    
-    ## Project Information:
-    - Project Title: ${projectTitle || "Academic Project"}
-    - Academic Level: ${academicLevel || "Master's"}
-    - Technologies Used: ${technologies || "Various technologies"}
-    
-    ## Examination Context:
-    ${projectContext || fallbackContext}
-    
-    ## Questions to Cover:
-    ${
-      questions ||
-      "Ask questions about the project implementation, methodology, and technical decisions."
+    // Resume the session's examination, or start one over its question plan
+    const now = new Date();
+    let state: ExaminationState | null = null;
+    if (sessionId) {
+      // A failed read throws and fails the turn, leaving the stored
+      // progress untouched instead of starting a new examination over it
+      state = await getExaminationState(sessionId);
+      const plan = await getQuestionPlan(sessionId, questions);
+      if (
+        state &&
+        plan.questions.length > 0 &&
+        hasQuestionPlanChanged(state, plan.questions)
+      ) {
+        console.log(
+          "The question plan was edited; starting the examination over"
+        );
+        state = null;
+      }
+      if (!state) {
+        state = createExaminationState(
+          sessionId,
+          plan.questions,
+          parseConversationMessages(previousMessages),
+          now,
+          getExaminationLimits(),
+          plan.pinned
+        );
+      } else {
+        // Pinning a question does not change the plan, so it applies at once
+        if (plan.questions.length > 0) {
+          state = { ...state, pinned: plan.pinned };
+        }
+        console.log(
+          `Continuing examination at question ${state.cursor + 1} of ${
+            state.questions.length
+          }`
+        );
+      }
     }
-    
-    ## Previous Conversation:
-    ${conversationHistory}
-    
-    ## Current Student Message:
-    ${message || ""}
-    `;
 
-    console.log("Generating examination response with Gemini AI...");
+    console.log(`Generating examination response with ${resolved.label}...`);
 
-    // Generate the examiner's response
-    const examinationResponse = await generateText({
-      model: google("gemini-2.0-flash-001", {
-        apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-      }),
-      prompt: examinationContext,
-      system: `
-        You are an academic project defense examiner conducting an oral examination.
-        Your task is to critically evaluate the student's understanding of their project.
-        
-        Follow these guidelines:
-        1. Ask challenging follow-up questions based on the student's responses
-        2. Probe deeper when answers lack technical depth
-        3. Evaluate whether the student demonstrates mastery of the technologies mentioned
-        4. Maintain a professional but demanding examination tone
-        5. Focus on one topic at a time before moving to the next question
-        6. Identify inconsistencies or gaps in understanding
-        7. Acknowledge good answers before moving on
-        
-        The examination questions have been provided, but you can add your own followup questions.
-        Do not generate feedback during the examination; that happens after the session ends.
-      `,
-      temperature: 0.7,
+    // Generate the examiner's response, choosing from the decisions the
+    // question plan and the limits allow
+    const step = state ? planExaminerTurn(state, now) : null;
+    const turn = await generateExaminerTurn(resolved, {
+      projectTitle,
+      academicLevel,
+      technologies,
+      questions,
+      projectContext,
+      message,
+      ...(state && step
+        ? { previousMessages: state.messages, ...step }
+        : { previousMessages: parseConversationMessages(previousMessages) }),
+      documentChunks: sessionId ? await getSessionChunks(sessionId) : [],
     });
 
+    if (state && step) {
+      state = recordExaminerTurn(
+        state,
+        turn.decision || step.decisions[0],
+        message || "",
+        turn.text,
+        now
+      );
+      await saveExaminationState(state);
+    }
+
     console.log("Gemini AI response generated successfully");
-    return NextResponse.json({ response: examinationResponse });
+    return NextResponse.json({
+      response: turn.text,
+      sources: turn.sources,
+      promptVersions: turn.promptVersions,
+      ...(turn.decision ? { decision: turn.decision } : {}),
+      ...(state ? { progress: getExaminationProgress(state, now) } : {}),
+    });
   } catch (error) {
     console.error("Error in Gemini AI examination:", error);
     return NextResponse.json(
@@ -116,6 +149,31 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * The reviewed questions stored on the session, else those sent, with the
+ * plan indices of the pinned ones
+ */
+async function getQuestionPlan(
+  sessionId: string,
+  questions?: string
+): Promise<{ questions: string[]; pinned: number[] }> {
+  const session = await getInterviewById(sessionId);
+  if (session?.defenseQuestions?.length) {
+    return {
+      questions: session.defenseQuestions.map((question) => question.text),
+      pinned: session.defenseQuestions.flatMap((question, index) =>
+        question.pinned ? [index] : []
+      ),
+    };
+  }
+  return {
+    questions: session?.questions?.length
+      ? session.questions
+      : parseQuestionList(questions || ""),
+    pinned: [],
+  };
+}
+
 // Handle options requests for CORS
 export async function OPTIONS() {
   return new Response(null, {
@@ -1,28 +1,35 @@
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+import { generateObject } from "ai";
 
 import { db } from "@/firebase/admin";
+import { interviewQuestionsSchema } from "@/constants";
+import { resolveModel } from "@/lib/llm-provider";
+import { renderPrompt } from "@/lib/prompts";
 import { getRandomInterviewCover } from "@/lib/utils";
 
 export async function POST(request: Request) {
   const { type, role, level, techstack, amount, userid } = await request.json();
 
+  const resolved = resolveModel("questions");
+  if (!resolved) {
+    return Response.json(
+      { success: false, error: "No language model is configured" },
+      { status: 503 }
+    );
+  }
+
   try {
-    const { text: questions } = await generateText({
-      model: google("gemini-2.0-flash-001"),
-      prompt: `Prepare questions for a job interview.
-        The job role is ${role}.
-        The job experience level is ${level}.
-        The tech stack used in the job is: ${techstack}.
-        The focus between behavioural and technical questions should lean towards: ${type}.
-        The amount of questions required is: ${amount}.
-        Please return only the questions, without any additional text.
-        The questions are going to be read by a voice assistant so do not use "/" or "*" or any other special characters which might break the voice assistant.
-        Return the questions formatted like this:
-        ["Question 1", "Question 2", "Question 3"]
-        
-        Thank you! <3
-    `,
+    const {
+      object: { questions },
+    } = await generateObject({
+      model: resolved.model,
+      schema: interviewQuestionsSchema,
+      prompt: renderPrompt("interview-questions", {
+        role,
+        level,
+        techstack,
+        type,
+        amount,
+      }).text,
     });
 
     const interview = {
@@ -30,7 +37,7 @@ export async function POST(request: Request) {
       type: type,
       level: level,
       techstack: techstack.split(","),
-      questions: JSON.parse(questions),
+      questions: questions,
       userId: userid,
       finalized: true,
       coverImage: getRandomInterviewCover(),
@@ -5,6 +5,11 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import DefenseSessions from "@/components/DefenseSessions";
+import DocumentRevisions, {
+  type RevisionSelection,
+} from "@/components/DocumentRevisions";
+import QuestionBank from "@/components/QuestionBank";
+import QuestionSetEditor from "@/components/QuestionSetEditor";
 
 import { cn } from "@/lib/utils";
 import { vapi } from "@/lib/vapi.sdk";
@@ -14,8 +19,78 @@ import {
   updateDefenseSession,
   getInterviewsByUserId,
 } from "@/lib/actions/general.action";
-import { processDocument } from "@/lib/document-processor";
-import { generateQuestionsFromDocument } from "@/lib/question-generator";
+import {
+  getCachedQuestions,
+  saveCachedQuestions,
+  saveSessionChunks,
+} from "@/lib/actions/document.action";
+import {
+  getExaminationStatus,
+  startExaminationCall,
+} from "@/lib/actions/examination.action";
+import { addProjectRevision } from "@/lib/actions/project.action";
+import { getBloomProfilesForUser } from "@/lib/actions/institution.action";
+import {
+  recordQuestionBankUse,
+  saveToQuestionBank,
+} from "@/lib/actions/question-bank.action";
+import { ALLOWED_FILE_EXTENSIONS } from "@/lib/document-extractors";
+import {
+  DOCUMENT_KIND_LABELS,
+  MAX_SESSION_DOCUMENTS,
+  collectTechstack,
+  formatCodeSummaries,
+  formatDocumentsOutline,
+  getDocumentChunks,
+  guessDocumentKind,
+  isQuestionReplayMode,
+  processAttachedDocument,
+  questionSetKey,
+  summarizeAttachment,
+  toSessionDocument,
+  type AttachedDocument,
+  type QuestionSetParams,
+} from "@/lib/session-documents";
+import { checkSlideConsistency } from "@/lib/consistency-checker";
+import type { ExaminationProgress } from "@/lib/examination-state";
+import {
+  analyzeReferences,
+  formatReferenceIssues,
+  formatReferenceSummary,
+} from "@/lib/references";
+import { formatRevisionDiff, summarizeRevisionDiff } from "@/lib/document-diff";
+import {
+  DEFAULT_QUESTION_COUNT,
+  formatDefenseQuestion,
+  generateQuestionsFromDocument,
+  regenerateQuestion,
+  TEMPLATE_QUESTIONS,
+  type QuestionGenerationParams,
+} from "@/lib/question-generator";
+import {
+  ACADEMIC_LEVELS,
+  countCognitiveLevels,
+  formatCognitiveCounts,
+  normalizeAcademicLevel,
+  type AcademicLevel,
+} from "@/lib/bloom";
+import {
+  allocateQuestions,
+  countCategories,
+  DEFAULT_FOCUS_RATIO,
+  formatCategoryCounts,
+  formatDistribution,
+  parseFocusRatio,
+} from "@/lib/question-mix";
+import { resolveModel } from "@/lib/llm-provider";
+import { getPrompt } from "@/lib/prompts";
+import { fromBankQuestion } from "@/lib/question-bank";
+import {
+  detectDiscipline,
+  DISCIPLINE_LABELS,
+  getTemplateQuestions,
+  type Discipline,
+} from "@/lib/question-templates";
 
 enum CallStatus {
   INACTIVE = "INACTIVE",
@@ -39,6 +114,15 @@ interface Message {
   // Add other properties that might be in the message
 }
 
+// A created session waiting for the student to review its questions
+interface PendingPreparation {
+  sessionId: string;
+  fileName: string;
+  fileType: string;
+  extractedText: string;
+  documentCount: number;
+}
+
 interface ProjectInfo {
   title?: string;
   academicLevel?: string;
@@ -58,7 +142,6 @@ const Agent = ({
   const [callStatus, setCallStatus] = useState<CallStatus>(CallStatus.INACTIVE);
   const [messages, setMessages] = useState<SavedMessage[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [projectFile, setProjectFile] = useState<File | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [isReconnecting, setIsReconnecting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -69,7 +152,9 @@ const Agent = ({
   // Add state to track if we're transitioning between sessions
   const [isTransitioning, setIsTransitioning] = useState<boolean>(false);
   // Add a state to track extracted questions from document
-  const [extractedQuestions, setExtractedQuestions] = useState<string[]>([]);
+  const [extractedQuestions, setExtractedQuestions] = useState<
+    DefenseQuestion[]
+  >([]);
   // Track if we're in a retry attempt
   const [isRetryAttempt, setIsRetryAttempt] = useState<boolean>(false);
   // Track if the VAPI service is available
@@ -78,15 +163,49 @@ const Agent = ({
   // State for project defense form
   const [showForm, setShowForm] = useState(type === "generate");
   const [submittingForm, setSubmittingForm] = useState(false);
-  const [fileProcessing, setFileProcessing] = useState(false);
-  const [fileProcessed, setFileProcessed] = useState(false);
-  const [fileError, setFileError] = useState<string | null>(null);
+  // Report, slides, code and appendices; each is processed once when added
+  const [attachments, setAttachments] = useState<AttachedDocument[]>([]);
+  const nextDocumentIdRef = useRef(1);
+  const fileProcessing = attachments.some(
+    (attachment) => attachment.status === "processing"
+  );
+  // Project the report is a revision of, and its diff to the last upload
+  const [revisionSelection, setRevisionSelection] = useState<RevisionSelection>(
+    { focusOnChanges: true }
+  );
+  // Category mix the generated questions should follow
+  const [focusRatio, setFocusRatio] = useState<string>(DEFAULT_FOCUS_RATIO);
+  const focusDistribution = parseFocusRatio(focusRatio);
+  // Sets the cognitive level mix of the generated questions
+  const [academicLevel, setAcademicLevel] = useState<AcademicLevel>("Master's");
+  // Picks the template questions used when none can be generated; detected
+  // from the uploads when left empty
+  const [discipline, setDiscipline] = useState<Discipline | "">("");
+  // Skip the cached questions for these documents and settings
+  const [regenerateQuestions, setRegenerateQuestions] = useState(false);
+  // Saved questions pulled into the session alongside generated ones
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [savedToBank, setSavedToBank] = useState<string[]>([]);
+  // Review step between question generation and the call
+  const [reviewingQuestions, setReviewingQuestions] = useState(false);
+  const [pendingPreparation, setPendingPreparation] =
+    useState<PendingPreparation | null>(null);
+  const questionParamsRef = useRef<QuestionGenerationParams | null>(null);
+  const readyReport = attachments.find(
+    (attachment) =>
+      attachment.kind === "report" &&
+      attachment.status === "ready" &&
+      attachment.processed
+  );
 
   // Add session phase tracking
   const [sessionPhase, setSessionPhase] = useState<
     "preparation" | "examination"
   >(type === "generate" ? "preparation" : "examination");
   const [readyForFeedback, setReadyForFeedback] = useState<boolean>(false);
+  // Where the examiner is in the question plan, kept by the examination route
+  const [examinationProgress, setExaminationProgress] =
+    useState<ExaminationProgress | null>(null);
 
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const maxReconnectAttempts = 3;
@@ -203,7 +322,13 @@ const Agent = ({
             projectInfo.technologies &&
             Array.isArray(projectInfo.technologies)
           ) {
-            updateData.techstack = projectInfo.technologies;
+            // Keep the technologies detected in the uploaded source code
+            updateData.techstack = Array.from(
+              new Set([
+                ...projectInfo.technologies,
+                ...collectTechstack(attachments),
+              ])
+            );
           }
 
           if (projectInfo.focusRatio) {
@@ -323,10 +448,10 @@ const Agent = ({
                 console.log("Updated session data:", currentSession);
                 // Retrieve questions from the updated session to use in examination phase
                 if (
-                  currentSession.questions &&
-                  currentSession.questions.length > 0
+                  currentSession.defenseQuestions &&
+                  currentSession.defenseQuestions.length > 0
                 ) {
-                  setExtractedQuestions(currentSession.questions);
+                  setExtractedQuestions(currentSession.defenseQuestions);
                 }
               }
             }
@@ -539,62 +664,112 @@ const Agent = ({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFileError(null);
-    setFileProcessed(false);
-
-    if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
+  // Refresh the question counter after each examiner message
+  useEffect(() => {
+    const lastMessage = messages[messages.length - 1];
+    if (
+      sessionPhase !== "examination" ||
+      !currentSessionId ||
+      lastMessage?.role !== "assistant"
+    ) {
+      return;
+    }
 
-      // Check file size - max 5MB
-      if (file.size > 5 * 1024 * 1024) {
-        setFileError(
-          "File size exceeds 5MB limit. Please upload a smaller file."
+    getExaminationStatus(currentSessionId)
+      .then(setExaminationProgress)
+      .catch((error) =>
+        console.error("Error loading examination progress:", error)
+      );
+  }, [messages, sessionPhase, currentSessionId]);
+
+  // Process an attachment and store the result in the list
+  const runDocumentProcessing = (attachment: AttachedDocument) => {
+    processAttachedDocument(attachment).then((result) => {
+      if (result.status === "ready") {
+        console.log(
+          `Document processed: ${result.file.name} as ${
+            result.kind
+          }, ${Math.round(result.file.size / 1024)}KB`
         );
-        return;
       }
+      setAttachments((prev) =>
+        // Ignore results for documents removed or re-typed in the meantime
+        prev.map((item) =>
+          item.id === result.id && item.kind === result.kind ? result : item
+        )
+      );
+    });
+  };
 
-      // Check file type
-      const allowedTypes = [
-        "application/pdf",
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-        "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-      ];
-      if (!allowedTypes.includes(file.type)) {
-        setFileError(
-          "File type not supported. Please upload a PDF, DOCX, or PPTX file."
-        );
-        return;
-      }
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Allow selecting the same file again after removing it
+    e.target.value = "";
+
+    if (attachments.length + files.length > MAX_SESSION_DOCUMENTS) {
+      toast.error(
+        `You can attach at most ${MAX_SESSION_DOCUMENTS} documents per session.`
+      );
+      return;
+    }
 
-      setProjectFile(file);
-      setFileProcessing(true);
+    const kinds = attachments.map((attachment) => attachment.kind);
+    const added: AttachedDocument[] = files.map((file) => {
+      const kind = guessDocumentKind(file, kinds);
+      kinds.push(kind);
+      return {
+        id: `d${nextDocumentIdRef.current++}`,
+        file,
+        kind,
+        status: "processing",
+      };
+    });
 
-      // Process the file to extract text
-      processDocument(file)
-        .then((result) => {
-          setFileProcessing(false);
-          if (result.success) {
-            setFileProcessed(true);
-            // Log file information
-            console.log(
-              `File processed: ${file.name}, size: ${Math.round(
-                file.size / 1024
-              )}KB, type: ${file.type}`
-            );
-            console.log(`Words extracted: ${result.metadata.wordCount}`);
-          } else {
-            setFileError(result.error || "Failed to process file");
-          }
-        })
-        .catch((error) => {
-          setFileProcessing(false);
-          setFileError(
-            error instanceof Error
-              ? error.message
-              : "Unknown error processing file"
-          );
-        });
+    setAttachments((prev) => [...prev, ...added]);
+    added.forEach(runDocumentProcessing);
+  };
+
+  const handleDocumentKindChange = (id: string, kind: DocumentKind) => {
+    const attachment = attachments.find((item) => item.id === id);
+    if (!attachment || attachment.kind === kind) return;
+
+    // Code archives are indexed rather than extracted, so switching to or
+    // from "code" needs a fresh pass; other kinds share the same extraction
+    const needsReprocessing = kind === "code" || attachment.kind === "code";
+    const updated: AttachedDocument = needsReprocessing
+      ? { id, file: attachment.file, kind, status: "processing" }
+      : { ...attachment, kind };
+
+    setAttachments((prev) =>
+      prev.map((item) => (item.id === id ? updated : item))
+    );
+    if (needsReprocessing) {
+      runDocumentProcessing(updated);
+    }
+  };
+
+  const handleRemoveDocument = (id: string) => {
+    setAttachments((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  // Keep a generated question for reuse in later sessions
+  const handleSaveToBank = async (question: DefenseQuestion) => {
+    if (!userId) return;
+
+    const result = await saveToQuestionBank({
+      userId,
+      question,
+      // The label is what people type into the bank's discipline filter
+      disciplines: discipline ? [DISCIPLINE_LABELS[discipline]] : [],
+      technologies: collectTechstack(attachments),
+      source: "generated",
+      sessionId: currentSessionId || undefined,
+    });
+    if (result.success) {
+      setSavedToBank((prev) => [...prev, question.text]);
+      toast.success("Question saved to the bank");
+    } else {
+      toast.error("Failed to save the question");
     }
   };
 
@@ -620,67 +795,206 @@ const Agent = ({
         return;
       }
 
-      // Variables for document processing
-      let fileName = "";
-      let fileType = "";
-      let extractedText = "";
-      let customQuestions: string[] = [];
+      // Only successfully processed documents are attached to the session
+      const readyDocuments = attachments.filter(
+        (attachment) => attachment.status === "ready"
+      );
+      const textDocuments = readyDocuments.filter(
+        (attachment) => attachment.processed?.text
+      );
+      // The report names the session and the VAPI file context
+      const primaryDocument =
+        textDocuments.find((attachment) => attachment.kind === "report") ||
+        textDocuments[0];
+
+      const fileName = primaryDocument?.file.name || "";
+      const fileType = primaryDocument?.file.type || "";
+      const extractedText = primaryDocument?.processed?.text || "";
+      const documentOutline = formatDocumentsOutline(readyDocuments);
+      const codeSummary = formatCodeSummaries(readyDocuments);
+      const techstack = collectTechstack(readyDocuments);
+      const documentChunks = readyDocuments.flatMap(getDocumentChunks);
+      let customQuestions: DefenseQuestion[] = [];
+      // Prompt that produced the questions, recorded on the session
+      let questionPromptVersion: string | undefined;
+
+      // Sections changed since the previous revision of the report
+      const revisionDiff = readyReport ? revisionSelection.diff : undefined;
+      const revisionChanges =
+        revisionDiff && revisionSelection.focusOnChanges
+          ? formatRevisionDiff(revisionDiff)
+          : "";
+      const changedSections = revisionDiff?.changes
+        .filter(
+          (change) => change.type === "added" || change.type === "modified"
+        )
+        .map((change) => change.title);
+
+      // Check the slides against the report when both were attached
+      const slidesDocument = textDocuments.find(
+        (attachment) => attachment.kind === "slides"
+      );
+      const reportDocument = textDocuments.find(
+        (attachment) => attachment.kind === "report"
+      );
+      const consistencyReport =
+        slidesDocument && reportDocument
+          ? checkSlideConsistency(
+              slidesDocument.processed!.sections,
+              reportDocument.processed!.sections,
+              {
+                slides: slidesDocument.file.name,
+                report: reportDocument.file.name,
+              }
+            )
+          : undefined;
+      if (consistencyReport) {
+        console.log(
+          `Slide consistency check: ${consistencyReport.issues.length} issue(s) across ${consistencyReport.mappings.length} slides`
+        );
+      }
+
+      // Parse the bibliography and link in-text citations to it
+      const referenceAnalysis = primaryDocument
+        ? analyzeReferences(primaryDocument.processed!.sections)
+        : undefined;
+      const referenceSummary = referenceAnalysis
+        ? formatReferenceSummary(referenceAnalysis)
+        : "";
+      const referenceIssues = referenceAnalysis
+        ? formatReferenceIssues(referenceAnalysis)
+        : [];
+      if (referenceAnalysis) {
+        console.log(
+          `Reference check: ${referenceAnalysis.references.length} references, ${referenceAnalysis.citations.length} citations, ${referenceIssues.length} issue(s)`
+        );
+      }
 
-      if (projectFile) {
+      if (readyDocuments.length > 0) {
         try {
-          // Log file information for debugging
           console.log(
-            `Processing file: ${projectFile.name}, ${Math.round(
-              projectFile.size / 1024
-            )}KB, ${projectFile.type}`
+            "Attached documents:",
+            readyDocuments
+              .map(
+                (attachment) => `${attachment.file.name} (${attachment.kind})`
+              )
+              .join(", ")
           );
+          console.log("Detected document structure:\n" + documentOutline);
+
+          // Also used to regenerate single questions during review
+          const questionParams: QuestionGenerationParams = {
+            academicLevel,
+            projectTitle: "Project Defense", // Default title, will be updated later
+            technologies: techstack,
+            focusRatio: formatDistribution(focusDistribution),
+            questionCount: DEFAULT_QUESTION_COUNT,
+            discipline: discipline || undefined,
+            documents: textDocuments.map((attachment) => ({
+              name: attachment.file.name,
+              kind: attachment.kind,
+              text: attachment.processed!.text,
+              sections: attachment.processed!.sections,
+              captions: attachment.processed!.captions,
+            })),
+            codeSummary,
+            revisionChanges,
+            referenceSummary,
+          };
 
-          // Process the document client-side
-          const processResult = await processDocument(projectFile);
-
-          fileName = projectFile.name;
-          fileType = projectFile.type;
-
-          // If document processing succeeded, use the extracted text
-          if (processResult.success && processResult.text) {
-            extractedText = processResult.text;
-            console.log(
-              "Extracted text from file (preview):",
-              extractedText.substring(0, 200) + "..."
-            );
-
-            // Generate custom questions based on the document content
-            toast.info("Analyzing your document and generating questions...");
-            customQuestions = await generateQuestionsFromDocument({
-              academicLevel: "Master's", // Default academic level, will be updated later
-              projectTitle: "Project Defense", // Default title, will be updated later
-              technologies: [],
-              documentText: extractedText,
-            });
-
-            // Store extracted questions for later use
-            setExtractedQuestions(customQuestions);
-
-            console.log(
-              "Generated questions based on document:",
-              customQuestions
+          // The same set of files uploaded before with the same settings
+          // already has questions; questions focused on changes depend on
+          // the previous revision too, and the mix on the institution
+          const primaryHash = primaryDocument?.fileHash;
+          const bloomProfiles = await getBloomProfilesForUser(userId);
+          const setParams: QuestionSetParams = {
+            academicLevel,
+            focusRatio: formatDistribution(focusDistribution),
+            questionCount: DEFAULT_QUESTION_COUNT,
+            model: resolveModel("questions")?.label || TEMPLATE_QUESTIONS,
+            promptVersion: getPrompt("question-set").label,
+            bloomProfile: bloomProfiles[normalizeAcademicLevel(academicLevel)],
+            ...(revisionChanges
+              ? { previousFileHash: revisionSelection.previousFileHash }
+              : {}),
+          };
+          const setKey = questionSetKey(readyDocuments, setParams);
+          const replayOnly = isQuestionReplayMode();
+          const cachedQuestions =
+            primaryHash && (!regenerateQuestions || replayOnly)
+              ? await getCachedQuestions(primaryHash, setKey)
+              : [];
+
+          if (cachedQuestions.length > 0) {
+            toast.info("Reusing the questions from your previous upload.");
+            customQuestions = cachedQuestions;
+            questionPromptVersion = setParams.promptVersion;
+            questionParamsRef.current = questionParams;
+          } else if (replayOnly) {
+            // Template questions are added when the session is created
+            toast.warning(
+              "Replay mode: no cached questions for these documents, using template questions."
             );
+            questionParamsRef.current = questionParams;
           } else {
-            console.warn(
-              "Failed to extract text from file:",
-              processResult.error
+            // Generate custom questions from all documents together
+            toast.info("Analyzing your documents and generating questions...");
+            // Long documents are summarized section by section first so
+            // questions cover their later chapters too
+            const summaries = await Promise.all(
+              textDocuments.map(summarizeAttachment)
             );
-            toast.warning(
-              "Could not analyze your document, but continuing with session."
+            questionParamsRef.current = {
+              ...questionParams,
+              bloomProfiles,
+              documents: questionParams.documents?.map((document, index) => ({
+                ...document,
+                summary: summaries[index],
+              })),
+            };
+            const generated = await generateQuestionsFromDocument(
+              questionParamsRef.current
             );
+            customQuestions = generated.questions;
+            questionPromptVersion = generated.promptVersion;
+
+            // Template questions are not cached so a later upload with the
+            // model available generates real ones
+            if (
+              primaryHash &&
+              customQuestions.length > 0 &&
+              generated.model !== TEMPLATE_QUESTIONS
+            ) {
+              await saveCachedQuestions({
+                hash: primaryHash,
+                setKey,
+                documentHashes: readyDocuments
+                  .map((attachment) => attachment.fileHash)
+                  .filter((hash): hash is string => Boolean(hash)),
+                questions: customQuestions,
+                setParams,
+              });
+            }
           }
-        } catch (error) {
-          console.error("Error processing file:", error);
-          toast.error(
-            `Document processing error: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`
+
+          // Store extracted questions for later use
+          setExtractedQuestions(customQuestions);
+          if (customQuestions.length > 0) {
+            toast.info(
+              `Question mix: ${formatCategoryCounts(
+                countCategories(customQuestions)
+              )}; ${formatCognitiveCounts(
+                countCognitiveLevels(customQuestions)
+              )}`
+            );
+          }
+
+          console.log(
+            "Generated questions based on documents:",
+            customQuestions
           );
+        } catch (error) {
+          console.error("Error generating document questions:", error);
           toast.warning("Continuing with session without document analysis");
         }
       } else {
@@ -689,18 +1003,42 @@ const Agent = ({
         );
       }
 
+      // Questions picked from the bank come first
+      if (bankQuestions.length > 0) {
+        const bankTexts = new Set(
+          bankQuestions.map((question) => question.text.toLowerCase())
+        );
+        customQuestions = [
+          ...bankQuestions.map(fromBankQuestion),
+          ...customQuestions.filter(
+            (question) => !bankTexts.has(question.text.toLowerCase())
+          ),
+        ];
+        setExtractedQuestions(customQuestions);
+      }
+
       // Create a defense session in Firebase first with more descriptive default values
       const { success, sessionId } = await createDefenseSession({
         userId: userId,
-        role: fileName
-          ? fileName.replace(/\.(pdf|docx|pptx)$/i, "")
-          : "Project Defense", // Use filename as initial title if available
+        role: fileName ? fileName.replace(/\.[^.]+$/, "") : "Project Defense", // Use filename as initial title if available
         type: "Defense Session",
-        techstack: [],
-        level: "To be determined during preparation",
-        focusRatio: "To be determined during preparation",
+        techstack,
+        level: academicLevel,
+        focusRatio: formatDistribution(focusDistribution),
+        discipline: discipline || undefined,
         // Pass custom questions if available
         questions: customQuestions.length > 0 ? customQuestions : undefined,
+        promptVersions: questionPromptVersion
+          ? { "question-set": questionPromptVersion }
+          : undefined,
+        documentOutline: documentOutline || undefined,
+        codeSummary: codeSummary || undefined,
+        documents: readyDocuments.map(toSessionDocument),
+        consistencyReport,
+        changedSections,
+        referenceSummary: referenceSummary || undefined,
+        referenceIssues:
+          referenceIssues.length > 0 ? referenceIssues : undefined,
       });
 
       if (!success || !sessionId) {
@@ -712,77 +1050,65 @@ const Agent = ({
       // Store the new session ID
       setCurrentSessionId(sessionId);
 
-      // Show confirmation and summary
-      const summaryMessage: SavedMessage = {
-        role: "system" as const,
-        content: extractedText
-          ? `Defense session prepared with document analysis. Generated ${customQuestions.length} custom questions based on your document. Starting your defense preparation...`
-          : `Defense session prepared. Starting your defense preparation...`,
-      };
-      setMessages([summaryMessage]);
-
-      // Add system message to indicate prep phase is starting
-      const prepPhaseMessage: SavedMessage = {
-        role: "system",
-        content:
-          "Starting project preparation phase. The AI coach will gather information about your project to prepare for your defense examination. This information will be used by the Gemini AI examiner in the next phase.",
-      };
-      setMessages([prepPhaseMessage]);
-
-      // Hide the form and show the defense interface
-      setCallStatus(CallStatus.CONNECTING);
-      setShowForm(false);
+      if (bankQuestions.length > 0) {
+        await recordQuestionBankUse(
+          bankQuestions.map((question) => question.id)
+        );
+      }
 
-      // Launch the VAPI session with proper initialization
-      try {
-        // Make sure VAPI workflow ID exists
-        if (!process.env.NEXT_PUBLIC_VAPI_WORKFLOW_ID) {
-          throw new Error("VAPI workflow ID is missing");
+      // Record the report as the next revision of its project
+      if (readyReport?.fileHash) {
+        const revisionResult = await addProjectRevision({
+          userId,
+          projectId: revisionSelection.projectId,
+          name: readyReport.file.name.replace(/\.[^.]+$/, ""),
+          fileHash: readyReport.fileHash,
+          filename: readyReport.file.name,
+          sessionId,
+          changeSummary: revisionDiff
+            ? summarizeRevisionDiff(revisionDiff)
+            : undefined,
+          changedSections,
+        });
+        if (!revisionResult.success) {
+          console.error(
+            "Failed to record report revision:",
+            revisionResult.error
+          );
         }
+      }
 
-        // Our enhanced VAPI SDK handles errors and reconnection internally
-        await vapi.start(process.env.NEXT_PUBLIC_VAPI_WORKFLOW_ID, {
-          variableValues: {
-            username: userName,
-            userid: userId,
-            sessionId: sessionId,
-            projectFile: {
-              name: fileName || "No file provided",
-              type: fileType || "none",
-              extractedText: extractedText || "No text extracted",
-              customQuestions:
-                customQuestions.length > 0 ? customQuestions.join("\n") : "",
-            },
-            // Specify preparation phase
-            phase: "preparation",
-            // Add flag to indicate this is for gathering info, not examination
-            isExaminer: false,
-            isPrepPhase: true,
-            // Do not use Gemini AI for preparation, only for examination
-            useGeminiForExamination: false,
-            hasDocumentContext: extractedText ? true : false,
-          },
+      // Persist the document chunks so the examiner can quote the document
+      if (documentChunks.length > 0) {
+        const chunkResult = await saveSessionChunks({
+          sessionId,
+          chunks: documentChunks,
         });
-      } catch (error) {
-        console.error("Error starting VAPI session:", error);
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-
-        // Handle common error cases
-        if (
-          errorMessage.includes("API key") ||
-          errorMessage.includes("authentication")
-        ) {
-          toast.error("API key configuration error. Please contact support.");
-        } else if (errorMessage.includes("timeout")) {
-          toast.error("Connection timeout. Please try again later.");
-        } else {
-          toast.error("Failed to start defense preparation session");
+        if (!chunkResult.success) {
+          console.error("Failed to save document chunks:", chunkResult.error);
+          toast.warning(
+            "Your documents could not be saved for the examiner. Questions will not quote them."
+          );
         }
+      }
+
+      const preparation: PendingPreparation = {
+        sessionId,
+        fileName,
+        fileType,
+        extractedText,
+        documentCount: readyDocuments.length,
+      };
 
+      // Let the student review the questions before the call starts
+      if (customQuestions.length > 0) {
+        setPendingPreparation(preparation);
+        setReviewingQuestions(true);
         setSubmittingForm(false);
-        setCallStatus(CallStatus.ERROR);
+        return;
       }
+
+      await startPreparation(preparation, customQuestions);
     } catch (error) {
       console.error("Error submitting defense info:", error);
       toast.error("Failed to start defense session");
@@ -790,6 +1116,136 @@ const Agent = ({
     }
   };
 
+  /**
+   * Start the preparation call once the session and its questions are ready
+   */
+  const startPreparation = async (
+    preparation: PendingPreparation,
+    questions: DefenseQuestion[]
+  ) => {
+    // Show confirmation and summary
+    const summaryMessage: SavedMessage = {
+      role: "system" as const,
+      content:
+        preparation.documentCount > 0
+          ? `Defense session prepared with analysis of ${preparation.documentCount} document(s). Prepared ${questions.length} custom questions. Starting your defense preparation...`
+          : `Defense session prepared. Starting your defense preparation...`,
+    };
+    setMessages([summaryMessage]);
+
+    // Add system message to indicate prep phase is starting
+    const prepPhaseMessage: SavedMessage = {
+      role: "system",
+      content:
+        "Starting project preparation phase. The AI coach will gather information about your project to prepare for your defense examination. This information will be used by the Gemini AI examiner in the next phase.",
+    };
+    setMessages([prepPhaseMessage]);
+
+    // Hide the form and show the defense interface
+    setCallStatus(CallStatus.CONNECTING);
+    setShowForm(false);
+
+    // Launch the VAPI session with proper initialization
+    try {
+      // Make sure VAPI workflow ID exists
+      if (!process.env.NEXT_PUBLIC_VAPI_WORKFLOW_ID) {
+        throw new Error("VAPI workflow ID is missing");
+      }
+
+      // Our enhanced VAPI SDK handles errors and reconnection internally
+      await vapi.start(process.env.NEXT_PUBLIC_VAPI_WORKFLOW_ID, {
+        variableValues: {
+          username: userName,
+          userid: userId,
+          sessionId: preparation.sessionId,
+          projectFile: {
+            name: preparation.fileName || "No file provided",
+            type: preparation.fileType || "none",
+            extractedText: preparation.extractedText || "No text extracted",
+            customQuestions:
+              questions.length > 0
+                ? questions.map((question) => question.text).join("\n")
+                : "",
+          },
+          // Specify preparation phase
+          phase: "preparation",
+          // Add flag to indicate this is for gathering info, not examination
+          isExaminer: false,
+          isPrepPhase: true,
+          // Do not use Gemini AI for preparation, only for examination
+          useGeminiForExamination: false,
+          hasDocumentContext: preparation.extractedText ? true : false,
+        },
+      });
+    } catch (error) {
+      console.error("Error starting VAPI session:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      // Handle common error cases
+      if (
+        errorMessage.includes("API key") ||
+        errorMessage.includes("authentication")
+      ) {
+        toast.error("API key configuration error. Please contact support.");
+      } else if (errorMessage.includes("timeout")) {
+        toast.error("Connection timeout. Please try again later.");
+      } else {
+        toast.error("Failed to start defense preparation session");
+      }
+
+      setSubmittingForm(false);
+      setCallStatus(CallStatus.ERROR);
+    }
+  };
+
+  // Save the reviewed questions for the examiner, then start the call
+  const handleConfirmQuestions = async () => {
+    if (!pendingPreparation) return;
+
+    const questions = extractedQuestions
+      .map((question) => ({ ...question, text: question.text.trim() }))
+      .filter((question) => question.text.length > 0);
+
+    setSubmittingForm(true);
+    const result = await updateDefenseSession({
+      sessionId: pendingPreparation.sessionId,
+      data: {
+        questions: questions.map((question) => question.text),
+        defenseQuestions: questions,
+      },
+    });
+    if (!result.success) {
+      toast.error("Failed to save your questions. Please try again.");
+      setSubmittingForm(false);
+      return;
+    }
+
+    setExtractedQuestions(questions);
+    setReviewingQuestions(false);
+    setPendingPreparation(null);
+    await startPreparation(pendingPreparation, questions);
+  };
+
+  const handleRegenerateQuestion = async (
+    question: DefenseQuestion,
+    otherQuestions: DefenseQuestion[]
+  ) => {
+    const replacement = await regenerateQuestion(
+      questionParamsRef.current || {
+        academicLevel,
+        projectTitle: "Project Defense",
+        technologies: collectTechstack(attachments),
+      },
+      question,
+      otherQuestions
+    );
+    if (!replacement) {
+      toast.error("Could not generate a new question. Please try again.");
+    }
+    return replacement;
+  };
+
   const handleCall = async () => {
     if (type === "generate") {
       setShowForm(true);
@@ -813,7 +1269,13 @@ const Agent = ({
         let projectTitle = "Project Defense";
         let academicLevel = "";
         let technologies: string[] = [];
+        let sessionDiscipline: Discipline | undefined;
         let sessionContext = "";
+        let documentOutline = "";
+        let codeSummary = "";
+        let referenceSummary = "";
+        let sessionDocuments: SessionDocument[] = [];
+        let hasDocumentChunks = false;
 
         if (
           sessionPhase === "examination" &&
@@ -834,10 +1296,10 @@ const Agent = ({
 
                 // Update local state with session data
                 if (
-                  currentSession.questions &&
-                  currentSession.questions.length > 0
+                  currentSession.defenseQuestions &&
+                  currentSession.defenseQuestions.length > 0
                 ) {
-                  setExtractedQuestions(currentSession.questions);
+                  setExtractedQuestions(currentSession.defenseQuestions);
                 }
 
                 // Capture session information for Gemini context
@@ -859,6 +1321,15 @@ const Agent = ({
                   technologies = currentSession.techstack;
                 }
 
+                sessionDiscipline = currentSession.discipline;
+
+                documentOutline = currentSession.documentOutline || "";
+                codeSummary = currentSession.codeSummary || "";
+                referenceSummary = currentSession.referenceSummary || "";
+                sessionDocuments = currentSession.documents || [];
+                hasDocumentChunks =
+                  (currentSession.documentChunkCount || 0) > 0;
+
                 // Build context string for Gemini AI
                 sessionContext = `Project Title: ${projectTitle}\n`;
                 sessionContext += academicLevel
@@ -868,6 +1339,23 @@ const Agent = ({
                   technologies.length > 0
                     ? `Technologies: ${technologies.join(", ")}\n`
                     : "";
+                sessionContext +=
+                  sessionDocuments.length > 0
+                    ? `Documents: ${sessionDocuments
+                        .map(
+                          (attachment) =>
+                            `${attachment.name} (${
+                              DOCUMENT_KIND_LABELS[attachment.kind]
+                            })`
+                        )
+                        .join(", ")}\n`
+                    : "";
+                sessionContext += codeSummary
+                  ? `Source Code:\n${codeSummary}\n`
+                  : "";
+                sessionContext += referenceSummary
+                  ? `References:\n${referenceSummary}\n`
+                  : "";
 
                 // Add a message showing the project title
                 const projectInfoMessage: SavedMessage = {
@@ -887,7 +1375,7 @@ const Agent = ({
         // Use extracted questions if available (for examination phase after document upload)
         if (sessionPhase === "examination" && extractedQuestions.length > 0) {
           formattedQuestions = extractedQuestions
-            .map((question) => `- ${question}`)
+            .map(formatDefenseQuestion)
             .join("\n");
           console.log(
             "Using extracted questions for examination:",
@@ -906,19 +1394,30 @@ const Agent = ({
         }
         // Set fallback if no questions available
         else {
-          const fallbackQuestions = [
-            "Explain the overall architecture of your project.",
-            "What were the main technical challenges you faced?",
-            "How did you ensure the quality of your implementation?",
-            "Describe your methodology approach in detail.",
-            "What are the limitations of your current implementation?",
-          ];
+          const fallbackQuestions = getTemplateQuestions({
+            discipline:
+              sessionDiscipline ||
+              detectDiscipline({ technologies, text: documentOutline }),
+            title: projectTitle,
+            technologies,
+            level: academicLevel,
+            count: 5,
+          });
           formattedQuestions = fallbackQuestions
-            .map((question) => `- ${question}`)
+            .map(formatDefenseQuestion)
             .join("\n");
           console.log("Using fallback questions:", formattedQuestions);
         }
 
+        // A finished examination starts over; one cut off mid-way resumes
+        if (sessionPhase === "examination" && currentSessionId) {
+          const started = await startExaminationCall(currentSessionId);
+          if (started.restarted) {
+            console.log("Examination already finished; starting it over");
+            setExaminationProgress(null);
+          }
+        }
+
         // Reset reconnection attempts
         reconnectAttemptsRef.current = 0;
 
@@ -957,17 +1456,16 @@ const Agent = ({
             // IMPORTANT: Specify that Gemini AI should be used for examination phase
             useGeminiForExamination: sessionPhase === "examination",
             // Add a flag for whether this has document context
-            hasDocumentContext: extractedQuestions.length > 0,
+            hasDocumentContext:
+              hasDocumentChunks || extractedQuestions.length > 0,
             // Add project context information
             projectContext: sessionContext,
             projectTitle: projectTitle,
             academicLevel: academicLevel,
             technologies: technologies.join(", "),
-            // Add the document text from the project file if available
-            documentText:
-              sessionPhase === "examination" && extractedQuestions.length > 0
-                ? "Document analysis has been performed and questions have been extracted."
-                : "",
+            // The examination route retrieves document passages by sessionId;
+            // the outline tells the workflow which chapters exist
+            documentText: sessionPhase === "examination" ? documentOutline : "",
           },
         });
 
@@ -1030,7 +1528,38 @@ const Agent = ({
         </div>
       )}
 
-      {showForm ? (
+      {showForm && reviewingQuestions ? (
+        <div className="form-container p-6 border rounded-lg">
+          <h3 className="mb-2">Review Your Questions</h3>
+          <p className="text-sm mb-1">
+            The examiner will work through these questions in order. Reorder,
+            edit, delete or regenerate them, or add your own. Pinned questions
+            are always asked.
+          </p>
+          <p className="text-xs text-gray-500 mb-4">
+            Question mix:{" "}
+            {formatCategoryCounts(countCategories(extractedQuestions))};{" "}
+            {formatCognitiveCounts(countCognitiveLevels(extractedQuestions))}
+          </p>
+
+          <QuestionSetEditor
+            questions={extractedQuestions}
+            onChange={setExtractedQuestions}
+            onRegenerate={handleRegenerateQuestion}
+            disabled={submittingForm}
+          />
+
+          <div className="mt-6 flex justify-center">
+            <button
+              className="btn-primary"
+              onClick={handleConfirmQuestions}
+              disabled={submittingForm || extractedQuestions.length === 0}
+            >
+              {submittingForm ? "Starting..." : "Start Defense Session"}
+            </button>
+          </div>
+        </div>
+      ) : showForm ? (
         <div className="form-container p-6 border rounded-lg">
           <h3 className="mb-4">Project Defense Information</h3>
 
@@ -1040,42 +1569,215 @@ const Agent = ({
                 htmlFor="projectFile"
                 className="block text-sm font-medium mb-1"
               >
-                Project Documentation
+                Project Documents
               </label>
               <input
                 id="projectFile"
                 type="file"
+                multiple
                 ref={fileInputRef}
                 className="w-full p-2 border rounded-md"
-                accept=".pdf,.docx,.pptx"
+                accept={ALLOWED_FILE_EXTENSIONS.join(",")}
                 onChange={handleFileChange}
-                title="Upload project documentation"
-                disabled={submittingForm || fileProcessing}
+                title="Upload your report, slides, source code and appendices"
+                disabled={
+                  submittingForm || attachments.length >= MAX_SESSION_DOCUMENTS
+                }
               />
 
-              {fileProcessing && (
-                <div className="mt-2">
-                  <div className="file-upload-progress"></div>
-                  <p className="text-xs text-blue-600 mt-1">
-                    Processing document...
-                  </p>
-                </div>
+              {attachments.length > 0 && (
+                <ul className="mt-3 flex flex-col gap-2">
+                  {attachments.map((attachment) => (
+                    <li
+                      key={attachment.id}
+                      className="p-2 border rounded-md flex flex-col gap-1"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm flex-1 truncate">
+                          {attachment.file.name}
+                        </span>
+                        <select
+                          className="p-1 border rounded-md text-xs"
+                          value={attachment.kind}
+                          onChange={(e) =>
+                            handleDocumentKindChange(
+                              attachment.id,
+                              e.target.value as DocumentKind
+                            )
+                          }
+                          title="Document type"
+                          disabled={submittingForm}
+                        >
+                          {(
+                            Object.keys(DOCUMENT_KIND_LABELS) as DocumentKind[]
+                          ).map((kind) => (
+                            <option key={kind} value={kind}>
+                              {DOCUMENT_KIND_LABELS[kind]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          className="text-xs text-red-600"
+                          onClick={() => handleRemoveDocument(attachment.id)}
+                          disabled={submittingForm}
+                        >
+                          Remove
+                        </button>
+                      </div>
+
+                      {attachment.status === "processing" && (
+                        <p className="text-xs text-blue-600">
+                          {attachment.kind === "code"
+                            ? "Indexing source code..."
+                            : "Processing attachment..."}
+                        </p>
+                      )}
+
+                      {attachment.status === "ready" && (
+                        <p className="text-xs text-green-600">
+                          {attachment.codeIndex
+                            ? `Indexed ${
+                                attachment.codeIndex.files.length
+                              } files${
+                                attachment.codeIndex.techstack.length > 0
+                                  ? ` (${attachment.codeIndex.techstack.join(
+                                      ", "
+                                    )})`
+                                  : ""
+                              }.`
+                            : `${
+                                attachment.processed?.metadata.reused
+                                  ? "Reused from a previous upload"
+                                  : "Processed"
+                              }: ${
+                                attachment.processed?.metadata.wordCount || 0
+                              } words.`}
+                        </p>
+                      )}
+
+                      {attachment.warning && attachment.status === "ready" && (
+                        <p className="text-xs text-amber-600">
+                          {attachment.warning}
+                        </p>
+                      )}
+
+                      {attachment.error && (
+                        <p className="text-xs text-red-600">
+                          {attachment.error}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
               )}
 
-              {fileProcessed && !fileError && (
-                <p className="text-xs text-green-600 mt-1">
-                  Document processed successfully. Ready for defense session.
-                </p>
-              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Attach your report, slides, source code (.zip of the repository,
+                max 20MB) and appendices. Documents accept PDF, DOCX, PPTX, ODT,
+                ODP, LaTeX (.tex or .zip), Markdown, TXT (max 5MB).
+              </p>
+            </div>
 
-              {fileError && (
-                <p className="text-xs text-red-600 mt-1">{fileError}</p>
-              )}
+            <DocumentRevisions
+              userId={userId}
+              report={readyReport}
+              onChange={setRevisionSelection}
+            />
+
+            <div className="form-group">
+              <label
+                htmlFor="academicLevel"
+                className="block text-sm font-medium mb-1"
+              >
+                Academic Level
+              </label>
+              <select
+                id="academicLevel"
+                className="w-full p-2 border rounded-md"
+                value={academicLevel}
+                onChange={(e) =>
+                  setAcademicLevel(e.target.value as AcademicLevel)
+                }
+                disabled={submittingForm}
+              >
+                {ACADEMIC_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label
+                htmlFor="discipline"
+                className="block text-sm font-medium mb-1"
+              >
+                Discipline
+              </label>
+              <select
+                id="discipline"
+                className="w-full p-2 border rounded-md"
+                value={discipline}
+                onChange={(e) =>
+                  setDiscipline(e.target.value as Discipline | "")
+                }
+                disabled={submittingForm}
+              >
+                <option value="">Detect from my documents</option>
+                {(Object.keys(DISCIPLINE_LABELS) as Discipline[]).map(
+                  (item) => (
+                    <option key={item} value={item}>
+                      {DISCIPLINE_LABELS[item]}
+                    </option>
+                  )
+                )}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Used for template questions when questions cannot be generated
+                from your documents.
+              </p>
+            </div>
 
+            <div className="form-group">
+              <label
+                htmlFor="focusRatio"
+                className="block text-sm font-medium mb-1"
+              >
+                Question Focus
+              </label>
+              <input
+                id="focusRatio"
+                type="text"
+                className="w-full p-2 border rounded-md"
+                value={focusRatio}
+                onChange={(e) => setFocusRatio(e.target.value)}
+                disabled={submittingForm}
+              />
               <p className="text-xs text-gray-500 mt-1">
-                Accept PDF, DOCX, PPTX (max 5MB)
+                Read as {formatDistribution(focusDistribution)}. Categories are
+                technical, methodology, alternatives and ethics.
               </p>
             </div>
+
+            <label className="form-group flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={regenerateQuestions}
+                onChange={(e) => setRegenerateQuestions(e.target.checked)}
+                disabled={submittingForm}
+              />
+              Generate new questions instead of reusing ones from a previous
+              upload
+            </label>
+
+            <QuestionBank
+              userId={userId}
+              technologies={collectTechstack(attachments)}
+              selected={bankQuestions}
+              onChange={setBankQuestions}
+            />
           </div>
 
           <div className="mt-6 flex justify-center">
@@ -1106,6 +1808,15 @@ const Agent = ({
                 {isSpeaking && <span className="animate-speak" />}
               </div>
               <h3>AI Defense Examiner</h3>
+              {examinationProgress &&
+                examinationProgress.totalQuestions > 0 &&
+                examinationProgress.currentQuestion > 0 && (
+                  <p className="text-sm text-gray-500">
+                    {examinationProgress.status === "wrapped-up"
+                      ? "Examination complete"
+                      : `Question ${examinationProgress.currentQuestion} of ${examinationProgress.totalQuestions}`}
+                  </p>
+                )}
             </div>
 
             {/* User Profile Card */}
@@ -1178,6 +1889,50 @@ const Agent = ({
             </div>
           )}
 
+          {extractedQuestions.length > 0 &&
+            callStatus !== CallStatus.ACTIVE && (
+              <p className="text-sm text-center mt-4">
+                Question mix:{" "}
+                {formatCategoryCounts(countCategories(extractedQuestions))}{" "}
+                (requested{" "}
+                {formatCategoryCounts(
+                  allocateQuestions(
+                    focusDistribution,
+                    extractedQuestions.length
+                  )
+                )}
+                ); cognitive levels:{" "}
+                {formatCognitiveCounts(
+                  countCognitiveLevels(extractedQuestions)
+                )}
+              </p>
+            )}
+
+          {extractedQuestions.length > 0 &&
+            callStatus !== CallStatus.ACTIVE &&
+            userId && (
+              <details className="w-full mt-2 text-sm">
+                <summary>Questions for this session</summary>
+                <ul className="mt-2 flex flex-col gap-1">
+                  {extractedQuestions.map((question) => (
+                    <li key={question.text} className="flex items-start gap-2">
+                      <span className="flex-1">{question.text}</span>
+                      <button
+                        type="button"
+                        className="text-xs text-blue-600"
+                        onClick={() => handleSaveToBank(question)}
+                        disabled={savedToBank.includes(question.text)}
+                      >
+                        {savedToBank.includes(question.text)
+                          ? "Saved"
+                          : "Save to bank"}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
           <div className="w-full flex justify-center mt-4">
             {callStatus !== CallStatus.ACTIVE ? (
               <button
@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  getProjectRevisions,
+  getProjectsByUserId,
+} from "@/lib/actions/project.action";
+import {
+  diffDocumentSections,
+  summarizeRevisionDiff,
+  type RevisionDiff,
+  type SectionChangeType,
+} from "@/lib/document-diff";
+import { loadStoredDocument } from "@/lib/document-processor";
+import type { AttachedDocument } from "@/lib/session-documents";
+
+export interface RevisionSelection {
+  projectId?: string; // Undefined starts a new project
+  previousFileHash?: string; // Latest revision before this upload
+  diff?: RevisionDiff;
+  focusOnChanges: boolean;
+}
+
+interface DocumentRevisionsProps {
+  userId: string | undefined;
+  report: AttachedDocument | undefined; // Processed report, if attached
+  onChange: (selection: RevisionSelection) => void;
+}
+
+const CHANGE_STYLES: Record<SectionChangeType, string> = {
+  added: "text-green-600",
+  modified: "text-amber-600",
+  removed: "text-red-600",
+  unchanged: "",
+};
+
+// Changed sections listed before the rest are collapsed into a count
+const MAX_LISTED_CHANGES = 8;
+
+const DocumentRevisions = ({
+  userId,
+  report,
+  onChange,
+}: DocumentRevisionsProps) => {
+  const [projects, setProjects] = useState<DefenseProject[]>([]);
+  const [projectId, setProjectId] = useState<string>("");
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [diff, setDiff] = useState<RevisionDiff | undefined>();
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [focusOnChanges, setFocusOnChanges] = useState(true);
+
+  const project = projects.find((item) => item.id === projectId);
+  const reportName = report?.file.name;
+  const reportHash = report?.fileHash;
+  const sameAsLatest = Boolean(
+    project && reportHash && project.latestFileHash === reportHash
+  );
+
+  useEffect(() => {
+    if (!userId) return;
+    getProjectsByUserId(userId).then(setProjects);
+  }, [userId]);
+
+  // Suggest the project whose latest upload has the same base file name
+  useEffect(() => {
+    if (!reportName) return;
+    const stem = documentStem(reportName);
+    const match = projects.find(
+      (item) => documentStem(item.latestFilename) === stem
+    );
+    setProjectId(match?.id || "");
+  }, [reportName, projects]);
+
+  useEffect(() => {
+    setRevisions([]);
+    if (!projectId) return;
+
+    let cancelled = false;
+    getProjectRevisions(projectId).then((result) => {
+      if (!cancelled) setRevisions(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Diff the attached report against the project's latest revision
+  useEffect(() => {
+    setDiff(undefined);
+    setLoadingDiff(false);
+    const currentSections = report?.processed?.sections;
+    if (!project || !currentSections || !reportName || sameAsLatest) return;
+
+    let cancelled = false;
+    setLoadingDiff(true);
+    loadStoredDocument(project.latestFileHash)
+      .then((previous) => {
+        if (cancelled || !previous) return;
+        setDiff(
+          diffDocumentSections(previous.sections, currentSections, {
+            previous: project.latestFilename,
+            current: reportName,
+          })
+        );
+      })
+      .catch((error) => {
+        console.error("Error comparing revisions:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDiff(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project, report?.processed, reportName, sameAsLatest]);
+
+  useEffect(() => {
+    onChange({
+      projectId: projectId || undefined,
+      previousFileHash: project?.latestFileHash,
+      diff,
+      focusOnChanges,
+    });
+  }, [projectId, project, diff, focusOnChanges, onChange]);
+
+  if (!report || projects.length === 0) {
+    return null;
+  }
+
+  const changes = diff
+    ? diff.changes.filter((change) => change.type !== "unchanged")
+    : [];
+
+  return (
+    <div className="form-group p-3 border rounded-md flex flex-col gap-2">
+      <label htmlFor="projectRevision" className="block text-sm font-medium">
+        Revision of
+      </label>
+      <select
+        id="projectRevision"
+        className="w-full p-2 border rounded-md text-sm"
+        value={projectId}
+        onChange={(e) => setProjectId(e.target.value)}
+      >
+        <option value="">A new project</option>
+        {projects.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name} ({item.revisionCount} revision
+            {item.revisionCount === 1 ? "" : "s"}, latest {item.latestFilename})
+          </option>
+        ))}
+      </select>
+
+      {sameAsLatest && (
+        <p className="text-xs text-gray-500">
+          This is the same file as the latest revision.
+        </p>
+      )}
+
+      {loadingDiff && (
+        <p className="text-xs text-blue-600">
+          Comparing with the last revision...
+        </p>
+      )}
+
+      {diff && (
+        <div className="flex flex-col gap-1">
+          <p className="text-sm">
+            Changes since {diff.previousFilename}: {summarizeRevisionDiff(diff)}
+          </p>
+          <ul className="flex flex-col gap-1">
+            {changes.slice(0, MAX_LISTED_CHANGES).map((change) => (
+              <li key={`${change.type}-${change.title}`} className="text-xs">
+                <span className={CHANGE_STYLES[change.type]}>
+                  {change.type}
+                </span>{" "}
+                {change.title}
+                {change.previousTitle && ` (was ${change.previousTitle})`}
+                {change.type === "modified" &&
+                  ` +${change.wordsAdded}/-${change.wordsRemoved} words`}
+              </li>
+            ))}
+          </ul>
+          {changes.length > MAX_LISTED_CHANGES && (
+            <p className="text-xs text-gray-500">
+              and {changes.length - MAX_LISTED_CHANGES} more section(s)
+            </p>
+          )}
+          {changes.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={focusOnChanges}
+                onChange={(e) => setFocusOnChanges(e.target.checked)}
+              />
+              Focus questions on what changed
+            </label>
+          )}
+        </div>
+      )}
+
+      {revisions.length > 0 && (
+        <details className="text-xs">
+          <summary>Revision history</summary>
+          <ul className="mt-1 flex flex-col gap-1">
+            {revisions.map((revision) => (
+              <li key={revision.number}>
+                v{revision.number}: {revision.filename},{" "}
+                {new Date(revision.uploadedAt).toLocaleDateString()}
+                {revision.changeSummary && ` (${revision.changeSummary})`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+/**
+ * File name without extension and version suffixes such as "_v2",
+ * "-final" or " (1)", so successive uploads of a report compare equal
+ */
+function documentStem(filename: string): string {
+  let stem = filename.toLowerCase().replace(/\.[^.]+$/, "");
+  let previous = "";
+  while (stem !== previous) {
+    previous = stem;
+    stem = stem
+      .replace(
+        /(?:[\s._-]+(?:v\d+|rev\d*|final|draft|new|updated)|\s*\(\d+\))$/,
+        ""
+      )
+      .trim();
+  }
+  return stem;
+}
+
+export default DocumentRevisions;
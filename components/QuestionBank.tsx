@@ -0,0 +1,290 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+
+import {
+  saveToQuestionBank,
+  searchQuestionBank,
+} from "@/lib/actions/question-bank.action";
+import { normalizeTagValues, questionBankId } from "@/lib/question-bank";
+import { QUESTION_CATEGORIES } from "@/lib/question-mix";
+
+interface QuestionBankProps {
+  userId: string | undefined;
+  technologies: string[]; // Detected in the uploads; the default filter
+  selected: BankQuestion[];
+  onChange: (selected: BankQuestion[]) => void;
+}
+
+const DIFFICULTIES: QuestionDifficulty[] = [
+  "foundational",
+  "intermediate",
+  "advanced",
+];
+
+const QuestionBank = ({
+  userId,
+  technologies,
+  selected,
+  onChange,
+}: QuestionBankProps) => {
+  const [query, setQuery] = useState("");
+  const [discipline, setDiscipline] = useState("");
+  const [technology, setTechnology] = useState("");
+  const [category, setCategory] = useState<QuestionCategory | "">("");
+  const [results, setResults] = useState<BankQuestion[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+
+  // Hand-written question
+  const [newText, setNewText] = useState("");
+  const [newCategory, setNewCategory] = useState<QuestionCategory>("technical");
+  const [newDifficulty, setNewDifficulty] =
+    useState<QuestionDifficulty>("intermediate");
+  const [newDisciplines, setNewDisciplines] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const selectedIds = new Set(selected.map((question) => question.id));
+
+  // A cursor loads the next page of the current search
+  const handleSearch = async (cursor?: string) => {
+    setSearching(true);
+    try {
+      const page = await searchQuestionBank({
+        query,
+        discipline,
+        technology,
+        category: category || undefined,
+        cursor,
+      });
+      setResults((current) =>
+        cursor ? [...current, ...page.questions] : page.questions
+      );
+      setNextCursor(page.nextCursor);
+      setSearched(true);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const toggle = (question: BankQuestion) => {
+    onChange(
+      selectedIds.has(question.id)
+        ? selected.filter((item) => item.id !== question.id)
+        : [...selected, question]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!userId || !newText.trim()) return;
+
+    setSaving(true);
+    const question: DefenseQuestion = {
+      text: newText.trim(),
+      category: newCategory,
+      difficulty: newDifficulty,
+      expectedPoints: [],
+      rationale: "",
+    };
+    const disciplines = newDisciplines.split(",");
+    const result = await saveToQuestionBank({
+      userId,
+      question,
+      disciplines,
+      technologies,
+      source: "manual",
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error("Failed to save the question");
+      return;
+    }
+
+    // Use the new question in this session straight away
+    const now = new Date().toISOString();
+    const saved: BankQuestion = {
+      ...question,
+      id: result.questionId || questionBankId(question.text),
+      createdBy: userId,
+      disciplines: normalizeTagValues(disciplines),
+      technologies: normalizeTagValues(technologies),
+      tags: [],
+      source: "manual",
+      useCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (!selectedIds.has(saved.id)) onChange([...selected, saved]);
+    setNewText("");
+    toast.success("Question saved to the bank");
+  };
+
+  if (!userId) return null;
+
+  return (
+    <details className="form-group p-3 border rounded-md">
+      <summary className="text-sm font-medium">
+        Question Bank{selected.length > 0 && ` (${selected.length} selected)`}
+      </summary>
+
+      <div className="mt-2 flex flex-col gap-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            type="text"
+            className="p-2 border rounded-md text-sm"
+            placeholder="Search questions"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          />
+          <select
+            className="p-2 border rounded-md text-sm"
+            value={category}
+            onChange={(e) =>
+              setCategory(e.target.value as QuestionCategory | "")
+            }
+          >
+            <option value="">Any category</option>
+            {QUESTION_CATEGORIES.map((item) => (
+              <option key={item} value={item}>
+                {item}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="p-2 border rounded-md text-sm"
+            placeholder="Discipline, e.g. computer science"
+            value={discipline}
+            onChange={(e) => setDiscipline(e.target.value)}
+          />
+          <input
+            type="text"
+            className="p-2 border rounded-md text-sm"
+            placeholder={
+              technologies.length > 0
+                ? `Technology, e.g. ${technologies[0]}`
+                : "Technology"
+            }
+            value={technology}
+            onChange={(e) => setTechnology(e.target.value)}
+          />
+        </div>
+        <button
+          type="button"
+          className="btn-secondary self-start"
+          onClick={() => handleSearch()}
+          disabled={searching}
+        >
+          {searching ? "Searching..." : "Search"}
+        </button>
+
+        {searched && results.length === 0 && (
+          <p className="text-xs text-gray-500">No saved questions match.</p>
+        )}
+        {results.length > 0 && (
+          <ul className="flex flex-col gap-1">
+            {results.map((question) => (
+              <li key={question.id} className="text-sm">
+                <label className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selectedIds.has(question.id)}
+                    onChange={() => toggle(question)}
+                  />
+                  <span>
+                    {question.text}{" "}
+                    <span className="text-xs text-gray-500">
+                      {[
+                        question.category,
+                        question.difficulty,
+                        ...question.disciplines,
+                        ...question.technologies,
+                      ].join(", ")}
+                      {question.useCount > 0 &&
+                        `; used ${question.useCount} time${
+                          question.useCount === 1 ? "" : "s"
+                        }`}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+        {nextCursor && (
+          <button
+            type="button"
+            className="btn-secondary self-start"
+            onClick={() => handleSearch(nextCursor)}
+            disabled={searching}
+          >
+            Load more
+          </button>
+        )}
+
+        <details className="text-sm">
+          <summary>Write a question</summary>
+          <div className="mt-2 flex flex-col gap-2">
+            <textarea
+              className="p-2 border rounded-md text-sm"
+              rows={2}
+              value={newText}
+              onChange={(e) => setNewText(e.target.value)}
+              placeholder="Why did you choose this evaluation metric?"
+            />
+            <div className="flex gap-2">
+              <select
+                className="p-2 border rounded-md text-sm"
+                value={newCategory}
+                onChange={(e) =>
+                  setNewCategory(e.target.value as QuestionCategory)
+                }
+              >
+                {QUESTION_CATEGORIES.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="p-2 border rounded-md text-sm"
+                value={newDifficulty}
+                onChange={(e) =>
+                  setNewDifficulty(e.target.value as QuestionDifficulty)
+                }
+              >
+                {DIFFICULTIES.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="flex-1 p-2 border rounded-md text-sm"
+                placeholder="Disciplines, comma separated"
+                value={newDisciplines}
+                onChange={(e) => setNewDisciplines(e.target.value)}
+              />
+            </div>
+            <button
+              type="button"
+              className="btn-secondary self-start"
+              onClick={handleSave}
+              disabled={saving || !newText.trim()}
+            >
+              {saving ? "Saving..." : "Save and use"}
+            </button>
+          </div>
+        </details>
+      </div>
+    </details>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,235 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { QUESTION_CATEGORIES } from "@/lib/question-mix";
+
+interface QuestionSetEditorProps {
+  questions: DefenseQuestion[];
+  onChange: (questions: DefenseQuestion[]) => void;
+  // Resolves to the replacement, or null when none could be generated
+  onRegenerate: (
+    question: DefenseQuestion,
+    otherQuestions: DefenseQuestion[]
+  ) => Promise<DefenseQuestion | null>;
+  disabled?: boolean;
+}
+
+/**
+ * Review step between question generation and the examination: reorder,
+ * edit, delete, pin, regenerate and add questions. Pinned questions cannot
+ * be deleted or regenerated until they are unpinned.
+ */
+const QuestionSetEditor = ({
+  questions,
+  onChange,
+  onRegenerate,
+  disabled = false,
+}: QuestionSetEditorProps) => {
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [newText, setNewText] = useState("");
+  const [newCategory, setNewCategory] = useState<QuestionCategory>("technical");
+
+  // Row keys that follow a question through moves, deletes and edits, so
+  // React keeps each row's input state and focus on the right question
+  const rowKeys = useRef(new WeakMap<DefenseQuestion, number>());
+  const nextRowKey = useRef(0);
+  const rowKey = (question: DefenseQuestion) => {
+    let key = rowKeys.current.get(question);
+    if (key === undefined) {
+      key = nextRowKey.current++;
+      rowKeys.current.set(question, key);
+    }
+    return key;
+  };
+
+  const update = (index: number, changes: Partial<DefenseQuestion>) => {
+    onChange(
+      questions.map((question, i) => {
+        if (i !== index) return question;
+        const updated = { ...question, ...changes };
+        rowKeys.current.set(updated, rowKey(question));
+        return updated;
+      })
+    );
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const remove = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const regenerate = async (index: number) => {
+    setRegenerating(index);
+    try {
+      const replacement = await onRegenerate(
+        questions[index],
+        questions.filter((_, i) => i !== index)
+      );
+      if (replacement) {
+        onChange(
+          questions.map((question, i) => (i === index ? replacement : question))
+        );
+      }
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const add = () => {
+    const text = newText.trim();
+    if (!text) return;
+    onChange([
+      ...questions,
+      {
+        text,
+        category: newCategory,
+        difficulty: "intermediate",
+        expectedPoints: [],
+        rationale: "Added during review",
+      },
+    ]);
+    setNewText("");
+  };
+
+  const busy = disabled || regenerating !== null;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ol className="flex flex-col gap-2">
+        {questions.map((question, index) => (
+          <li
+            key={rowKey(question)}
+            className={`p-2 border rounded-md flex flex-col gap-1 ${
+              question.pinned ? "border-primary-200" : ""
+            }`}
+          >
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span>{index + 1}.</span>
+              <select
+                className="p-1 border rounded-md text-xs"
+                value={question.category}
+                onChange={(e) =>
+                  update(index, {
+                    category: e.target.value as QuestionCategory,
+                  })
+                }
+                disabled={busy}
+              >
+                {QUESTION_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+              <span className="flex-1">
+                {[
+                  question.difficulty,
+                  question.cognitiveLevel,
+                  question.targetSection,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+              </span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={Boolean(question.pinned)}
+                  onChange={(e) => update(index, { pinned: e.target.checked })}
+                  disabled={busy}
+                />
+                Pin
+              </label>
+            </div>
+
+            <textarea
+              className="w-full p-2 border rounded-md text-sm"
+              rows={2}
+              value={question.text}
+              onChange={(e) => update(index, { text: e.target.value })}
+              disabled={busy}
+            />
+
+            <div className="flex gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={busy || index === 0}
+              >
+                Move up
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={busy || index === questions.length - 1}
+              >
+                Move down
+              </button>
+              <button
+                type="button"
+                className="text-blue-600"
+                onClick={() => regenerate(index)}
+                disabled={busy || question.pinned}
+              >
+                {regenerating === index ? "Regenerating..." : "Regenerate"}
+              </button>
+              <button
+                type="button"
+                className="text-red-600"
+                onClick={() => remove(index)}
+                disabled={busy || question.pinned}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-col gap-2">
+        <textarea
+          className="w-full p-2 border rounded-md text-sm"
+          rows={2}
+          placeholder="Add your own question"
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          disabled={busy}
+        />
+        <div className="flex gap-2">
+          <select
+            className="p-2 border rounded-md text-sm"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as QuestionCategory)}
+            disabled={busy}
+          >
+            {QUESTION_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={add}
+            disabled={busy || !newText.trim()}
+          >
+            Add question
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionSetEditor;
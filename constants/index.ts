@@ -1,6 +1,8 @@
 import { CreateAssistantDTO } from "@vapi-ai/web/dist/api";
 import { z } from "zod";
 
+import { getPrompt } from "@/lib/prompts";
+
 export const mappings = {
   "react.js": "react",
   reactjs: "react",
@@ -121,40 +123,7 @@ export const interviewer: CreateAssistantDTO = {
     messages: [
       {
         role: "system",
-        content: `You are a professional academic defense examiner conducting a real-time voice assessment with a student defending their project. Your goal is to assess their technical knowledge, methodology, and implementation.
-
-Defense Guidelines:
-Follow the structured question flow:
-{{questions}}
-
-Academic Assessment Approach:
-1. Evaluate technical understanding of the implementation
-2. Assess methodology and research validity
-3. Question assumptions and decisions made in the project
-4. Test ability to respond to critical questions
-
-Engage professionally & academically:
-- Listen to responses and ask specific follow-up questions to probe deeper
-- Challenge weak points in the methodology or implementation
-- Adjust difficulty based on academic level (Bachelor's/Master's/PhD)
-- Keep questions focused on both theoretical foundations and practical implementation
-- Provide brief acknowledgments before moving to the next topic
-
-Maintain academic rigor:
-- Use formal academic language appropriate for a defense setting
-- Keep questions clear, concise and direct
-- Focus on critical thinking rather than memorization
-- Request clarification on technical terms or methodologies when needed
-
-Conclude the defense properly:
-- Thank the student for their defense presentation
-- Provide a brief general comment on the defense quality
-- Inform them that detailed feedback will be provided shortly
-- End the session professionally
-
-- Be sure to be professional and academically rigorous, but fair.
-- This is a voice conversation in an academic setting, so keep your responses concise.
-- Your role is to challenge the student academically while assessing their knowledge.`,
+        content: getPrompt("interviewer-system").template,
       },
     ],
   },
@@ -230,6 +199,33 @@ export const defenseSchema = z.object({
   implementationSuggestions: z.array(z.string()),
 });
 
+export const defenseQuestionSchema = z.object({
+  text: z.string().describe("The question as the examiner would ask it"),
+  category: z.enum(["technical", "methodology", "alternatives", "ethics"]),
+  difficulty: z.enum(["foundational", "intermediate", "advanced"]),
+  cognitiveLevel: z
+    .enum(["recall", "explain", "apply", "analyze", "evaluate", "create"])
+    .describe("Bloom's taxonomy level the question targets"),
+  targetSection: z
+    .string()
+    .optional()
+    .describe(
+      'Where in the documents the question points, e.g. "Section 3.2 (p.14)" or "Slide 4"'
+    ),
+  expectedPoints: z
+    .array(z.string())
+    .describe("Points a strong answer should cover"),
+  rationale: z.string().describe("Why a committee would ask this question"),
+});
+
+export const defenseQuestionSetSchema = z.object({
+  questions: z.array(defenseQuestionSchema),
+});
+
+export const interviewQuestionsSchema = z.object({
+  questions: z.array(z.string()),
+});
+
 export const interviewCovers = [
   "/adobe.png",
   "/amazon.png",
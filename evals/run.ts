@@ -0,0 +1,130 @@
+/**
+ * Offline evaluation of the examiner and feedback prompts
+ * Run with: npm run eval -- [options]
+ *
+ *   --provider <name>      google, openai-compatible or mock (default: .env.local)
+ *   --runs <n>             Feedback runs per case, for score stability (default 3)
+ *   --prompt <id@vN>       Evaluate an older prompt version; repeatable
+ *   --cases <dir>          Golden cases (default evals/golden)
+ *   --out <file>           Save the report as JSON, to compare against later
+ *   --baseline <file>      Compare with a report saved by an earlier run
+ *
+ * Exits with 1 when any case fails a check.
+ */
+
+import fs from "fs";
+import path from "path";
+
+import { LLM_PROVIDERS, resolveModel } from "@/lib/llm-provider";
+import {
+  DEFAULT_EVAL_OPTIONS,
+  formatReport,
+  runEvaluation,
+  type EvalOptions,
+  type EvalReport,
+  type GoldenCase,
+} from "@/lib/prompt-eval";
+import { getPrompt, type PromptId } from "@/lib/prompts";
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string[]> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const name = argv[i].slice(2);
+    args[name] = [...(args[name] || []), argv[++i] ?? ""];
+  }
+  return args;
+}
+
+// "examination-turn@v1" to the option that pins it
+function applyPromptPin(options: EvalOptions, pin: string) {
+  const match = pin.match(/^([\w-]+)@v(\d+)$/);
+  if (!match) throw new Error(`Expected --prompt id@vN, got "${pin}"`);
+  const id = match[1] as PromptId;
+  const version = Number(match[2]);
+  getPrompt(id, version); // Throws on unknown versions
+
+  switch (id) {
+    case "examiner-system":
+      options.examinerPrompts = { ...options.examinerPrompts, system: version };
+      break;
+    case "examination-turn":
+      options.examinerPrompts = { ...options.examinerPrompts, turn: version };
+      break;
+    case "feedback-system":
+      options.feedbackPrompts = { ...options.feedbackPrompts, system: version };
+      break;
+    case "feedback-evaluation":
+      options.feedbackPrompts = {
+        ...options.feedbackPrompts,
+        evaluation: version,
+      };
+      break;
+    default:
+      throw new Error(`${id} is not an examiner or feedback prompt`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // The same settings as the app; variables already set take precedence
+  if (fs.existsSync(".env.local")) {
+    process.loadEnvFile(".env.local");
+  }
+  const provider = args.provider?.[0];
+  if (provider) {
+    if (!LLM_PROVIDERS.includes(provider as (typeof LLM_PROVIDERS)[number])) {
+      throw new Error(`Unknown provider "${provider}"`);
+    }
+    process.env.NEXT_PUBLIC_LLM_PROVIDER = provider;
+  }
+
+  const options: EvalOptions = {
+    ...DEFAULT_EVAL_OPTIONS,
+    runs: Number(args.runs?.[0]) || DEFAULT_EVAL_OPTIONS.runs,
+  };
+  for (const pin of args.prompt || []) {
+    applyPromptPin(options, pin);
+  }
+
+  const examination = resolveModel("examination");
+  const feedback = resolveModel("feedback");
+  if (!examination || !feedback) {
+    throw new Error(
+      "No language model is configured; set an API key or use --provider mock"
+    );
+  }
+
+  const casesDir = args.cases?.[0] || path.join("evals", "golden");
+  const cases: GoldenCase[] = fs
+    .readdirSync(casesDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) =>
+      JSON.parse(fs.readFileSync(path.join(casesDir, file), "utf8"))
+    );
+  console.log(
+    `Replaying ${cases.length} golden cases with ${examination.label} and ${feedback.label}`
+  );
+
+  const report = await runEvaluation(cases, { examination, feedback }, options);
+  const baseline: EvalReport | undefined = args.baseline?.[0]
+    ? JSON.parse(fs.readFileSync(args.baseline[0], "utf8"))
+    : undefined;
+
+  console.log(`\n${formatReport(report, baseline)}`);
+
+  if (args.out?.[0]) {
+    fs.writeFileSync(args.out[0], JSON.stringify(report, null, 2));
+    console.log(`Report saved to ${args.out[0]}`);
+  }
+  if (report.summary.passedCases < report.summary.cases) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Prompt evaluation failed:", error);
+  process.exitCode = 1;
+});
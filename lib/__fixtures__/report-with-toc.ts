@@ -0,0 +1,39 @@
+/**
+ * A short report whose second page is a table of contents; its entries look
+ * like numbered headings ("1 Introduction 4") and must not become sections
+ */
+
+import type { ExtractedPage } from "@/lib/document-extractors";
+
+export const REPORT_WITH_TOC: ExtractedPage[] = [
+  {
+    pageNumber: 1,
+    text: "Smart Irrigation with Soil Moisture Sensors\nBachelor Thesis\nJane Doe\n2025",
+  },
+  {
+    pageNumber: 2,
+    text: "Contents\n1 Introduction 3\n2 Background 4\n2.1 Soil Moisture Sensing 4\n3 Method 5\n4 Conclusion 6",
+  },
+  {
+    pageNumber: 3,
+    text: "1 Introduction\nFarms waste water when irrigation runs on a fixed schedule.\nThis thesis measures soil moisture to decide when to water.",
+  },
+  {
+    pageNumber: 4,
+    text: "2 Background\nCapacitive sensors estimate moisture from the dielectric constant of soil.\n2.1 Soil Moisture Sensing\nResistive probes corrode within weeks, so they were not used.",
+  },
+  {
+    pageNumber: 5,
+    text: "3 Method\nTwelve nodes were placed in two fields and read every fifteen minutes.",
+  },
+  {
+    pageNumber: 6,
+    text: "4 Conclusion\nSensor-driven irrigation used less water than the fixed schedule.",
+  },
+];
+
+// The same contents page with dot leaders and no "Contents" heading
+export const DOTTED_CONTENTS_PAGE: ExtractedPage = {
+  pageNumber: 2,
+  text: "1 Introduction .......... 3\n2 Background .......... 4\n2.1 Soil Moisture Sensing .......... 4\n3 Method .......... 5\n4 Conclusion .......... 6",
+};
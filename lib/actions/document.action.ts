@@ -0,0 +1,348 @@
+"use server";
+
+import admin, { db } from "@/firebase/admin";
+import { getCurrentUser } from "@/lib/actions/auth.action";
+import type { DocumentChunk, StoredDocument } from "@/lib/document-processor";
+import type { OcrPageResult } from "@/lib/document-extractors";
+import type { QuestionSetParams } from "@/lib/session-documents";
+import type { DocumentSummary } from "@/lib/summarizer";
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_WRITES = 500;
+// Firestore documents are limited to 1 MiB; leave room for the other fields
+const MAX_STORED_TEXT_LENGTH = 900 * 1024;
+// Users with OCR running; each may run one recognition at a time, since
+// OCR ties up the server for a long time
+const usersRunningOcr = new Set<string>();
+
+/**
+ * Persist the chunks of an uploaded document under its defense session
+ * so the examiner can retrieve passages during the examination
+ */
+export async function saveSessionChunks(params: {
+  sessionId: string;
+  chunks: DocumentChunk[];
+}) {
+  const { sessionId, chunks } = params;
+
+  try {
+    const sessionRef = db.collection("interviews").doc(sessionId);
+    await writeChunks(sessionRef.collection("chunks"), chunks);
+
+    await sessionRef.update({
+      documentChunkCount: chunks.length,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return { success: true, count: chunks.length };
+  } catch (error) {
+    console.error("Error saving document chunks:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Load the document chunks stored for a defense session, in document order
+ */
+export async function getSessionChunks(
+  sessionId: string
+): Promise<DocumentChunk[]> {
+  try {
+    return await readChunks(
+      db.collection("interviews").doc(sessionId).collection("chunks")
+    );
+  } catch (error) {
+    console.error("Error loading document chunks:", error);
+    return [];
+  }
+}
+
+/**
+ * Recognize the text of scanned PDF pages with server-side OCR. Only
+ * signed-in users may run it, one document at a time.
+ * @param fileBuffer - The original PDF file
+ * @param pageNumbers - The pages that have no text layer
+ */
+export async function recognizeScannedPages(params: {
+  fileBuffer: ArrayBuffer;
+  pageNumbers: number[];
+}): Promise<{ success: boolean; pages: OcrPageResult[]; error?: string }> {
+  const { fileBuffer, pageNumbers } = params;
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, pages: [], error: "Please sign in to run OCR" };
+  }
+  if (usersRunningOcr.has(user.id)) {
+    return {
+      success: false,
+      pages: [],
+      error: "OCR is already running on another of your documents",
+    };
+  }
+  usersRunningOcr.add(user.id);
+
+  try {
+    // Loaded lazily so routes that never run OCR don't load native modules
+    const { recognizePdfPages } = await import("@/lib/ocr");
+    const pages = await recognizePdfPages(fileBuffer, pageNumbers);
+
+    console.log(
+      `OCR recognized ${pages.length} of ${pageNumbers.length} scanned page(s)`
+    );
+    return { success: true, pages };
+  } catch (error) {
+    console.error("Error running OCR on scanned pages:", error);
+    return {
+      success: false,
+      pages: [],
+      error: error instanceof Error ? error.message : "OCR failed",
+    };
+  } finally {
+    usersRunningOcr.delete(user.id);
+  }
+}
+
+/**
+ * Look up a previously processed document by the hash of its file
+ */
+export async function findStoredDocument(
+  hash: string
+): Promise<StoredDocument | null> {
+  try {
+    const documentRef = db.collection("documents").doc(hash);
+    const snapshot = await documentRef.get();
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    const chunks = await readChunks(documentRef.collection("chunks"));
+
+    await documentRef.update({
+      reuseCount: admin.firestore.FieldValue.increment(1),
+      lastUsedAt: new Date().toISOString(),
+    });
+
+    const data = snapshot.data();
+    return {
+      hash: data.hash,
+      textHash: data.textHash,
+      filename: data.filename,
+      fileType: data.fileType,
+      compressedText: data.compressedText,
+      compressedSections: data.compressedSections,
+      wordCount: data.wordCount,
+      pageCount: data.pageCount,
+      ocr: data.ocr,
+      captions: data.captions,
+      summary: data.summary,
+      chunks,
+    };
+  } catch (error) {
+    console.error("Error loading stored document:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a processed document under the hash of its file so re-uploading
+ * the same file skips extraction
+ */
+export async function saveStoredDocument(document: StoredDocument) {
+  const { chunks, ...fields } = document;
+
+  if (!fields.hash) {
+    return { success: false, error: "Document hash is required" };
+  }
+  if (
+    fields.compressedText.length + fields.compressedSections.length >
+    MAX_STORED_TEXT_LENGTH
+  ) {
+    return { success: false, error: "Document is too large to store" };
+  }
+
+  try {
+    const documentRef = db.collection("documents").doc(fields.hash);
+
+    // Firestore rejects undefined values, so only keep defined fields
+    const documentData: Record<string, unknown> = {};
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value !== undefined) {
+        documentData[key] = value;
+      }
+    });
+
+    await documentRef.set({
+      ...documentData,
+      chunkCount: chunks.length,
+      reuseCount: 0,
+      createdAt: new Date().toISOString(),
+    });
+    await writeChunks(documentRef.collection("chunks"), chunks);
+
+    return { success: true, hash: fields.hash };
+  } catch (error) {
+    console.error("Error storing processed document:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Attach a model-written summary to a stored document so later uploads of
+ * the same file do not summarize it again
+ */
+export async function saveDocumentSummary(
+  hash: string,
+  summary: DocumentSummary
+) {
+  try {
+    await db.collection("documents").doc(hash).update({ summary });
+    return { success: true };
+  } catch (error) {
+    console.error("Error storing document summary:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Load the questions generated earlier for the same set of documents
+ * @param hash - File hash of the session's main document
+ * @param setKey - Hash of every document attached to the session and the
+ * generation parameters
+ */
+export async function getCachedQuestions(
+  hash: string,
+  setKey: string
+): Promise<DefenseQuestion[]> {
+  try {
+    const snapshot = await db
+      .collection("documents")
+      .doc(hash)
+      .collection("questionSets")
+      .doc(setKey)
+      .get();
+
+    const questions: unknown[] = snapshot.exists
+      ? snapshot.data()?.questions || []
+      : [];
+    // Sets cached before questions were structured hold plain strings;
+    // treat them as a miss so the questions are generated again
+    return questions.filter(
+      (question): question is DefenseQuestion =>
+        typeof question === "object" && question !== null
+    );
+  } catch (error) {
+    console.error("Error loading cached questions:", error);
+    return [];
+  }
+}
+
+/**
+ * Remember the questions generated for a set of documents; a regenerated
+ * set replaces the cached one
+ */
+export async function saveCachedQuestions(params: {
+  hash: string;
+  setKey: string;
+  documentHashes: string[];
+  questions: DefenseQuestion[];
+  setParams: QuestionSetParams; // Kept for inspecting the cache
+}) {
+  const { hash, setKey, documentHashes, questions } = params;
+  // Firestore rejects undefined values
+  const { previousFileHash, ...setParams } = params.setParams;
+
+  try {
+    await db
+      .collection("documents")
+      .doc(hash)
+      .collection("questionSets")
+      .doc(setKey)
+      .set({
+        documentHashes,
+        questions,
+        ...setParams,
+        ...(previousFileHash ? { previousFileHash } : {}),
+        createdAt: new Date().toISOString(),
+      });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error caching questions:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Write chunks to a subcollection in batches, keeping their order. Chunks
+ * left over from an earlier, longer set are deleted so retrieval never
+ * returns them.
+ */
+async function writeChunks(
+  chunksRef: FirebaseFirestore.CollectionReference,
+  chunks: DocumentChunk[]
+) {
+  const chunkIds = new Set(chunks.map((chunk) => chunk.id));
+  const staleRefs = (await chunksRef.listDocuments()).filter(
+    (ref) => !chunkIds.has(ref.id)
+  );
+  for (let i = 0; i < staleRefs.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    staleRefs
+      .slice(i, i + MAX_BATCH_WRITES)
+      .forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+
+  for (let i = 0; i < chunks.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    chunks.slice(i, i + MAX_BATCH_WRITES).forEach((chunk, offset) => {
+      // Firestore rejects undefined values, so only keep defined fields
+      const chunkData: Record<string, unknown> = {};
+      Object.entries(chunk).forEach(([key, value]) => {
+        if (value !== undefined) {
+          chunkData[key] = value;
+        }
+      });
+
+      batch.set(chunksRef.doc(chunk.id), {
+        ...chunkData,
+        // Keep document order when reading the chunks back
+        position: i + offset,
+      });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Read chunks from a subcollection in document order
+ */
+async function readChunks(
+  chunksRef: FirebaseFirestore.CollectionReference
+): Promise<DocumentChunk[]> {
+  const snapshot = await chunksRef.orderBy("position").get();
+
+  return snapshot.docs.map((doc) => {
+    const {
+      id,
+      text,
+      sectionId,
+      sectionTitle,
+      location,
+      documentId,
+      documentName,
+      documentKind,
+    } = doc.data() as DocumentChunk;
+    return {
+      id,
+      text,
+      sectionId,
+      sectionTitle,
+      location,
+      documentId,
+      documentName,
+      documentKind,
+    };
+  });
+}
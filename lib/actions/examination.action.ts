@@ -0,0 +1,89 @@
+"use server";
+
+import { db } from "@/firebase/admin";
+import {
+  getExaminationProgress,
+  rejoinExamination,
+  type ExaminationProgress,
+  type ExaminationState,
+} from "@/lib/examination-state";
+
+/**
+ * Load the examination state of a defense session, or null before its
+ * first examiner turn. Read errors are thrown rather than returned as null,
+ * so a failed read is never taken for a new examination.
+ */
+export async function getExaminationState(
+  sessionId: string
+): Promise<ExaminationState | null> {
+  const snapshot = await db
+    .collection("examinationStates")
+    .doc(sessionId)
+    .get();
+
+  return snapshot.exists ? (snapshot.data() as ExaminationState) : null;
+}
+
+/**
+ * Store the examination state after a turn, replacing the previous one
+ */
+export async function saveExaminationState(state: ExaminationState) {
+  try {
+    await db.collection("examinationStates").doc(state.sessionId).set(state);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving examination state:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Where an examination stands, e.g. for showing "Question 4 of 10"
+ */
+export async function getExaminationStatus(
+  sessionId: string
+): Promise<ExaminationProgress | null> {
+  try {
+    const state = await getExaminationState(sessionId);
+    return state ? getExaminationProgress(state) : null;
+  } catch (error) {
+    console.error("Error loading examination progress:", error);
+    return null;
+  }
+}
+
+/**
+ * Forget the examination state so the next call starts the plan over
+ */
+export async function resetExaminationState(sessionId: string) {
+  try {
+    await db.collection("examinationStates").doc(sessionId).delete();
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error resetting examination state:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Prepare a session's examination for a new call: a finished one starts
+ * over, and one cut off mid-way resumes with the student welcomed back
+ */
+export async function startExaminationCall(sessionId: string) {
+  try {
+    const state = await getExaminationState(sessionId);
+    if (!state) return { success: true, restarted: false };
+
+    if (state.status === "wrapped-up") {
+      const result = await resetExaminationState(sessionId);
+      return { ...result, restarted: result.success };
+    }
+    const result = await saveExaminationState(rejoinExamination(state));
+    return { ...result, restarted: false };
+  } catch (error) {
+    console.error("Error starting examination call:", error);
+    return { success: false, error, restarted: false };
+  }
+}
@@ -1,14 +1,35 @@
 "use server";
 
-import { generateObject } from "ai";
-import { google } from "@ai-sdk/google";
-
 import { db } from "@/firebase/admin";
-import { defenseSchema } from "@/constants";
+import { formatConsistencyIssues } from "@/lib/consistency-checker";
+import { evaluateDefense } from "@/lib/feedback-evaluator";
+import { resolveModel } from "@/lib/llm-provider";
+import { currentPromptVersions } from "@/lib/prompts";
+import {
+  detectDiscipline,
+  getTemplateQuestions,
+} from "@/lib/question-templates";
 
 export async function createDefenseSession(params: CreateDefenseSessionParams) {
   try {
-    const { userId, role, type, techstack, level, focusRatio } = params;
+    const {
+      userId,
+      role,
+      type,
+      techstack,
+      level,
+      focusRatio,
+      discipline,
+      questions: generatedQuestions,
+      documentOutline,
+      codeSummary,
+      documents,
+      consistencyReport,
+      changedSections,
+      referenceSummary,
+      referenceIssues,
+      promptVersions,
+    } = params;
 
     // Validate required fields
     if (!userId) {
@@ -16,24 +37,20 @@ export async function createDefenseSession(params: CreateDefenseSessionParams) {
       return { success: false, error: "userId is required" };
     }
 
-    // Generate a list of questions based on the provided topic
-    // This would ideally use the Google AI to generate project defense questions
-    const questions = [
-      `Explain the overall architecture of your ${role} project`,
-      `What were the main technical challenges you faced while implementing ${
-        techstack && techstack.length > 0
-          ? techstack.join(", ")
-          : "your technology stack"
-      }?`,
-      `How did you ensure the quality and reliability of your implementation?`,
-      `Describe your methodology and research approach`,
-      `How does your project compare to existing solutions in this domain?`,
-      `What are the limitations of your current implementation?`,
-      `How would you scale your solution for larger datasets or user bases?`,
-      `What ethical considerations did you address in your project?`,
-      `If you had more time, what would you improve in your project?`,
-      `How did you balance the ${focusRatio} in your project development?`,
-    ];
+    // Template questions when none were generated from the documents
+    const projectDiscipline =
+      discipline ||
+      detectDiscipline({ technologies: techstack, text: documentOutline });
+    const questions = (
+      generatedQuestions ||
+      getTemplateQuestions({
+        discipline: projectDiscipline,
+        title: role,
+        technologies: techstack,
+        level,
+        focus: focusRatio,
+      })
+    ).map((question) => question.text);
 
     // Create the defense session document with validated fields
     const sessionData = {
@@ -41,9 +58,27 @@ export async function createDefenseSession(params: CreateDefenseSessionParams) {
       role: role || "Project Defense", // Provide defaults for optional fields
       type: type || "Defense Session",
       techstack: techstack || [],
+      discipline: projectDiscipline,
       level: level || "To be determined",
       focusRatio: focusRatio || "To be determined",
       questions: questions,
+      ...(generatedQuestions ? { defenseQuestions: generatedQuestions } : {}),
+      documentOutline: documentOutline || "",
+      codeSummary: codeSummary || "",
+      documents: documents || [],
+      ...(consistencyReport ? { consistencyReport } : {}),
+      ...(changedSections ? { changedSections } : {}),
+      ...(referenceSummary ? { referenceSummary } : {}),
+      ...(referenceIssues ? { referenceIssues } : {}),
+      // Question prompt from the generation, examiner prompts as of now
+      promptVersions: {
+        ...promptVersions,
+        ...currentPromptVersions([
+          "interviewer-system",
+          "examiner-system",
+          "examination-turn",
+        ]),
+      },
       finalized: true, // Mark as finalized so it appears in the dashboard
       createdAt: new Date().toISOString(),
     };
@@ -63,22 +98,21 @@ export async function createFeedback(params: CreateFeedbackParams) {
   const { interviewId, userId, transcript, feedbackId } = params;
 
   try {
-    // Get the full transcript formatted for analysis
-    const formattedTranscript = transcript
-      .map(
-        (sentence: { role: string; content: string }) =>
-          `- ${sentence.role}: ${sentence.content}\n`
-      )
-      .join("");
-
     // Get project details for context
     const defense = await db.collection("interviews").doc(interviewId).get();
     const defenseData = defense.data();
-
-    // If there's no API key, show a warning
-    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+    // Slide/report mismatches found when the documents were uploaded
+    const consistencyGaps = formatConsistencyIssues(
+      defenseData?.consistencyReport
+    );
+    // Citation problems found in the report's bibliography
+    const referenceGaps: string[] = defenseData?.referenceIssues || [];
+
+    // If no model is configured, show a warning
+    const resolved = resolveModel("feedback");
+    if (!resolved) {
       console.warn(
-        "No Google Generative AI API key found - using simplified feedback"
+        "No language model is configured - using simplified feedback"
       );
 
       // Create a simplified feedback object if the AI cannot be used
@@ -117,7 +151,7 @@ export async function createFeedback(params: CreateFeedbackParams) {
         ],
         finalAssessment:
           "The defense demonstration showed competency in the subject matter with room for improvement in technical depth. Continue developing expertise in implementation details and critical analysis.",
-        documentGaps: [],
+        documentGaps: [...consistencyGaps, ...referenceGaps],
         implementationSuggestions: [],
         createdAt: new Date().toISOString(),
       };
@@ -132,76 +166,38 @@ export async function createFeedback(params: CreateFeedbackParams) {
       return { success: true, feedbackId: feedbackRef.id };
     }
 
-    // Use Gemini 2.0 Flash for comprehensive feedback
-    const { object } = await generateObject({
-      model: google("gemini-2.0-flash-001", {
-        structuredOutputs: false,
-      }),
-      schema: defenseSchema,
-      prompt: `
-        ANALYZE PROJECT DEFENSE PERFORMANCE
-        ===================================
-        As an academic defense evaluator, critically assess the student's defense performance using:
-        
-        1. Project Information:
-          - Title: ${defenseData?.role || "Academic Project"}
-          - Academic Level: ${defenseData?.level || "Graduate Level"}
-          - Technologies Used: ${
-            defenseData?.techstack?.join(", ") || "Various technologies"
-          }
-          - Type: ${defenseData?.type || "Project Defense"}
-        
-        2. Defense Transcript: 
-        ${formattedTranscript}
-        
-        Evaluation Criteria (0-100):
-        - **Technical Accuracy**: Understanding of ${
-          defenseData?.techstack?.join(", ") || "relevant technologies"
-        }, implementation challenges
-        - **Documentation Alignment**: Consistency between defense answers and project documentation
-        - **Response Structure**: Clarity in explaining complex concepts
-        - **Critical Thinking**: Quality of responses to examiner challenges
-        - **Time Management**: Efficiency and focus in responses
-        
-        Special Instructions:
-        - Identify any discrepancies or gaps in technical explanations
-        - Highlight 3-5 key strengths based on the defense transcript
-        - Identify 3-5 areas for improvement based on ${
-          defenseData?.level || "graduate"
-        } standards
-        - Be strict on methodology validation and implementation details
-        - Assess critical thinking ability when challenged
-        - Provide specific actionable suggestions for improving weak areas
-        - Give concrete recommendations for enhancing implementation
-        `,
-      system: `
-        ROLE: Senior Academic Defense Evaluator
-        MANDATE: Maintain ${
-          defenseData?.level || "graduate-level"
-        } academic defense standards
-        BEHAVIOR:
-        - Critically evaluate technical explanations
-        - Assess alignment with academic research methodology
-        - Apply ${defenseData?.level || "graduate"} grading rubrics strictly
-        - Identify gaps in project implementation understanding
-        - Flag inconsistencies as areas for improvement
-        - Provide constructive feedback with specific improvement actions
-        OUTPUT: JSON scores with detailed justification
-      `,
+    // Comprehensive feedback from the configured model
+    const { evaluation, promptVersions } = await evaluateDefense(resolved, {
+      session: defenseData || {},
+      transcript,
+      consistencyGaps,
     });
 
     // Create the comprehensive feedback object
     const feedback = {
       interviewId: interviewId,
       userId: userId,
-      totalScore: object.totalScore || 75,
-      categoryScores: object.categoryScores || [],
-      strengths: object.strengths || [],
-      areasForImprovement: object.areasForImprovement || [],
+      totalScore: evaluation.totalScore || 75,
+      categoryScores: evaluation.categoryScores || [],
+      strengths: evaluation.strengths || [],
+      areasForImprovement: evaluation.areasForImprovement || [],
       finalAssessment:
-        object.finalAssessment || "The defense was completed successfully.",
-      documentGaps: object.documentGaps || [],
-      implementationSuggestions: object.implementationSuggestions || [],
+        evaluation.finalAssessment || "The defense was completed successfully.",
+      // Checked inconsistencies first, then the evaluator's own findings
+      documentGaps: Array.from(
+        new Set([
+          ...consistencyGaps,
+          ...referenceGaps,
+          ...(evaluation.documentGaps || []),
+        ])
+      ),
+      implementationSuggestions: evaluation.implementationSuggestions || [],
+      // The session's question and examiner prompts plus the evaluator's
+      promptVersions: {
+        ...(defenseData?.promptVersions || {}),
+        ...promptVersions,
+      },
+      model: resolved.label,
       createdAt: new Date().toISOString(),
     };
 
@@ -339,33 +335,30 @@ export async function updateDefenseSession(params: {
       });
     }
 
-    // Generate new questions if needed
-    if (data.role && !data.questions) {
-      const existingData = sessionDoc.data() || {};
+    // Generate new questions if needed; questions generated from the
+    // documents are kept
+    const existingData = sessionDoc.data() || {};
+    if (data.role && !data.questions && !existingData.defenseQuestions) {
       const techstack = data.techstack || existingData.techstack || [];
-      const techstackStr =
-        techstack.length > 0
-          ? typeof techstack === "string"
-            ? techstack
-            : techstack.join(", ")
-          : "your technologies";
-
-      const focusStr =
-        data.focusRatio || existingData.focusRatio || "theory/practice balance";
-
-      // Generate questions based on updated info
-      const questions = [
-        `Explain the overall architecture of your ${data.role} project`,
-        `What were the main technical challenges you faced while implementing ${techstackStr}?`,
-        `How did you ensure the quality and reliability of your implementation?`,
-        `Describe your methodology and research approach`,
-        `How does your project compare to existing solutions in this domain?`,
-        `What are the limitations of your current implementation?`,
-        `How would you scale your solution for larger datasets or user bases?`,
-        `What ethical considerations did you address in your project?`,
-        `If you had more time, what would you improve in your project?`,
-        `How did you balance the ${focusStr} in your project development?`,
-      ];
+      const technologies: string[] =
+        typeof techstack === "string"
+          ? techstack.split(",").map((technology) => technology.trim())
+          : techstack;
+
+      // Template questions based on updated info
+      const questions = getTemplateQuestions({
+        discipline:
+          data.discipline ||
+          existingData.discipline ||
+          detectDiscipline({
+            technologies,
+            text: existingData.documentOutline,
+          }),
+        title: data.role,
+        technologies,
+        level: data.level || existingData.level,
+        focus: data.focusRatio || existingData.focusRatio,
+      }).map((question) => question.text);
 
       await sessionRef.update({ questions });
     }
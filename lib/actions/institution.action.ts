@@ -0,0 +1,32 @@
+"use server";
+
+import { db } from "@/firebase/admin";
+import {
+  DEFAULT_BLOOM_PROFILES,
+  resolveBloomProfiles,
+  type BloomProfiles,
+} from "@/lib/bloom";
+
+/**
+ * Cognitive level distributions for a user's defenses. Institutions store
+ * overrides in "institutions/{id}.bloomProfiles"; users without an
+ * institution, or whose institution sets none, get the defaults.
+ */
+export async function getBloomProfilesForUser(
+  userId: string
+): Promise<BloomProfiles> {
+  try {
+    const user = await db.collection("users").doc(userId).get();
+    const institutionId: string | undefined = user.data()?.institutionId;
+    if (!institutionId) return DEFAULT_BLOOM_PROFILES;
+
+    const institution = await db
+      .collection("institutions")
+      .doc(institutionId)
+      .get();
+    return resolveBloomProfiles(institution.data()?.bloomProfiles);
+  } catch (error) {
+    console.error("Error loading institution question settings:", error);
+    return DEFAULT_BLOOM_PROFILES;
+  }
+}
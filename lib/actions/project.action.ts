@@ -0,0 +1,147 @@
+"use server";
+
+import { db } from "@/firebase/admin";
+
+/**
+ * Projects group the successive versions of a student's report so each
+ * mock defense can focus on what changed since the previous attempt
+ */
+export async function getProjectsByUserId(
+  userId: string
+): Promise<DefenseProject[]> {
+  try {
+    const projects = await db
+      .collection("projects")
+      .where("userId", "==", userId)
+      .orderBy("updatedAt", "desc")
+      .get();
+
+    return projects.docs.map(
+      (doc: FirebaseFirestore.QueryDocumentSnapshot) => ({
+        id: doc.id,
+        ...doc.data(),
+      })
+    ) as DefenseProject[];
+  } catch (error) {
+    console.error("Error loading projects:", error);
+    return [];
+  }
+}
+
+/**
+ * Every uploaded revision of a project, newest first
+ */
+export async function getProjectRevisions(
+  projectId: string
+): Promise<DocumentRevision[]> {
+  try {
+    const revisions = await db
+      .collection("projects")
+      .doc(projectId)
+      .collection("revisions")
+      .orderBy("number", "desc")
+      .get();
+
+    return revisions.docs.map((doc: FirebaseFirestore.QueryDocumentSnapshot) =>
+      doc.data()
+    ) as DocumentRevision[];
+  } catch (error) {
+    console.error("Error loading project revisions:", error);
+    return [];
+  }
+}
+
+/**
+ * Record an uploaded report as the next revision of a project.
+ * Creates the project when no projectId is given. Uploading the latest
+ * revision again links the session to it instead of adding a new one.
+ */
+export async function addProjectRevision(params: {
+  userId: string;
+  projectId?: string;
+  name: string;
+  fileHash: string;
+  filename: string;
+  sessionId: string;
+  changeSummary?: string;
+  changedSections?: string[];
+}): Promise<{
+  success: boolean;
+  projectId?: string;
+  revisionNumber?: number;
+  error?: string;
+}> {
+  const { userId, name, fileHash, filename, sessionId } = params;
+  const now = new Date().toISOString();
+
+  try {
+    const projectRef: FirebaseFirestore.DocumentReference = params.projectId
+      ? db.collection("projects").doc(params.projectId)
+      : db.collection("projects").doc();
+
+    const revisionNumber = await db.runTransaction(
+      async (transaction: FirebaseFirestore.Transaction) => {
+        const snapshot = await transaction.get(projectRef);
+        const project = snapshot.exists
+          ? (snapshot.data() as Omit<DefenseProject, "id">)
+          : null;
+
+        if (project && project.userId !== userId) {
+          throw new Error("Project belongs to another user");
+        }
+        if (project && project.latestFileHash === fileHash) {
+          return project.revisionCount;
+        }
+
+        const number = (project?.revisionCount || 0) + 1;
+        const revision: DocumentRevision = {
+          number,
+          fileHash,
+          filename,
+          uploadedAt: now,
+          sessionId,
+          // Firestore rejects undefined values
+          ...(params.changeSummary
+            ? { changeSummary: params.changeSummary }
+            : {}),
+          ...(params.changedSections
+            ? { changedSections: params.changedSections }
+            : {}),
+        };
+
+        transaction.set(
+          projectRef.collection("revisions").doc(String(number)),
+          revision
+        );
+        transaction.set(
+          projectRef,
+          {
+            userId,
+            name: project?.name || name,
+            revisionCount: number,
+            latestFileHash: fileHash,
+            latestFilename: filename,
+            createdAt: project?.createdAt || now,
+            updatedAt: now,
+          },
+          { merge: true }
+        );
+
+        return number;
+      }
+    );
+
+    await db.collection("interviews").doc(sessionId).update({
+      projectId: projectRef.id,
+      revisionNumber,
+    });
+
+    return { success: true, projectId: projectRef.id, revisionNumber };
+  } catch (error) {
+    console.error("Error adding project revision:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,275 @@
+"use server";
+
+import admin, { db } from "@/firebase/admin";
+import {
+  normalizeTagValues,
+  questionBankId,
+  questionBankTags,
+} from "@/lib/question-bank";
+import { buildLexicalIndex, searchLexicalIndex } from "@/lib/retrieval";
+
+// Most-used matches ranked by a free-text search; Firestore has no
+// full-text search, so only these are ranked in memory
+const SEARCH_CANDIDATE_LIMIT = 200;
+// Pages read to fill one page of results when a second tag is filtered
+// in memory
+const MAX_SEARCH_READS = 5;
+
+/**
+ * Save a generated or hand-written question to the shared bank. When its
+ * author saves a question that is already there, the new tags are added and
+ * its category replaced; for anyone else it is left as it is.
+ */
+export async function saveToQuestionBank(params: {
+  userId: string;
+  question: DefenseQuestion;
+  disciplines: string[];
+  technologies: string[];
+  source: BankQuestion["source"];
+  sessionId?: string;
+}) {
+  const { userId, question, source, sessionId } = params;
+  const text = question.text.trim();
+
+  if (!userId || !text) {
+    return { success: false, error: "A user and question text are required" };
+  }
+
+  const disciplines = normalizeTagValues(params.disciplines);
+  const technologies = normalizeTagValues(params.technologies);
+  const id = questionBankId(text);
+  const now = new Date().toISOString();
+
+  try {
+    const questionRef: FirebaseFirestore.DocumentReference = db
+      .collection("questionBank")
+      .doc(id);
+
+    await db.runTransaction(
+      async (transaction: FirebaseFirestore.Transaction) => {
+        const existing = await transaction.get(questionRef);
+
+        if (existing.exists) {
+          // Only the author may change a question, as only they may delete it
+          if (existing.data()?.createdBy !== userId) return;
+
+          // arrayUnion needs at least one value
+          const arrayUnion = admin.firestore.FieldValue.arrayUnion;
+          // A question has one category, so its old category tag goes
+          const keptTags = ((existing.data()?.tags || []) as string[]).filter(
+            (tag) => !tag.startsWith("category:")
+          );
+          transaction.update(questionRef, {
+            category: question.category,
+            ...(disciplines.length > 0
+              ? { disciplines: arrayUnion(...disciplines) }
+              : {}),
+            ...(technologies.length > 0
+              ? { technologies: arrayUnion(...technologies) }
+              : {}),
+            tags: Array.from(
+              new Set([
+                ...keptTags,
+                ...questionBankTags({
+                  category: question.category,
+                  disciplines,
+                  technologies,
+                }),
+              ])
+            ),
+            updatedAt: now,
+          });
+          return;
+        }
+
+        // Target sections point into one student's documents, so they are
+        // not kept for reuse
+        const bankQuestion: Omit<BankQuestion, "id"> = {
+          text,
+          category: question.category,
+          difficulty: question.difficulty,
+          ...(question.cognitiveLevel
+            ? { cognitiveLevel: question.cognitiveLevel }
+            : {}),
+          expectedPoints: question.expectedPoints || [],
+          rationale: question.rationale || "",
+          createdBy: userId,
+          disciplines,
+          technologies,
+          tags: questionBankTags({
+            category: question.category,
+            disciplines,
+            technologies,
+          }),
+          source,
+          ...(sessionId ? { sourceSessionId: sessionId } : {}),
+          useCount: 0,
+          createdAt: now,
+          updatedAt: now,
+        };
+        transaction.set(questionRef, bankQuestion);
+      }
+    );
+
+    return { success: true, questionId: id };
+  } catch (error) {
+    console.error("Error saving question to bank:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Find bank questions by free text and tags, a page at a time. Results are
+ * ranked by text relevance among the most-used matches when there is a
+ * query, otherwise by how often they were used. Pass the returned
+ * nextCursor to get the next page.
+ */
+export async function searchQuestionBank(params: {
+  query?: string;
+  discipline?: string;
+  technology?: string;
+  category?: QuestionCategory;
+  limit?: number;
+  cursor?: string;
+}): Promise<{ questions: BankQuestion[]; nextCursor?: string }> {
+  const { query = "", category, limit = 20, cursor } = params;
+  const tags = [
+    ...normalizeTagValues([params.discipline || ""]).map(
+      (discipline) => `discipline:${discipline}`
+    ),
+    ...normalizeTagValues([params.technology || ""]).map(
+      (technology) => `technology:${technology}`
+    ),
+  ];
+
+  try {
+    // Firestore allows one array-contains filter; a second tag applies below
+    let bankQuery: FirebaseFirestore.Query = db.collection("questionBank");
+    if (category) {
+      bankQuery = bankQuery.where("category", "==", category);
+    }
+    if (tags.length > 0) {
+      bankQuery = bankQuery.where("tags", "array-contains", tags[0]);
+    }
+    bankQuery = bankQuery
+      .orderBy("useCount", "desc")
+      .orderBy(admin.firestore.FieldPath.documentId());
+
+    const toQuestions = (snapshot: FirebaseFirestore.QuerySnapshot) =>
+      snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() } as BankQuestion))
+        .filter((question) => tags.every((tag) => question.tags.includes(tag)));
+
+    if (query.trim()) {
+      // The cursor is the number of ranked results already returned
+      const offset = Number(cursor) || 0;
+      const snapshot = await bankQuery.limit(SEARCH_CANDIDATE_LIMIT).get();
+      const questions = toQuestions(snapshot);
+
+      // Rank with the same BM25 index used for document passages
+      const byId = new Map(
+        questions.map((question) => [question.id, question])
+      );
+      const index = buildLexicalIndex(
+        questions.map((question) => ({
+          id: question.id,
+          text: [
+            question.text,
+            question.rationale,
+            ...question.disciplines,
+            ...question.technologies,
+          ].join(" "),
+        }))
+      );
+      const ranked = searchLexicalIndex(index, query, offset + limit + 1).map(
+        (result) => byId.get(result.chunk.id)!
+      );
+      return {
+        questions: ranked.slice(offset, offset + limit),
+        ...(ranked.length > offset + limit
+          ? { nextCursor: String(offset + limit) }
+          : {}),
+      };
+    }
+
+    // The cursor is the id of the last question read
+    let lastDoc: FirebaseFirestore.DocumentSnapshot | undefined;
+    if (cursor) {
+      lastDoc = await db.collection("questionBank").doc(cursor).get();
+      if (!lastDoc?.exists) return { questions: [] };
+    }
+
+    const questions: BankQuestion[] = [];
+    let exhausted = false;
+    for (
+      let reads = 0;
+      reads < MAX_SEARCH_READS && questions.length < limit && !exhausted;
+      reads++
+    ) {
+      const page = lastDoc ? bankQuery.startAfter(lastDoc) : bankQuery;
+      const snapshot = await page.limit(limit).get();
+      questions.push(...toQuestions(snapshot));
+      exhausted = snapshot.docs.length < limit;
+      if (snapshot.docs.length > 0) {
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      }
+    }
+
+    return {
+      questions,
+      ...(!exhausted && lastDoc ? { nextCursor: lastDoc.id } : {}),
+    };
+  } catch (error) {
+    console.error("Error searching question bank:", error);
+    return { questions: [] };
+  }
+}
+
+/**
+ * Count a use of each question pulled into a session
+ */
+export async function recordQuestionBankUse(questionIds: string[]) {
+  if (questionIds.length === 0) return { success: true };
+
+  try {
+    const batch = db.batch();
+    for (const id of questionIds) {
+      batch.update(db.collection("questionBank").doc(id), {
+        useCount: admin.firestore.FieldValue.increment(1),
+      });
+    }
+    await batch.commit();
+    return { success: true };
+  } catch (error) {
+    console.error("Error recording question bank use:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Remove a question from the bank; only the user who saved it may
+ */
+export async function deleteFromQuestionBank(params: {
+  questionId: string;
+  userId: string;
+}) {
+  const { questionId, userId } = params;
+
+  try {
+    const questionRef = db.collection("questionBank").doc(questionId);
+    const snapshot = await questionRef.get();
+
+    if (!snapshot.exists) {
+      return { success: false, error: "Question not found" };
+    }
+    if (snapshot.data()?.createdBy !== userId) {
+      return { success: false, error: "Only the author can delete a question" };
+    }
+
+    await questionRef.delete();
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting question from bank:", error);
+    return { success: false, error };
+  }
+}
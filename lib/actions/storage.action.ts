@@ -2,12 +2,35 @@
 
 import { v4 as uuidv4 } from "uuid";
 import { storage, formattedBucketName } from "@/firebase/admin";
-import { google } from "@ai-sdk/google";
 import { generateText } from "ai";
 
+import {
+  applyOcrResults,
+  extractDocumentPages,
+  findPagesWithoutText,
+  formatExtractedText,
+  type ExtractedPage,
+  type OcrSummary,
+} from "@/lib/document-extractors";
+import { recognizeScannedPages } from "@/lib/actions/document.action";
+import { resolveModel } from "@/lib/llm-provider";
+import { renderPrompt } from "@/lib/prompts";
+import {
+  detectDiscipline,
+  getTemplateQuestions,
+} from "@/lib/question-templates";
+
 // Use the storage directly since it's already properly typed in firebase/admin.ts
 const firebaseStorage = storage;
 
+interface FileExtractionResult {
+  success: boolean;
+  text: string;
+  pages: ExtractedPage[];
+  ocr?: OcrSummary;
+  error?: string;
+}
+
 /**
  * Upload a file to Firebase Storage
  * @param file - The file to upload
@@ -28,12 +51,25 @@ export async function uploadFile(
 
     // First extract text from the file regardless of storage issues
     console.log(`Extracting text from file...`);
-    const extractedText = await extractTextFromFile(
+    const extraction = await extractTextFromFile(
       Buffer.from(fileBuffer),
       contentType,
       filename
     );
-    console.log(`Text extraction complete.`);
+    const extractedText = extraction.text;
+    const pages = extraction.pages;
+    const ocr = extraction.ocr;
+    const extractionError = extraction.error;
+
+    if (extraction.success) {
+      console.log(
+        `Text extraction complete: ${pages.length} page(s) from ${filename}.`
+      );
+    } else {
+      console.warn(
+        `Text extraction failed for ${filename}: ${extractionError}`
+      );
+    }
 
     // Check if Firebase Storage is available
     if (!firebaseStorage) {
@@ -45,6 +81,9 @@ export async function uploadFile(
         error: "Storage not available but text extracted successfully",
         url: "placeholder-url",
         extractedText: extractedText, // Return the extracted text
+        pages,
+        ocr,
+        extractionError,
       };
     }
 
@@ -84,6 +123,9 @@ export async function uploadFile(
         success: true,
         url: publicUrl,
         extractedText,
+        pages,
+        ocr,
+        extractionError,
       };
     } catch (uploadError) {
       console.error(`Error during file upload operations:`, uploadError);
@@ -99,6 +141,9 @@ export async function uploadFile(
         }`,
         url: "placeholder-url",
         extractedText: extractedText, // Return the extracted text
+        pages,
+        ocr,
+        extractionError,
       };
     }
   } catch (error) {
@@ -115,81 +160,72 @@ export async function uploadFile(
       success: false,
       error: errorMessage,
       url: "placeholder-url",
-      extractedText: "Error occurred while extracting text from document.",
+      extractedText: "",
+      pages: [],
+      extractionError: errorMessage,
     };
   }
 }
 
 /**
- * Extract text from various file types
+ * Extract page/slide-aware text from any supported document buffer
+ * using the same extractors as the client-side document processor
  */
 async function extractTextFromFile(
   fileBuffer: Buffer,
   contentType: string,
   filename: string
-): Promise<string> {
+): Promise<FileExtractionResult> {
   try {
-    // Here we would use specialized libraries based on file type
-    // For demo purposes, we'll use a simple approach with AI
-
-    // Check file type by extension
-    const fileExtension = filename.split(".").pop()?.toLowerCase();
-
-    // For PDF, DOCX, and PPTX files, we'll use a simpler approach for this demo
-    // In a production app, you would use more specialized libraries like:
-    // - pdf-parse for PDFs
-    // - mammoth for DOCX
-    // - officegen for PPTX
-
-    // For this demo, we'll create a placeholder extraction result
-    // and then use AI to generate something that seems plausible
-    const filePreview = await simulateFileExtraction(
-      fileExtension || "",
-      filename
-    );
+    // Copy into a standalone ArrayBuffer; Node Buffers may share a larger pool
+    const data = fileBuffer.buffer.slice(
+      fileBuffer.byteOffset,
+      fileBuffer.byteOffset + fileBuffer.byteLength
+    ) as ArrayBuffer;
 
-    return filePreview;
-  } catch (error) {
-    console.error("Error extracting text from file:", error);
-    return "Failed to extract text from the document.";
-  }
-}
+    let extraction = await extractDocumentPages(data, contentType, filename);
+    let ocr: OcrSummary | undefined;
 
-/**
- * For demo purposes, simulate extracting text from different file types
- */
-async function simulateFileExtraction(
-  fileExtension: string,
-  filename: string
-): Promise<string> {
-  try {
-    // Use Gemini to generate a plausible document content
-    const result = await generateText({
-      model: google("gemini-1.5-flash"),
-      prompt: `You are a document content extractor. Based on the filename "${filename}" (${fileExtension} format), 
-      generate a plausible academic project content summary. The content should look like it was extracted from the document
-      and include typical sections found in academic project documentation such as:
-      
-      1. Project title and abstract
-      2. Introduction and background
-      3. Methodology
-      4. Implementation details
-      5. Technologies used
-      6. Results and discussion
-      7. Conclusion
-      
-      Make the content realistic and detailed (800-1000 words) based on what the filename suggests.
-      Include technical terms, methodologies, and implementation details that would be found in a real document.
-      Format it with clear section headers and maintain a professional academic tone.
-      DO NOT mention that this is generated - write as if this is the actual extracted text from the document.`,
-      temperature: 0.7,
-      maxTokens: 2000,
-    });
+    // Scanned pages have no text layer; recover them with OCR
+    const scannedPages = findPagesWithoutText(extraction);
+    if (scannedPages.length > 0) {
+      console.log(`Running OCR on ${scannedPages.length} scanned page(s)...`);
+      const recognition = await recognizeScannedPages({
+        fileBuffer: data,
+        pageNumbers: scannedPages,
+      });
+      if (!recognition.success) {
+        console.warn("OCR failed:", recognition.error);
+      }
+      ({ extraction, ocr } = applyOcrResults(extraction, recognition.pages));
+    }
+
+    const text = formatExtractedText(extraction);
+
+    if (text.trim().length === 0) {
+      return {
+        success: false,
+        text: "",
+        pages: extraction.pages,
+        ocr,
+        error: ocr
+          ? `No text could be extracted from ${filename}, even with OCR. The scan may be too low quality to read.`
+          : `No text could be extracted from ${filename}. The file might contain only images.`,
+      };
+    }
 
-    return String(result);
+    return { success: true, text, pages: extraction.pages, ocr };
   } catch (error) {
-    console.error("Error simulating file extraction:", error);
-    return "Basic project documentation extracted. Contains introduction, methodology, and implementation details.";
+    console.error("Error extracting text from file:", error);
+    return {
+      success: false,
+      text: "",
+      pages: [],
+      error:
+        error instanceof Error
+          ? error.message
+          : `Failed to extract text from ${filename}.`,
+    };
   }
 }
 
@@ -201,33 +237,26 @@ export async function generateQuestionsFromDocument(
   academicLevel: string = "Bachelor's",
   projectTitle: string = "Project Defense"
 ): Promise<string[]> {
+  const resolved = resolveModel("questions");
+  if (!resolved) {
+    return getDocumentTemplateQuestions(
+      documentText,
+      academicLevel,
+      projectTitle
+    );
+  }
+
   try {
-    const promptText = `
-    DOCUMENT CONTEXT:
-    ${documentText.substring(0, 7000)}
-    
-    TASK:
-    Generate 10 challenging and specific questions for a ${academicLevel} level defense of the project described above.
-    The questions should probe deeply into:
-    1. Technical implementation details mentioned in the document
-    2. Methodological choices and their justifications
-    3. Alternative approaches that could have been considered
-    4. Limitations and future improvements
-    5. Theoretical underpinnings of the work
-    
-    The questions should be specific to the content in the document, referencing actual technologies, methods, and concepts mentioned.
-    Each question should be challenging but fair for a ${academicLevel} level student.
-    
-    FORMAT: Return only the list of 10 questions, one per line, without numbering or additional text.
-    `;
-
-    const result = await generateText({
-      model: google("gemini-1.5-flash"),
-      prompt: promptText,
-      temperature: 0.7,
+    const prompt = renderPrompt("document-questions", {
+      documentText: documentText.substring(0, 7000),
+      academicLevel,
     });
 
-    const questionsText = String(result);
+    const { text: questionsText } = await generateText({
+      model: resolved.model,
+      prompt: prompt.text,
+      temperature: 0.7,
+    });
 
     // Split the text into individual questions
     const questionsList = questionsText
@@ -237,35 +266,30 @@ export async function generateQuestionsFromDocument(
 
     return questionsList.length > 0
       ? questionsList
-      : [
-          `Explain the overall architecture of your ${projectTitle} project.`,
-          "What were the main technical challenges you faced during implementation?",
-          "How did you ensure the quality and reliability of your implementation?",
-          "Describe your methodology and research approach in detail.",
-          "How does your project compare to existing solutions in this domain?",
-          "What are the limitations of your current implementation?",
-          "How would you scale your solution for larger datasets or user bases?",
-          "What ethical considerations did you address in your project?",
-          "If you had more time, what would you improve in your project?",
-          "How did you balance theory and practical implementation in your project?",
-        ];
+      : getDocumentTemplateQuestions(documentText, academicLevel, projectTitle);
   } catch (error) {
     console.error("Error generating questions:", error);
-    return [
-      `Explain the overall architecture of your ${projectTitle} project.`,
-      "What were the main technical challenges you faced during implementation?",
-      "How did you ensure the quality and reliability of your implementation?",
-      "Describe your methodology and research approach in detail.",
-      "How does your project compare to existing solutions in this domain?",
-      "What are the limitations of your current implementation?",
-      "How would you scale your solution for larger datasets or user bases?",
-      "What ethical considerations did you address in your project?",
-      "If you had more time, what would you improve in your project?",
-      "How did you balance theory and practical implementation in your project?",
-    ];
+    return getDocumentTemplateQuestions(
+      documentText,
+      academicLevel,
+      projectTitle
+    );
   }
 }
 
+// Template questions for the discipline the document text suggests
+function getDocumentTemplateQuestions(
+  documentText: string,
+  academicLevel: string,
+  projectTitle: string
+): string[] {
+  return getTemplateQuestions({
+    discipline: detectDiscipline({ text: documentText }),
+    title: projectTitle,
+    level: academicLevel,
+  }).map((question) => question.text);
+}
+
 /**
  * Delete a file from Firebase Storage
  * @param url - The URL of the file to delete
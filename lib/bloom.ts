@@ -0,0 +1,159 @@
+/**
+ * Bloom's taxonomy difficulty model.
+ * Each academic level gets a distribution over cognitive levels, from
+ * recalling facts to creating new work, so a PhD defense leans on evaluating
+ * the contribution while a Bachelor's defense leans on explaining and
+ * applying. Institutions can override the distributions.
+ */
+
+export const COGNITIVE_LEVELS: CognitiveLevel[] = [
+  "recall",
+  "explain",
+  "apply",
+  "analyze",
+  "evaluate",
+  "create",
+];
+
+export type AcademicLevel = "Bachelor's" | "Master's" | "PhD";
+
+export const ACADEMIC_LEVELS: AcademicLevel[] = [
+  "Bachelor's",
+  "Master's",
+  "PhD",
+];
+
+// Share of questions per cognitive level; sums to 1
+export type CognitiveDistribution = Record<CognitiveLevel, number>;
+
+export type BloomProfiles = Record<AcademicLevel, CognitiveDistribution>;
+
+// Institution overrides only need the levels and shares they change
+export type BloomProfileOverrides = Partial<
+  Record<AcademicLevel, Partial<CognitiveDistribution>>
+>;
+
+export const DEFAULT_BLOOM_PROFILES: BloomProfiles = {
+  "Bachelor's": {
+    recall: 0.1,
+    explain: 0.3,
+    apply: 0.3,
+    analyze: 0.2,
+    evaluate: 0.1,
+    create: 0,
+  },
+  "Master's": {
+    recall: 0,
+    explain: 0.15,
+    apply: 0.25,
+    analyze: 0.3,
+    evaluate: 0.2,
+    create: 0.1,
+  },
+  PhD: {
+    recall: 0,
+    explain: 0.05,
+    apply: 0.05,
+    analyze: 0.2,
+    evaluate: 0.35,
+    create: 0.35,
+  },
+};
+
+// What each cognitive level asks of the student, for the prompt
+export const COGNITIVE_LEVEL_DESCRIPTIONS: Record<CognitiveLevel, string> = {
+  recall: "state facts, definitions or choices made",
+  explain: "explain how or why something in the work works",
+  apply: "apply the approach to a new case or scenario",
+  analyze: "break down results, trade-offs or causes",
+  evaluate: "judge the validity, significance or limits of the work",
+  create: "propose extensions, new designs or research directions",
+};
+
+// What a committee at each level mostly cares about
+export const ACADEMIC_LEVEL_GUIDANCE: Record<AcademicLevel, string> = {
+  "Bachelor's":
+    "Focus on whether the student understands and can apply what they built.",
+  "Master's":
+    "Focus on the soundness of the method and the analysis of the results.",
+  PhD: "Focus on the original contribution, its novelty over prior work and its significance to the field.",
+};
+
+/**
+ * Map free-form levels such as "MSc", "undergraduate" or "Doctoral" to an
+ * academic level; unknown values count as Master's
+ */
+export function normalizeAcademicLevel(level?: string): AcademicLevel {
+  const normalized = (level || "").toLowerCase();
+  if (/ph\.?d|doctor/.test(normalized)) return "PhD";
+  if (/bachelor|undergrad|\bb\.?(sc|a|eng|s)\b/.test(normalized)) {
+    return "Bachelor's";
+  }
+  return "Master's";
+}
+
+/**
+ * Merge institution overrides into the default profiles; each resulting
+ * distribution is normalized to sum to 1
+ */
+export function resolveBloomProfiles(
+  overrides?: BloomProfileOverrides
+): BloomProfiles {
+  const profiles = {} as BloomProfiles;
+
+  for (const level of ACADEMIC_LEVELS) {
+    const merged = {
+      ...DEFAULT_BLOOM_PROFILES[level],
+      ...(overrides?.[level] || {}),
+    };
+    const total = COGNITIVE_LEVELS.reduce(
+      (sum, cognitiveLevel) => sum + Math.max(merged[cognitiveLevel] || 0, 0),
+      0
+    );
+    profiles[level] =
+      total > 0
+        ? mapCognitiveLevels(
+            (cognitiveLevel) => Math.max(merged[cognitiveLevel] || 0, 0) / total
+          )
+        : { ...DEFAULT_BLOOM_PROFILES[level] };
+  }
+
+  return profiles;
+}
+
+/**
+ * How many questions of each cognitive level a set contains
+ */
+export function countCognitiveLevels(
+  questions: DefenseQuestion[]
+): Record<CognitiveLevel, number> {
+  const counts = mapCognitiveLevels(() => 0);
+  for (const question of questions) {
+    if (question.cognitiveLevel) counts[question.cognitiveLevel]++;
+  }
+  return counts;
+}
+
+/**
+ * e.g. "explain 3, apply 3, analyze 2"
+ */
+export function formatCognitiveCounts(
+  counts: Record<CognitiveLevel, number>
+): string {
+  return COGNITIVE_LEVELS.filter((level) => counts[level] > 0)
+    .map((level) => `${level} ${counts[level]}`)
+    .join(", ");
+}
+
+function mapCognitiveLevels(
+  fn: (level: CognitiveLevel) => number
+): Record<CognitiveLevel, number> {
+  return {
+    recall: fn("recall"),
+    explain: fn("explain"),
+    apply: fn("apply"),
+    analyze: fn("analyze"),
+    evaluate: fn("evaluate"),
+    create: fn("create"),
+  };
+}
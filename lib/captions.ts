@@ -0,0 +1,176 @@
+/**
+ * Figure and table caption detection.
+ * Finds caption lines such as "Figure 4.2: Accuracy vs epochs" or
+ * "Table 3. Survey results" in the extracted pages, remembers their page and
+ * section, so questions can ask students to interpret a specific figure.
+ */
+
+import type { ExtractedPage, ExtractionUnit } from "@/lib/document-extractors";
+import {
+  flattenSections,
+  type DocumentSection,
+} from "@/lib/document-structure";
+
+export type CaptionKind = "figure" | "table" | "listing" | "algorithm";
+
+export interface DocumentCaption {
+  id: string; // "figure-4.2", unique within the document
+  kind: CaptionKind;
+  label: string; // Normalized, e.g. "Figure 4.2" for "Fig. 4.2"
+  number: string;
+  text: string; // Caption without the label
+  pageNumber?: number;
+  sectionId?: string;
+  sectionLocation?: string; // e.g. "Section 4.3"; the page is on the caption
+}
+
+const KIND_BY_WORD: Record<string, CaptionKind> = {
+  figure: "figure",
+  fig: "figure",
+  table: "table",
+  tab: "table",
+  listing: "listing",
+  algorithm: "algorithm",
+};
+
+// "Figure 4.2: text", "Fig. 3 - text", "Table A.1. text", "TABLE II text"
+const CAPTION_PATTERN =
+  /^(figure|fig\.?|table|tab\.|listing|algorithm)\s+([A-Z]?\d+(?:[.-]\d+)*|[IVX]+|[A-Z]\.\d+)\s*([:.\-–—|]?)\s*(.*)$/i;
+// Without a separator these words mean the line is a sentence about the
+// figure ("Figure 3 shows ..."), not its caption
+const REFERENCE_VERBS =
+  /^(shows?|presents?|illustrates?|depicts?|summari[sz]es?|lists?|compares?|gives?|displays?|contains?|provides?|describes?|reports?|demonstrates?|is|are|was|were|and|in|of|from|above|below)\b/i;
+// List of Figures entries end in dot leaders before the page number
+const DOT_LEADER_PATTERN = /(\.\s*){3,}\s*\d*$/;
+// Caption lines continued on the next line are joined up to this length
+const MAX_CAPTION_LENGTH = 300;
+// Captions kept per document; more does not fit a prompt anyway
+const MAX_CAPTIONS = 200;
+
+/**
+ * Find figure, table, listing and algorithm captions in extracted pages
+ * @param sections - Detected sections, used to place each caption
+ */
+export function extractCaptions(
+  pages: ExtractedPage[],
+  unit: ExtractionUnit,
+  sections: DocumentSection[]
+): DocumentCaption[] {
+  // Slides label their own pictures inconsistently; captions are a report thing
+  if (unit === "slide") return [];
+
+  const byId = new Map<string, DocumentCaption>();
+  const flat = flattenSections(sections);
+
+  for (const page of pages) {
+    const lines = page.text
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+
+    lines.forEach((line, index) => {
+      const match = line.match(CAPTION_PATTERN);
+      if (!match) return;
+
+      const [, word, number, separator, rest] = match;
+      if (!separator && (!rest || REFERENCE_VERBS.test(rest))) return;
+      if (DOT_LEADER_PATTERN.test(line)) return;
+
+      // Captions wrapped onto lowercase continuation lines
+      let text = rest;
+      for (
+        let next = index + 1;
+        next < lines.length &&
+        !/[.!?]$/.test(text) &&
+        /^[a-z(]/.test(lines[next]) &&
+        text.length < MAX_CAPTION_LENGTH;
+        next++
+      ) {
+        text += ` ${lines[next]}`;
+      }
+      text = text.trim();
+      if (text.length === 0) return;
+
+      const kind = KIND_BY_WORD[word.toLowerCase().replace(/\.$/, "")];
+      const id = `${kind}-${number}`;
+      const section = findSectionForLine(flat, line, page.pageNumber, unit);
+
+      // A later occurrence is the caption itself rather than its entry in a
+      // List of Figures, which always comes first
+      byId.delete(id);
+      byId.set(id, {
+        id,
+        kind,
+        label: `${capitalize(kind)} ${number}`,
+        number,
+        text,
+        ...(unit === "page" ? { pageNumber: page.pageNumber } : {}),
+        ...(section
+          ? {
+              sectionId: section.id,
+              sectionLocation: section.number
+                ? `Section ${section.number}`
+                : section.title,
+            }
+          : {}),
+      });
+    });
+  }
+
+  return Array.from(byId.values())
+    .filter((caption) => !isFrontMatter(flat, caption))
+    .slice(0, MAX_CAPTIONS);
+}
+
+/**
+ * Where to find a caption, e.g. "Figure 4.2, p.45 (Section 4.3)"
+ */
+export function formatCaptionLocation(caption: DocumentCaption): string {
+  return `${caption.label}${
+    caption.pageNumber !== undefined ? `, p.${caption.pageNumber}` : ""
+  }${caption.sectionLocation ? ` (${caption.sectionLocation})` : ""}`;
+}
+
+/**
+ * One line per caption for prompts and outlines
+ */
+export function formatCaptionList(captions: DocumentCaption[]): string {
+  return captions
+    .map((caption) => `${formatCaptionLocation(caption)}: ${caption.text}`)
+    .join("\n");
+}
+
+/**
+ * The section whose text contains the caption line, preferring sections
+ * that span the caption's page
+ */
+function findSectionForLine(
+  sections: DocumentSection[],
+  line: string,
+  pageNumber: number,
+  unit: ExtractionUnit
+): DocumentSection | undefined {
+  const containing = sections.filter((section) => section.text.includes(line));
+  if (unit !== "page") return containing[0];
+
+  return (
+    containing.find(
+      (section) =>
+        section.pageStart !== undefined &&
+        section.pageStart <= pageNumber &&
+        (section.pageEnd ?? section.pageStart) >= pageNumber
+    ) || containing[0]
+  );
+}
+
+function isFrontMatter(
+  sections: DocumentSection[],
+  caption: DocumentCaption
+): boolean {
+  const section = sections.find((item) => item.id === caption.sectionId);
+  return section?.kind === "front-matter";
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,530 @@
+/**
+ * Source-code archive indexing.
+ * Reads a zipped repository in the browser with JSZip and records its file
+ * tree, languages, dependency manifests and key modules with their
+ * top-level symbols, so questions can refer to concrete files and functions.
+ */
+
+import type { DocumentChunk } from "@/lib/document-processor";
+import { createZipReader } from "@/lib/zip-reader";
+
+export interface CodeFile {
+  path: string;
+  language: string;
+  lines: number;
+}
+
+export interface LanguageUsage {
+  language: string;
+  files: number;
+  lines: number;
+}
+
+export interface DependencyManifest {
+  path: string;
+  kind: "npm" | "pip" | "maven";
+  dependencies: string[];
+}
+
+export interface CodeModule {
+  path: string;
+  language: string;
+  lines: number;
+  symbols: string[]; // Top-level functions, classes and exported names
+}
+
+export interface CodeIndex {
+  archiveName: string;
+  files: CodeFile[];
+  languages: LanguageUsage[];
+  manifests: DependencyManifest[];
+  keyModules: CodeModule[];
+  techstack: string[];
+  chunks: DocumentChunk[]; // Source excerpts of the key modules for retrieval
+}
+
+// Maximum archive size in bytes (20MB); repositories are larger than reports
+export const MAX_CODE_ARCHIVE_SIZE = 20 * 1024 * 1024;
+// Archives whose source files unpack to more than this are rejected
+const MAX_UNCOMPRESSED_ARCHIVE_SIZE = 200 * 1024 * 1024;
+// Files larger than this are usually generated or minified
+const MAX_SOURCE_FILE_BYTES = 200 * 1024;
+const MAX_INDEXED_FILES = 2000;
+const MAX_KEY_MODULES = 15;
+const MAX_SYMBOLS_PER_MODULE = 10;
+// Lines of each key module kept as a retrievable excerpt
+const EXCERPT_LINES = 80;
+
+// Folders that hold dependencies, build output or tooling state
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  ".next",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "vendor",
+  "venv",
+  ".venv",
+  "env",
+  "__pycache__",
+  ".idea",
+  ".vscode",
+  "coverage",
+  "__MACOSX",
+]);
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  ts: "TypeScript",
+  tsx: "TypeScript",
+  js: "JavaScript",
+  jsx: "JavaScript",
+  mjs: "JavaScript",
+  cjs: "JavaScript",
+  py: "Python",
+  java: "Java",
+  kt: "Kotlin",
+  cs: "C#",
+  go: "Go",
+  rb: "Ruby",
+  php: "PHP",
+  rs: "Rust",
+  swift: "Swift",
+  dart: "Dart",
+  c: "C",
+  h: "C",
+  cpp: "C++",
+  cc: "C++",
+  hpp: "C++",
+  scala: "Scala",
+  r: "R",
+  sql: "SQL",
+  html: "HTML",
+  css: "CSS",
+  scss: "CSS",
+  vue: "Vue",
+  svelte: "Svelte",
+  ipynb: "Jupyter Notebook",
+};
+
+// Languages that describe markup or data rather than the implementation
+const NON_PROGRAMMING_LANGUAGES = new Set(["HTML", "CSS", "SQL"]);
+
+// Well-known dependencies mapped to the technology name shown to users
+const KNOWN_DEPENDENCIES: Record<string, string> = {
+  react: "React",
+  next: "Next.js",
+  vue: "Vue",
+  "@angular/core": "Angular",
+  svelte: "Svelte",
+  express: "Express",
+  "@nestjs/core": "NestJS",
+  fastify: "Fastify",
+  "react-native": "React Native",
+  electron: "Electron",
+  tailwindcss: "Tailwind CSS",
+  firebase: "Firebase",
+  "firebase-admin": "Firebase",
+  mongoose: "MongoDB",
+  mongodb: "MongoDB",
+  pg: "PostgreSQL",
+  mysql2: "MySQL",
+  prisma: "Prisma",
+  "@prisma/client": "Prisma",
+  redis: "Redis",
+  ioredis: "Redis",
+  graphql: "GraphQL",
+  "socket.io": "Socket.IO",
+  "@tensorflow/tfjs": "TensorFlow.js",
+  jest: "Jest",
+  vitest: "Vitest",
+  django: "Django",
+  flask: "Flask",
+  fastapi: "FastAPI",
+  sqlalchemy: "SQLAlchemy",
+  numpy: "NumPy",
+  pandas: "pandas",
+  "scikit-learn": "scikit-learn",
+  tensorflow: "TensorFlow",
+  keras: "Keras",
+  torch: "PyTorch",
+  transformers: "Hugging Face Transformers",
+  opencv: "OpenCV",
+  "opencv-python": "OpenCV",
+  matplotlib: "Matplotlib",
+  psycopg2: "PostgreSQL",
+  "psycopg2-binary": "PostgreSQL",
+  pymongo: "MongoDB",
+  celery: "Celery",
+  pytest: "pytest",
+  "spring-boot-starter-web": "Spring Boot",
+  "spring-boot-starter": "Spring Boot",
+  "spring-boot-starter-data-jpa": "Spring Data JPA",
+  hibernate: "Hibernate",
+  "hibernate-core": "Hibernate",
+  "mysql-connector-java": "MySQL",
+  "mysql-connector-j": "MySQL",
+  postgresql: "PostgreSQL",
+  junit: "JUnit",
+  "junit-jupiter": "JUnit",
+  lombok: "Lombok",
+};
+
+// Names that usually mark an application entry point
+const ENTRY_POINT_PATTERN =
+  /(^|\/)(main|index|app|server|manage|application|program)\.[a-z]+$/i;
+
+/**
+ * Index a zipped source-code repository.
+ * Throws an Error with a readable message when the archive cannot be read.
+ */
+export async function indexCodeArchive(
+  data: ArrayBuffer,
+  archiveName: string
+): Promise<CodeIndex> {
+  const JSZip = (await import("jszip")).default;
+
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(
+      `The code archive could not be opened: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+
+  const entries = Object.values(zip.files).filter(
+    (entry) =>
+      !entry.dir &&
+      !entry.name
+        .split("/")
+        .some((part) => IGNORED_DIRECTORIES.has(part) || part === ".DS_Store")
+  );
+  const reader = createZipReader(
+    MAX_UNCOMPRESSED_ARCHIVE_SIZE,
+    "The code archive is too large once unpacked. Please leave out data files and build output."
+  );
+  const rootPrefix = findCommonRoot(entries.map((entry) => entry.name));
+
+  const files: CodeFile[] = [];
+  const manifests: DependencyManifest[] = [];
+  const modules: CodeModule[] = [];
+  const sources = new Map<string, string>();
+
+  for (const entry of entries.slice(0, MAX_INDEXED_FILES)) {
+    const path = entry.name.slice(rootPrefix.length);
+    const fileName = path.split("/").pop() || path;
+    const extension = fileName.includes(".")
+      ? fileName.split(".").pop()!.toLowerCase()
+      : "";
+    const language = LANGUAGES_BY_EXTENSION[extension];
+    const isManifest = ["package.json", "requirements.txt", "pom.xml"].includes(
+      fileName
+    );
+
+    if (!language && !isManifest) {
+      files.push({ path, language: "Other", lines: 0 });
+      continue;
+    }
+
+    // Inflating stops as soon as a file passes the limit
+    const source = await reader.readText(entry, MAX_SOURCE_FILE_BYTES);
+    if (source === null) {
+      files.push({ path, language: language || "Other", lines: 0 });
+      continue;
+    }
+
+    const lines = source.split("\n").length;
+
+    if (isManifest) {
+      const manifest = parseManifest(path, fileName, source);
+      if (manifest) manifests.push(manifest);
+    }
+
+    if (language) {
+      files.push({ path, language, lines });
+      if (!NON_PROGRAMMING_LANGUAGES.has(language)) {
+        modules.push({
+          path,
+          language,
+          lines,
+          symbols: extractSymbols(source, language),
+        });
+        sources.set(path, source);
+      }
+    } else {
+      files.push({ path, language: "Other", lines });
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error("The code archive does not contain any files.");
+  }
+
+  const languages = summarizeLanguages(files);
+  const keyModules = rankModules(modules).slice(0, MAX_KEY_MODULES);
+
+  return {
+    archiveName,
+    files,
+    languages,
+    manifests,
+    keyModules,
+    techstack: deriveTechstack(languages, manifests),
+    chunks: keyModules.map((module, index) => ({
+      id: `code${index + 1}`,
+      text: (sources.get(module.path) || "")
+        .split("\n")
+        .slice(0, EXCERPT_LINES)
+        .join("\n"),
+      sectionTitle: module.path,
+      location: `Source file ${module.path}`,
+    })),
+  };
+}
+
+/**
+ * Render the index as a compact summary for prompts
+ */
+export function formatCodeSummary(index: CodeIndex): string {
+  const languages = index.languages
+    .filter((usage) => usage.language !== "Other")
+    .map((usage) => `${usage.language} (${usage.files} files)`)
+    .join(", ");
+
+  const manifests = index.manifests
+    .map(
+      (manifest) =>
+        `- ${manifest.path}: ${
+          manifest.dependencies.slice(0, 20).join(", ") || "no dependencies"
+        }`
+    )
+    .join("\n");
+
+  const modules = index.keyModules
+    .map(
+      (module) =>
+        `- ${module.path} (${module.lines} lines)${
+          module.symbols.length > 0 ? `: ${module.symbols.join(", ")}` : ""
+        }`
+    )
+    .join("\n");
+
+  return [
+    `Repository: ${index.archiveName} (${index.files.length} files)`,
+    `Languages: ${languages || "Unknown"}`,
+    `Top-level folders: ${formatTopLevelTree(index.files)}`,
+    manifests ? `Dependency manifests:\n${manifests}` : "",
+    modules ? `Key modules:\n${modules}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Strip a folder shared by every entry, e.g. "my-repo-main/" in GitHub downloads
+ */
+function findCommonRoot(paths: string[]): string {
+  if (paths.length === 0) return "";
+  const first = paths[0].split("/");
+  if (first.length < 2) return "";
+  const root = `${first[0]}/`;
+  return paths.every((path) => path.startsWith(root)) ? root : "";
+}
+
+function parseManifest(
+  path: string,
+  fileName: string,
+  source: string
+): DependencyManifest | null {
+  try {
+    if (fileName === "package.json") {
+      const pkg = JSON.parse(source);
+      return {
+        path,
+        kind: "npm",
+        dependencies: Object.keys({
+          ...(pkg.dependencies || {}),
+          ...(pkg.devDependencies || {}),
+        }),
+      };
+    }
+
+    if (fileName === "requirements.txt") {
+      return {
+        path,
+        kind: "pip",
+        dependencies: source
+          .split("\n")
+          .map((line) => line.replace(/#.*$/, "").trim())
+          .filter((line) => line && !line.startsWith("-"))
+          // "Django>=4.2" -> "django"
+          .map((line) => line.split(/[<>=!~;\[\s]/)[0].toLowerCase()),
+      };
+    }
+
+    if (fileName === "pom.xml") {
+      const dependencies = Array.from(
+        source.matchAll(
+          /<dependency>[\s\S]*?<artifactId>([^<]+)<\/artifactId>[\s\S]*?<\/dependency>/g
+        )
+      ).map((match) => match[1].trim());
+      return { path, kind: "maven", dependencies };
+    }
+  } catch (error) {
+    console.warn(`Could not parse ${path}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Pull top-level declarations out of a source file with per-language patterns
+ */
+function extractSymbols(source: string, language: string): string[] {
+  const patterns: RegExp[] = [];
+
+  switch (language) {
+    case "TypeScript":
+    case "JavaScript":
+    case "Vue":
+    case "Svelte":
+      patterns.push(
+        /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/gm,
+        /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/gm,
+        /^export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/gm,
+        /^(?:export\s+)?(?:interface|type)\s+([A-Za-z_$][\w$]*)/gm
+      );
+      break;
+    case "Python":
+      patterns.push(
+        /^(?:async\s+)?def\s+([A-Za-z_]\w*)/gm,
+        /^class\s+([A-Za-z_]\w*)/gm
+      );
+      break;
+    case "Java":
+    case "Kotlin":
+    case "C#":
+    case "Scala":
+      patterns.push(
+        /^\s*(?:public\s+|private\s+|protected\s+|internal\s+|abstract\s+|final\s+|static\s+|sealed\s+|data\s+|open\s+)*(?:class|interface|enum|record|object)\s+([A-Za-z_]\w*)/gm,
+        /^\s*(?:public|protected)\s+(?:static\s+|final\s+|async\s+|override\s+|virtual\s+)*[\w<>\[\],\s]+?\s+([a-zA-Z_]\w*)\s*\(/gm,
+        /^\s*(?:override\s+|suspend\s+|private\s+)*fun\s+([A-Za-z_]\w*)/gm
+      );
+      break;
+    case "Go":
+      patterns.push(
+        /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/gm,
+        /^type\s+([A-Za-z_]\w*)\s+(?:struct|interface)/gm
+      );
+      break;
+    case "Rust":
+      patterns.push(
+        /^\s*(?:pub\s+)?(?:async\s+)?fn\s+([A-Za-z_]\w*)/gm,
+        /^\s*(?:pub\s+)?(?:struct|enum|trait)\s+([A-Za-z_]\w*)/gm
+      );
+      break;
+    case "Ruby":
+      patterns.push(/^\s*(?:def|class|module)\s+([A-Za-z_][\w.]*)/gm);
+      break;
+    case "PHP":
+      patterns.push(
+        /^\s*(?:public\s+|private\s+|protected\s+|static\s+)*function\s+([A-Za-z_]\w*)/gm,
+        /^\s*(?:abstract\s+|final\s+)?class\s+([A-Za-z_]\w*)/gm
+      );
+      break;
+    default:
+      patterns.push(
+        /^\s*(?:class|struct|def|function|fn|func)\s+([A-Za-z_]\w*)/gm
+      );
+  }
+
+  const symbols = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of Array.from(source.matchAll(pattern))) {
+      symbols.add(match[1]);
+      if (symbols.size >= MAX_SYMBOLS_PER_MODULE) {
+        return Array.from(symbols);
+      }
+    }
+  }
+  return Array.from(symbols);
+}
+
+/**
+ * Order modules by how central they are likely to be: entry points first,
+ * then files declaring many symbols, then larger files. Test files come last.
+ */
+function rankModules(modules: CodeModule[]): CodeModule[] {
+  const score = (module: CodeModule) => {
+    const isTest =
+      /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.[a-z]+$/i.test(
+        module.path
+      );
+    return (
+      (ENTRY_POINT_PATTERN.test(module.path) ? 50 : 0) +
+      module.symbols.length * 5 +
+      Math.min(module.lines, 500) / 20 -
+      (isTest ? 100 : 0)
+    );
+  };
+
+  return [...modules].sort((a, b) => score(b) - score(a));
+}
+
+function summarizeLanguages(files: CodeFile[]): LanguageUsage[] {
+  const usage = new Map<string, LanguageUsage>();
+  for (const file of files) {
+    const entry = usage.get(file.language) || {
+      language: file.language,
+      files: 0,
+      lines: 0,
+    };
+    entry.files += 1;
+    entry.lines += file.lines;
+    usage.set(file.language, entry);
+  }
+  return Array.from(usage.values()).sort((a, b) => b.lines - a.lines);
+}
+
+/**
+ * Main programming languages plus recognised frameworks and libraries
+ */
+function deriveTechstack(
+  languages: LanguageUsage[],
+  manifests: DependencyManifest[]
+): string[] {
+  const totalLines = languages.reduce((sum, usage) => sum + usage.lines, 0);
+  const technologies = new Set<string>();
+
+  for (const usage of languages) {
+    if (usage.language === "Other") continue;
+    // Ignore languages that make up only a sliver of the codebase
+    if (totalLines > 0 && usage.lines / totalLines < 0.05) continue;
+    technologies.add(usage.language);
+  }
+
+  for (const manifest of manifests) {
+    for (const dependency of manifest.dependencies) {
+      const technology = KNOWN_DEPENDENCIES[dependency.toLowerCase()];
+      if (technology) technologies.add(technology);
+    }
+  }
+
+  return Array.from(technologies);
+}
+
+function formatTopLevelTree(files: CodeFile[]): string {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const top = file.path.includes("/") ? `${file.path.split("/")[0]}/` : ".";
+    counts.set(top, (counts.get(top) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 12)
+    .map(([folder, count]) => `${folder} (${count})`)
+    .join(", ");
+}
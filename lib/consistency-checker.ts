@@ -0,0 +1,279 @@
+/**
+ * Slide-to-report consistency checking.
+ * Maps every slide to the report sections it summarizes (using the local
+ * BM25 index) and flags numbers and claims on slides that are missing from,
+ * or contradicted by, the report.
+ */
+
+import {
+  flattenSections,
+  formatSectionLocation,
+  type DocumentSection,
+} from "@/lib/document-structure";
+import {
+  buildLexicalIndex,
+  searchLexicalIndex,
+  tokenize,
+} from "@/lib/retrieval";
+
+export interface SlideMapping {
+  slideNumber: number;
+  sections: Array<{ sectionId: string; location: string; score: number }>;
+}
+
+export type ConsistencyIssueType =
+  | "missing-number"
+  | "contradicting-number"
+  | "unsupported-claim"
+  | "unmapped-slide";
+
+export interface ConsistencyIssue {
+  type: ConsistencyIssueType;
+  slideNumber: number;
+  text: string; // The number or claim as it appears on the slide
+  reportText?: string; // The conflicting value in the report
+  reportLocation?: string; // Where the conflicting value appears
+}
+
+export interface ConsistencyReport {
+  slidesDocument: string;
+  reportDocument: string;
+  mappings: SlideMapping[];
+  issues: ConsistencyIssue[];
+  checkedAt: string;
+}
+
+interface NumberMention {
+  raw: string;
+  value: number;
+  unit: string;
+  context: string[]; // Stemmed terms just before the number
+}
+
+// Sections mapped per slide
+const MAX_MAPPED_SECTIONS = 3;
+// Mapped sections must score at least this fraction of the best match
+const RELATIVE_SCORE_THRESHOLD = 0.5;
+// Slides with fewer terms (titles, "Thank you") are not checked
+const MIN_SLIDE_TERMS = 5;
+// Share of a slide's or claim's terms the report must contain
+const MIN_TERM_COVERAGE = 0.5;
+// Words preceding a number that describe what it measures
+const CONTEXT_TERMS = 3;
+
+const NUMBER_PATTERN =
+  /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(%|percent\b|x\b|ms\b|seconds?\b|s\b|minutes?\b|hours?\b|[kmg]b\b|users\b|participants\b|respondents\b|requests\b|fps\b)?/gi;
+
+const CLAIM_PATTERN =
+  /\b(outperform|improv|reduc|increas|decreas|achiev|faster|slower|better|higher|lower|accura|significant|novel|first|efficien|robust|state[- ]of[- ]the[- ]art|scalab|secure|reliab)/i;
+
+// Section kinds whose content is not the substance of the work
+const SKIPPED_SECTION_KINDS = new Set(["front-matter", "references"]);
+
+/**
+ * Compare a slide deck against a report
+ * @param slides - Slide sections from the slides document (one per slide)
+ * @param reportSections - Section tree of the report
+ */
+export function checkSlideConsistency(
+  slides: DocumentSection[],
+  reportSections: DocumentSection[],
+  documentNames: { slides: string; report: string }
+): ConsistencyReport {
+  const sections = flattenSections(reportSections).filter(
+    (section) =>
+      !SKIPPED_SECTION_KINDS.has(section.kind) && section.text.length > 0
+  );
+  const sectionsById = new Map(
+    sections.map((section) => [section.id, section])
+  );
+
+  const index = buildLexicalIndex(
+    sections.map((section) => ({
+      id: section.id,
+      text: section.text,
+      sectionId: section.id,
+      sectionTitle: section.title,
+      location: formatSectionLocation(section),
+    }))
+  );
+
+  const reportTerms = new Set(
+    tokenize(sections.map((section) => section.text).join(" "))
+  );
+  const reportNumbers = sections.flatMap((section) =>
+    extractNumbers(section.text).map((mention) => ({ mention, section }))
+  );
+  const reportValues = new Set(
+    reportNumbers.map(({ mention }) => mention.value)
+  );
+
+  const mappings: SlideMapping[] = [];
+  const issues: ConsistencyIssue[] = [];
+
+  for (const slide of slides) {
+    const slideNumber = slide.pageStart ?? 0;
+    const slideTerms = Array.from(new Set(tokenize(slide.text)));
+
+    const results = searchLexicalIndex(index, slide.text, MAX_MAPPED_SECTIONS);
+    const bestScore = results[0]?.score || 0;
+    const mapped = results.filter(
+      (result) => result.score >= bestScore * RELATIVE_SCORE_THRESHOLD
+    );
+
+    mappings.push({
+      slideNumber,
+      sections: mapped.map(({ chunk, score }) => ({
+        sectionId: chunk.id,
+        location: chunk.location || chunk.sectionTitle || chunk.id,
+        score: Math.round(score * 100) / 100,
+      })),
+    });
+
+    if (slideTerms.length < MIN_SLIDE_TERMS) continue;
+
+    // A slide whose vocabulary is mostly absent from its best section
+    // presents material the report does not cover
+    const bestSection = mapped[0] && sectionsById.get(mapped[0].chunk.id);
+    const bestSectionTerms = new Set(
+      bestSection ? tokenize(`${bestSection.title} ${bestSection.text}`) : []
+    );
+    const unmapped = coverage(slideTerms, bestSectionTerms) < MIN_TERM_COVERAGE;
+    if (unmapped) {
+      issues.push({
+        type: "unmapped-slide",
+        slideNumber,
+        text: truncate(slide.text, 120),
+      });
+    }
+
+    for (const mention of extractNumbers(slide.text)) {
+      if (reportValues.has(mention.value)) continue;
+
+      // Same measure and unit with a different value means a contradiction
+      const conflict = reportNumbers.find(
+        ({ mention: reportMention }) =>
+          reportMention.unit === mention.unit &&
+          reportMention.context.some((term) => mention.context.includes(term))
+      );
+
+      issues.push(
+        conflict
+          ? {
+              type: "contradicting-number",
+              slideNumber,
+              text: mention.raw,
+              reportText: conflict.mention.raw,
+              reportLocation: formatSectionLocation(conflict.section),
+            }
+          : { type: "missing-number", slideNumber, text: mention.raw }
+      );
+    }
+
+    // Claims on an unmapped slide are already covered by that issue
+    const claims = unmapped ? [] : extractClaims(slide.text);
+    for (const claim of claims) {
+      const claimTerms = Array.from(new Set(tokenize(claim)));
+      if (
+        claimTerms.length >= 3 &&
+        coverage(claimTerms, reportTerms) < MIN_TERM_COVERAGE
+      ) {
+        issues.push({ type: "unsupported-claim", slideNumber, text: claim });
+      }
+    }
+  }
+
+  return {
+    slidesDocument: documentNames.slides,
+    reportDocument: documentNames.report,
+    mappings,
+    issues,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Describe the issues as readable documentation gaps for the feedback page
+ */
+export function formatConsistencyIssues(
+  report: ConsistencyReport | undefined
+): string[] {
+  if (!report) return [];
+
+  return report.issues.map((issue) => {
+    const slide = `Slide ${issue.slideNumber}`;
+    switch (issue.type) {
+      case "contradicting-number":
+        return `${slide} states "${issue.text}" but the report gives "${issue.reportText}" (${issue.reportLocation}).`;
+      case "missing-number":
+        return `${slide} cites the figure "${issue.text}", which does not appear in the report.`;
+      case "unsupported-claim":
+        return `${slide} claims "${issue.text}", which the report does not support.`;
+      case "unmapped-slide":
+        return `${slide} presents material not covered in the report: "${issue.text}"`;
+    }
+  });
+}
+
+/**
+ * Find numbers worth checking: values with a unit, decimals, or multi-digit
+ * counts. Bare single digits (list numbering) and years are skipped.
+ */
+function extractNumbers(text: string): NumberMention[] {
+  const mentions: NumberMention[] = [];
+
+  for (const match of Array.from(text.matchAll(NUMBER_PATTERN))) {
+    const [raw, digits, unitText] = match;
+    const value = Number(digits.replace(/,/g, ""));
+    const unit = normalizeUnit(unitText);
+    const isYear = !unit && /^(19|20)\d{2}$/.test(digits);
+
+    if (Number.isNaN(value) || isYear) continue;
+    if (!unit && !digits.includes(".") && value < 10) continue;
+
+    const before = text.slice(
+      Math.max(0, (match.index || 0) - 60),
+      match.index
+    );
+    mentions.push({
+      raw: raw.trim(),
+      value,
+      unit,
+      context: tokenize(before.split(/[.;:\n]/).pop() || "").slice(
+        -CONTEXT_TERMS
+      ),
+    });
+  }
+
+  return mentions;
+}
+
+function normalizeUnit(unit: string | undefined): string {
+  if (!unit) return "";
+  const lower = unit.toLowerCase();
+  if (lower === "percent") return "%";
+  if (/^seconds?$/.test(lower)) return "s";
+  if (/^minutes?$/.test(lower)) return "min";
+  if (/^hours?$/.test(lower)) return "h";
+  return lower;
+}
+
+/**
+ * Sentences or bullet points that make an evaluative claim
+ */
+function extractClaims(text: string): string[] {
+  return text
+    .split(/[.!?]\s+|\s*[•▪●–]\s+|\s+-\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0 && CLAIM_PATTERN.test(sentence))
+    .map((sentence) => truncate(sentence, 160));
+}
+
+function coverage(terms: string[], available: Set<string>): number {
+  if (terms.length === 0) return 1;
+  return terms.filter((term) => available.has(term)).length / terms.length;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
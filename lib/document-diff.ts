@@ -0,0 +1,290 @@
+/**
+ * Section-level diff between two revisions of a document.
+ * Sections are matched by number and title (falling back to content overlap
+ * for renamed sections), then compared sentence by sentence.
+ */
+
+import {
+  flattenSections,
+  formatSectionLocation,
+  type DocumentSection,
+} from "@/lib/document-structure";
+import { tokenize } from "@/lib/retrieval";
+
+export type SectionChangeType = "added" | "removed" | "modified" | "unchanged";
+
+export interface SectionChange {
+  type: SectionChangeType;
+  title: string; // Heading in the new revision (old one for removed sections)
+  previousTitle?: string; // Set when a matched section was renamed
+  location: string;
+  wordsAdded: number;
+  wordsRemoved: number;
+  addedSentences: string[]; // Sample of new sentences
+  removedSentences: string[]; // Sample of deleted sentences
+}
+
+export interface RevisionDiff {
+  previousFilename: string;
+  currentFilename: string;
+  changes: SectionChange[]; // In the order of the new revision, removed last
+  counts: Record<SectionChangeType, number>;
+}
+
+// Renamed sections must share this fraction of their vocabulary
+const MIN_RENAME_SIMILARITY = 0.5;
+// Sentences kept per change for display and prompts
+const MAX_SAMPLE_SENTENCES = 3;
+// Edits below this many words (typo fixes) do not count as a modification
+const MIN_CHANGED_WORDS = 5;
+
+/**
+ * Compare the section trees of two revisions of the same document
+ */
+export function diffDocumentSections(
+  previous: DocumentSection[],
+  current: DocumentSection[],
+  filenames: { previous: string; current: string }
+): RevisionDiff {
+  const previousSections = flattenSections(previous).filter(isComparable);
+  const currentSections = flattenSections(current).filter(isComparable);
+  const matches = matchSections(previousSections, currentSections);
+  const matchedPrevious = new Set(matches.values());
+
+  const changes: SectionChange[] = currentSections.map((section) => {
+    const match = matches.get(section);
+    if (!match) {
+      const sentences = splitSentences(section.text);
+      return {
+        type: "added",
+        title: headingOf(section),
+        location: formatSectionLocation(section),
+        wordsAdded: section.wordCount,
+        wordsRemoved: 0,
+        addedSentences: sentences.slice(0, MAX_SAMPLE_SENTENCES).map(truncate),
+        removedSentences: [],
+      };
+    }
+    return compareSections(match, section);
+  });
+
+  for (const section of previousSections) {
+    if (matchedPrevious.has(section)) continue;
+    changes.push({
+      type: "removed",
+      title: headingOf(section),
+      location: formatSectionLocation(section),
+      wordsAdded: 0,
+      wordsRemoved: section.wordCount,
+      addedSentences: [],
+      removedSentences: splitSentences(section.text)
+        .slice(0, MAX_SAMPLE_SENTENCES)
+        .map(truncate),
+    });
+  }
+
+  const counts = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  changes.forEach((change) => counts[change.type]++);
+
+  return {
+    previousFilename: filenames.previous,
+    currentFilename: filenames.current,
+    changes,
+    counts,
+  };
+}
+
+/**
+ * Describe what changed for the question generation prompt.
+ * Returns an empty string when the revisions are identical.
+ */
+export function formatRevisionDiff(diff: RevisionDiff): string {
+  const changed = diff.changes.filter((change) => change.type !== "unchanged");
+  if (changed.length === 0) return "";
+
+  return changed
+    .map((change) => {
+      const heading =
+        change.type === "removed"
+          ? `REMOVED: ${change.title}`
+          : `${change.type.toUpperCase()}: ${change.title} (${
+              change.location
+            })${
+              change.previousTitle
+                ? `, previously "${change.previousTitle}"`
+                : ""
+            }`;
+      const added = change.addedSentences.map((sentence) => `  + ${sentence}`);
+      const removed = change.removedSentences.map(
+        (sentence) => `  - ${sentence}`
+      );
+      return [heading, ...added, ...removed].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * One-line summary such as "2 added, 3 modified, 1 removed"
+ */
+export function summarizeRevisionDiff(diff: RevisionDiff): string {
+  const parts = (["added", "modified", "removed"] as const)
+    .filter((type) => diff.counts[type] > 0)
+    .map((type) => `${diff.counts[type]} ${type}`);
+
+  return parts.length > 0 ? parts.join(", ") : "No changes";
+}
+
+function isComparable(section: DocumentSection): boolean {
+  return section.kind !== "front-matter";
+}
+
+function headingOf(section: DocumentSection): string {
+  return section.number ? `${section.number} ${section.title}` : section.title;
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Pair every current section with its previous counterpart, if any
+ */
+function matchSections(
+  previous: DocumentSection[],
+  current: DocumentSection[]
+): Map<DocumentSection, DocumentSection> {
+  const matches = new Map<DocumentSection, DocumentSection>();
+  const available = new Set(previous);
+
+  const matchBy = (
+    isMatch: (before: DocumentSection, after: DocumentSection) => boolean
+  ) => {
+    for (const section of current) {
+      if (matches.has(section)) continue;
+      const match = previous.find(
+        (candidate) => available.has(candidate) && isMatch(candidate, section)
+      );
+      if (match) {
+        matches.set(section, match);
+        available.delete(match);
+      }
+    }
+  };
+
+  // Same number and title, then same title after renumbering
+  matchBy(
+    (before, after) =>
+      before.number === after.number &&
+      normalizeTitle(before.title) === normalizeTitle(after.title)
+  );
+  matchBy(
+    (before, after) =>
+      normalizeTitle(before.title) === normalizeTitle(after.title)
+  );
+
+  // Renamed sections keep most of their vocabulary
+  const termsOf = new Map(
+    previous
+      .concat(current)
+      .map((section) => [section, new Set(tokenize(section.text))])
+  );
+  for (const section of current) {
+    if (matches.has(section)) continue;
+
+    let best: DocumentSection | undefined;
+    let bestSimilarity = MIN_RENAME_SIMILARITY;
+    available.forEach((candidate) => {
+      if (candidate.level !== section.level) return;
+      const similarity = jaccard(
+        termsOf.get(candidate)!,
+        termsOf.get(section)!
+      );
+      if (similarity >= bestSimilarity) {
+        best = candidate;
+        bestSimilarity = similarity;
+      }
+    });
+
+    if (best) {
+      matches.set(section, best);
+      available.delete(best);
+    }
+  }
+
+  return matches;
+}
+
+function compareSections(
+  before: DocumentSection,
+  after: DocumentSection
+): SectionChange {
+  const beforeSentences = splitSentences(before.text);
+  const afterSentences = splitSentences(after.text);
+  const beforeKeys = new Set(beforeSentences.map(normalizeSentence));
+  const afterKeys = new Set(afterSentences.map(normalizeSentence));
+
+  const added = afterSentences.filter(
+    (sentence) => !beforeKeys.has(normalizeSentence(sentence))
+  );
+  const removed = beforeSentences.filter(
+    (sentence) => !afterKeys.has(normalizeSentence(sentence))
+  );
+  const wordsAdded = countWords(added);
+  const wordsRemoved = countWords(removed);
+  const renamed =
+    normalizeTitle(before.title) !== normalizeTitle(after.title)
+      ? headingOf(before)
+      : undefined;
+
+  return {
+    type:
+      wordsAdded + wordsRemoved >= MIN_CHANGED_WORDS || renamed
+        ? "modified"
+        : "unchanged",
+    title: headingOf(after),
+    ...(renamed ? { previousTitle: renamed } : {}),
+    location: formatSectionLocation(after),
+    wordsAdded,
+    wordsRemoved,
+    addedSentences: added.slice(0, MAX_SAMPLE_SENTENCES).map(truncate),
+    removedSentences: removed.slice(0, MAX_SAMPLE_SENTENCES).map(truncate),
+  };
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?:[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function normalizeSentence(sentence: string): string {
+  return sentence
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?]$/, "");
+}
+
+function countWords(sentences: string[]): number {
+  return sentences.reduce(
+    (total, sentence) => total + sentence.split(/\s+/).length,
+    0
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  // Empty sections (chapter headings without body text) never match
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((term) => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function truncate(text: string): string {
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
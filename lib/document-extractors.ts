@@ -0,0 +1,604 @@
+/**
+ * Format-specific text extractors shared by the client-side document processor
+ * and the server-side upload action. Every extractor works on an ArrayBuffer
+ * and returns the text page by page (or slide by slide) so callers can keep
+ * track of where a passage came from.
+ */
+
+import type JSZip from "jszip";
+
+import {
+  findMainLatexFile,
+  latexProjectToText,
+  latexToText,
+} from "@/lib/latex-extractor";
+import { createZipReader, type ZipReader } from "@/lib/zip-reader";
+
+export type ExtractionUnit = "page" | "slide" | "document";
+
+export type DocumentFormat =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "odt"
+  | "odp"
+  | "tex"
+  | "latex-archive"
+  | "markdown"
+  | "text";
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ExtractionResult {
+  unit: ExtractionUnit;
+  pages: ExtractedPage[];
+  // Set when headings are marked explicitly with "#" (Markdown, LaTeX, ODT)
+  headingStyle?: "markdown";
+}
+
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number; // Tesseract mean confidence, 0-100
+}
+
+export interface OcrSummary {
+  pages: Array<{ pageNumber: number; confidence: number }>;
+  averageConfidence: number;
+  lowConfidence: boolean;
+  skippedPages: number[]; // Pages without text that OCR did not recover
+}
+
+// Pages with less text than this are treated as having no text layer
+const MIN_TEXT_LAYER_CHARS = 20;
+// Below this mean confidence the UI warns that extraction quality is low
+export const LOW_OCR_CONFIDENCE = 70;
+// Limits on what zipped formats (PPTX, ODT/ODP, LaTeX projects) may inflate
+// to, per entry and per file, so a zip bomb is never unpacked in full
+const MAX_ZIP_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_ZIP_TOTAL_BYTES = 100 * 1024 * 1024;
+
+type PdfJsModule = typeof import("pdfjs-dist/webpack");
+
+// File extensions accepted for upload, used for the file input and validation
+export const ALLOWED_FILE_EXTENSIONS = [
+  ".pdf",
+  ".docx",
+  ".pptx",
+  ".odt",
+  ".odp",
+  ".tex",
+  ".zip",
+  ".md",
+  ".markdown",
+  ".txt",
+];
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  pptx: "pptx",
+  odt: "odt",
+  odp: "odp",
+  tex: "tex",
+  zip: "latex-archive",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    "pptx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.oasis.opendocument.presentation": "odp",
+  "application/x-tex": "tex",
+  "text/x-tex": "tex",
+  "application/zip": "latex-archive",
+  "application/x-zip-compressed": "latex-archive",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/plain": "text",
+};
+
+/**
+ * Work out the document format from the file extension, falling back to
+ * the MIME type. Browsers report .tex and .md files inconsistently (often
+ * as text/plain or an empty string), so the extension takes precedence.
+ */
+export function detectDocumentFormat(
+  fileType: string,
+  filename: string
+): DocumentFormat | null {
+  const extension = filename.includes(".")
+    ? filename.split(".").pop()!.toLowerCase()
+    : "";
+  return (
+    FORMATS_BY_EXTENSION[extension] || FORMATS_BY_MIME_TYPE[fileType] || null
+  );
+}
+
+/**
+ * Extract page-by-page text from a supported document buffer.
+ * Throws an Error with a readable message when the file cannot be parsed.
+ */
+export async function extractDocumentPages(
+  data: ArrayBuffer,
+  fileType: string,
+  filename: string
+): Promise<ExtractionResult> {
+  const format = detectDocumentFormat(fileType, filename);
+
+  switch (format) {
+    case "pdf":
+      return { unit: "page", pages: await extractPagesFromPDF(data) };
+    case "docx":
+      return { unit: "document", pages: await extractPagesFromDOCX(data) };
+    case "pptx":
+      return { unit: "slide", pages: await extractPagesFromPPTX(data) };
+    case "odt":
+      return {
+        unit: "document",
+        pages: await extractPagesFromODT(data),
+        headingStyle: "markdown",
+      };
+    case "odp":
+      return { unit: "slide", pages: await extractPagesFromODP(data) };
+    case "tex":
+      return {
+        unit: "document",
+        pages: [{ pageNumber: 1, text: latexToText(decodeText(data)) }],
+        headingStyle: "markdown",
+      };
+    case "latex-archive":
+      return {
+        unit: "document",
+        pages: await extractPagesFromLatexArchive(data),
+        headingStyle: "markdown",
+      };
+    case "markdown":
+      return {
+        unit: "document",
+        pages: [{ pageNumber: 1, text: markdownToText(decodeText(data)) }],
+        headingStyle: "markdown",
+      };
+    case "text":
+      return {
+        unit: "document",
+        pages: [{ pageNumber: 1, text: decodeText(data).trim() }],
+      };
+    default:
+      throw new Error(
+        `Unsupported file type "${fileType || filename}" for ${filename}.`
+      );
+  }
+}
+
+/**
+ * Join extracted pages into a single string with [Page n] / [Slide n] markers
+ */
+export function formatExtractedText(result: ExtractionResult): string {
+  if (result.unit === "document") {
+    return result.pages.map((page) => page.text).join("\n\n");
+  }
+
+  const label = result.unit === "slide" ? "Slide" : "Page";
+  return result.pages
+    .filter((page) => page.text.trim().length > 0)
+    .map((page) => `[${label} ${page.pageNumber}]\n${page.text}`)
+    .join("\n\n");
+}
+
+/**
+ * List the PDF pages that have no usable text layer (scanned pages)
+ */
+export function findPagesWithoutText(result: ExtractionResult): number[] {
+  if (result.unit !== "page") return [];
+  return result.pages
+    .filter((page) => page.text.trim().length < MIN_TEXT_LAYER_CHARS)
+    .map((page) => page.pageNumber);
+}
+
+/**
+ * Replace scanned pages with their OCR text and summarize recognition quality
+ */
+export function applyOcrResults(
+  result: ExtractionResult,
+  ocrPages: OcrPageResult[]
+): { extraction: ExtractionResult; ocr: OcrSummary } {
+  const recognized = new Map(ocrPages.map((page) => [page.pageNumber, page]));
+  const missing = findPagesWithoutText(result);
+
+  const pages = result.pages.map((page) => {
+    const ocrPage = recognized.get(page.pageNumber);
+    return ocrPage && ocrPage.text.length > page.text.trim().length
+      ? { pageNumber: page.pageNumber, text: ocrPage.text }
+      : page;
+  });
+
+  const averageConfidence =
+    ocrPages.length > 0
+      ? Math.round(
+          ocrPages.reduce((sum, page) => sum + page.confidence, 0) /
+            ocrPages.length
+        )
+      : 0;
+
+  return {
+    extraction: { ...result, pages },
+    ocr: {
+      pages: ocrPages.map(({ pageNumber, confidence }) => ({
+        pageNumber,
+        confidence,
+      })),
+      averageConfidence,
+      lowConfidence:
+        ocrPages.length === 0 ||
+        ocrPages.some((page) => page.confidence < LOW_OCR_CONFIDENCE),
+      skippedPages: missing.filter(
+        (pageNumber) => !recognized.get(pageNumber)?.text
+      ),
+    },
+  };
+}
+
+/**
+ * Load PDF.js for the current environment. The browser uses the webpack
+ * entry (which wires up the worker), the server uses the legacy build
+ * because it runs in Node without a DOM.
+ */
+async function loadPdfJs(): Promise<PdfJsModule> {
+  if (typeof window === "undefined") {
+    const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.js");
+    return pdfjsLib as unknown as PdfJsModule;
+  }
+
+  // Using the non-worker version to avoid canvas issues on Vercel
+  const pdfjsLib = await import("pdfjs-dist/webpack");
+
+  // Don't set the worker source in browser environment to avoid issues
+  if (pdfjsLib.GlobalWorkerOptions) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = "";
+  }
+
+  return pdfjsLib;
+}
+
+/**
+ * Extract text from each PDF page using PDF.js, keeping line breaks
+ */
+async function extractPagesFromPDF(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const pdfjsLib = await loadPdfJs();
+
+  let pdf;
+  try {
+    // PDF.js may detach the buffer it is given, so hand it a copy
+    pdf = await pdfjsLib.getDocument({ data: data.slice(0) }).promise;
+  } catch (error) {
+    throw new Error(
+      `The PDF could not be parsed: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+
+  const pages: ExtractedPage[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+
+    let pageText = "";
+    for (const item of content?.items || []) {
+      // Marked-content items have no str property
+      if (typeof item !== "object" || item === null || !("str" in item)) {
+        continue;
+      }
+      pageText += item.str + (item.hasEOL ? "\n" : " ");
+    }
+
+    pages.push({ pageNumber: i, text: pageText.trim() });
+  }
+
+  return pages;
+}
+
+/**
+ * Extract text from DOCX using mammoth.js. Word files carry no reliable
+ * page information, so the whole document is returned as a single page.
+ */
+async function extractPagesFromDOCX(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const mammoth = await import("mammoth");
+
+  try {
+    // mammoth's Node build reads Buffers, its browser build ArrayBuffers
+    const input =
+      typeof window === "undefined"
+        ? { buffer: Buffer.from(data) }
+        : { arrayBuffer: data };
+    const result = await mammoth.extractRawText(input);
+    return [{ pageNumber: 1, text: result.value.trim() }];
+  } catch (error) {
+    throw new Error(
+      `The DOCX file could not be parsed: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Extract text from PPTX slides.
+ * There is no PPTX library for the browser, so we read the slide XML
+ * directly with JSZip.
+ */
+async function extractPagesFromPPTX(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const JSZip = (await import("jszip")).default;
+
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(
+      `The PPTX file could not be parsed: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+
+  // PPTX files store slide content in ppt/slides/slide*.xml
+  const slideRegex = /^ppt\/slides\/slide([0-9]+)\.xml$/;
+  const slideFiles = Object.keys(zip.files)
+    .map((name) => ({ name, match: name.match(slideRegex) }))
+    .filter((entry) => entry.match)
+    .map((entry) => ({ name: entry.name, number: Number(entry.match![1]) }))
+    // Sort numerically so slide10 comes after slide9, not after slide1
+    .sort((a, b) => a.number - b.number);
+
+  const pages: ExtractedPage[] = [];
+  const reader = createArchiveReader("PPTX");
+
+  for (const slideFile of slideFiles) {
+    const content = await readArchiveText(
+      reader,
+      zip.files[slideFile.name],
+      "PPTX"
+    );
+
+    // Simple regex to extract text from XML tags
+    // This is a basic approach and won't handle all cases perfectly
+    const textMatches = content.match(/<a:t>(.+?)<\/a:t>/g) || [];
+    const slideText = textMatches
+      .map((match) => decodeXmlEntities(match.replace(/<a:t>|<\/a:t>/g, "")))
+      .join(" ");
+
+    pages.push({ pageNumber: slideFile.number, text: slideText.trim() });
+  }
+
+  return pages;
+}
+
+/**
+ * Extract text from an OpenDocument text file (.odt).
+ * Headings (<text:h>) keep their outline level as "#" markers so that
+ * section detection can use them directly.
+ */
+async function extractPagesFromODT(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const content = await readOpenDocumentContent(data, "ODT");
+
+  const blocks: string[] = [];
+  const blockRegex = /<text:(h|p)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/text:\1>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockRegex.exec(content)) !== null) {
+    const [, tag, attributes, inner] = match;
+    const text = odfInlineText(inner || "").trim();
+    if (!text) continue;
+
+    if (tag === "h") {
+      const level = Number(
+        attributes.match(/text:outline-level="(\d+)"/)?.[1] || 1
+      );
+      blocks.push(`${"#".repeat(Math.min(Math.max(level, 1), 6))} ${text}`);
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  return [{ pageNumber: 1, text: blocks.join("\n") }];
+}
+
+/**
+ * Extract text from OpenDocument presentation slides (.odp),
+ * one <draw:page> per slide
+ */
+async function extractPagesFromODP(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const content = await readOpenDocumentContent(data, "ODP");
+
+  const slides = content.match(/<draw:page\b[\s\S]*?<\/draw:page>/g) || [];
+
+  return slides.map((slide, index) => {
+    const paragraphs =
+      slide.match(/<text:(?:p|h)\b[^>]*>[\s\S]*?<\/text:(?:p|h)>/g) || [];
+    const slideText = paragraphs
+      .map((paragraph) => odfInlineText(paragraph).trim())
+      .filter(Boolean)
+      .join(" ");
+
+    return { pageNumber: index + 1, text: slideText };
+  });
+}
+
+/**
+ * Read content.xml from an OpenDocument package
+ */
+async function readOpenDocumentContent(
+  data: ArrayBuffer,
+  label: string
+): Promise<string> {
+  const JSZip = (await import("jszip")).default;
+
+  let contentFile;
+  try {
+    const zip = await JSZip.loadAsync(data);
+    contentFile = zip.file("content.xml");
+    if (!contentFile) {
+      throw new Error("content.xml is missing");
+    }
+  } catch (error) {
+    throw new Error(
+      `The ${label} file could not be parsed: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+  return readArchiveText(createArchiveReader(label), contentFile, label);
+}
+
+/**
+ * Convert the inline markup of an OpenDocument paragraph to plain text
+ */
+function odfInlineText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_match, count: string) =>
+        " ".repeat(Number(count))
+      )
+      .replace(/<text:s\s*\/>/g, " ")
+      .replace(/<text:tab\s*\/>/g, "\t")
+      .replace(/<text:line-break\s*\/>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+function createArchiveReader(label: string): ZipReader {
+  return createZipReader(
+    MAX_ZIP_TOTAL_BYTES,
+    `The ${label} file is too large once unpacked.`
+  );
+}
+
+// An entry of a zipped document as text, within the size limits
+async function readArchiveText(
+  reader: ZipReader,
+  entry: JSZip.JSZipObject,
+  label: string
+): Promise<string> {
+  const text = await reader.readText(entry, MAX_ZIP_ENTRY_BYTES);
+  if (text === null) {
+    throw new Error(
+      `The ${label} file is too large once unpacked: ${entry.name} is over ${
+        MAX_ZIP_ENTRY_BYTES / (1024 * 1024)
+      }MB.`
+    );
+  }
+  return text;
+}
+
+/**
+ * Extract text from a zipped LaTeX project (e.g. an Overleaf download),
+ * following \input / \include from the main file
+ */
+async function extractPagesFromLatexArchive(
+  data: ArrayBuffer
+): Promise<ExtractedPage[]> {
+  const JSZip = (await import("jszip")).default;
+
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(
+      `The ZIP archive could not be opened: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`
+    );
+  }
+
+  const files = new Map<string, string>();
+  const reader = createArchiveReader("ZIP");
+  for (const entry of Object.values(zip.files)) {
+    // Skip folders and the metadata macOS adds to archives; .bib files
+    // supply the reference list
+    if (entry.dir || !/\.(tex|bib)$/.test(entry.name)) continue;
+    if (entry.name.startsWith("__MACOSX/")) continue;
+    files.set(entry.name, await readArchiveText(reader, entry, "ZIP"));
+  }
+
+  const mainPath = findMainLatexFile(files);
+  if (!mainPath) {
+    throw new Error(
+      !Array.from(files.keys()).some((path) => path.endsWith(".tex"))
+        ? "The ZIP archive does not contain any .tex files."
+        : "Could not find the main .tex file (the one with \\documentclass) in the ZIP archive."
+    );
+  }
+
+  return [{ pageNumber: 1, text: latexProjectToText(files, mainPath) }];
+}
+
+/**
+ * Reduce Markdown to plain text, keeping "#" headings for section detection
+ */
+function markdownToText(source: string): string {
+  return (
+    source
+      .replace(/\r\n/g, "\n")
+      // YAML front matter
+      .replace(/^---\n[\s\S]*?\n---\n/, "")
+      // Setext headings ("Title\n=====") become ATX headings
+      .replace(/^(.+)\n=+[ \t]*$/gm, "# $1")
+      .replace(/^(.+)\n-+[ \t]*$/gm, "## $1")
+      // Code fences are dropped but their content is kept
+      .replace(/^(```|~~~).*$/gm, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/<[^>]+>/g, "")
+      .replace(/(\*\*|__)(.+?)\1/g, "$2")
+      .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_]/g, "$1$2")
+      .replace(/`([^`]+)`/g, "$1")
+      // Table pipes and separator rows
+      .replace(/^[ \t]*\|?[ \t:|-]+\|[ \t:|-]*$/gm, "")
+      .replace(/[ \t]*\|[ \t]*/g, "  ")
+      .replace(/^>\s?/gm, "")
+      .replace(/^\s*[*+]\s+/gm, "- ")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/**
+ * Decode a UTF-8 text file, dropping a byte order mark if present
+ */
+function decodeText(data: ArrayBuffer): string {
+  return new TextDecoder("utf-8").decode(data).replace(/^\uFEFF/, "");
+}
+
+/**
+ * Decode the predefined XML entities found in Office XML text runs
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -6,30 +6,97 @@
 import LZString from "lz-string";
 import { sha256 } from "js-sha256";
 
+import {
+  extractCaptions,
+  formatCaptionLocation,
+  type DocumentCaption,
+} from "@/lib/captions";
+import {
+  applyOcrResults,
+  detectDocumentFormat,
+  extractDocumentPages,
+  findPagesWithoutText,
+  type ExtractionResult,
+  type OcrSummary,
+} from "@/lib/document-extractors";
+import {
+  findStoredDocument,
+  recognizeScannedPages,
+  saveStoredDocument,
+} from "@/lib/actions/document.action";
+import {
+  detectSections,
+  flattenSections,
+  formatSectionLocation,
+  type DocumentSection,
+} from "@/lib/document-structure";
+import type { DocumentSummary } from "@/lib/summarizer";
+
 // Maximum file size in bytes (5MB)
 export const MAX_FILE_SIZE = 5 * 1024 * 1024;
-// Allowed file types
-export const ALLOWED_FILE_TYPES = [
-  "application/pdf",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document", // docx
-  "application/vnd.openxmlformats-officedocument.presentationml.presentation", // pptx
-];
+// Shown whenever a file's format is not one we can extract
+export const UNSUPPORTED_FILE_MESSAGE =
+  "Unsupported file type. Please upload a PDF, DOCX, PPTX, ODT, ODP, LaTeX (.tex or .zip), Markdown or TXT file.";
+// Estimated tokens per chunk; small enough that several retrieved passages
+// fit in a prompt and each chunk can be summarized in one call
+const CHUNK_SIZE_TOKENS = 500;
+// Average characters per token in English prose
+export const CHARS_PER_TOKEN = 4;
+// Caption chunks use this id prefix; they repeat text from their section
+export const CAPTION_CHUNK_PREFIX = "fig";
+
+export interface DocumentChunk {
+  id: string;
+  text: string;
+  sectionId?: string;
+  sectionTitle?: string;
+  location?: string; // Citable location, e.g. "Section 3.2, p.14"
+  documentId?: string; // Session document the chunk belongs to
+  documentName?: string;
+  documentKind?: DocumentKind;
+}
 
 export interface ProcessedDocument {
   text: string;
+  sections: DocumentSection[]; // Section tree (chapters with nested subsections)
+  captions: DocumentCaption[]; // Figure and table captions
+  summary?: DocumentSummary; // Set once the document has been summarized
   metadata: {
-    hash: string;
-    compressed: string;
+    hash: string; // SHA-256 of the extracted text
+    fileHash?: string; // SHA-256 of the uploaded file, the key in "documents"
+    compressed: string; // LZ-compressed text, base64 encoded
     filename: string;
     fileType: string;
-    chunks: string[];
+    chunks: DocumentChunk[];
     pageCount?: number;
     wordCount: number;
+    ocr?: OcrSummary; // Present when scanned pages were recognized with OCR
+    reused?: boolean; // Loaded from the documents collection, not extracted
+    partial?: boolean; // OCR failed on some pages; not stored for reuse
   };
   success: boolean;
   error?: string;
 }
 
+/**
+ * A processed document as persisted in the "documents" collection,
+ * keyed by the hash of the uploaded file
+ */
+export interface StoredDocument {
+  hash: string;
+  textHash: string;
+  filename: string;
+  fileType: string;
+  compressedText: string;
+  compressedSections: string; // LZ-compressed JSON of the section tree
+  wordCount: number;
+  pageCount?: number;
+  ocr?: OcrSummary;
+  captions?: DocumentCaption[];
+  summary?: DocumentSummary;
+  chunks: DocumentChunk[];
+}
+
 /**
  * Process a document file client-side to extract text
  */
@@ -37,232 +104,235 @@ export async function processDocument(file: File): Promise<ProcessedDocument> {
   try {
     // Validate file size
     if (file.size > MAX_FILE_SIZE) {
-      return {
-        text: "",
-        metadata: {
-          hash: "",
-          compressed: "",
-          filename: file.name,
-          fileType: file.type,
-          chunks: [],
-          wordCount: 0,
-        },
-        success: false,
-        error: "File is too large. Please upload a file less than 5MB.",
-      };
+      return failedDocument(
+        file,
+        "File is too large. Please upload a file less than 5MB."
+      );
     }
 
     // Validate file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return {
-        text: "",
-        metadata: {
-          hash: "",
-          compressed: "",
-          filename: file.name,
-          fileType: file.type,
-          chunks: [],
-          wordCount: 0,
-        },
-        success: false,
-        error:
-          "Unsupported file type. Please upload a PDF, DOCX, or PPTX file.",
-      };
+    if (!detectDocumentFormat(file.type, file.name)) {
+      return failedDocument(file, UNSUPPORTED_FILE_MESSAGE);
     }
 
     // Extract text based on file type
     let extractedText = "";
+    let extraction: ExtractionResult = { unit: "document", pages: [] };
+    let ocr: OcrSummary | undefined;
+    let fileHash: string | undefined;
+    let partial = false;
 
     try {
       console.log(`Extracting text from ${file.type} file: ${file.name}`);
 
-      if (file.type === "application/pdf") {
-        extractedText = await extractTextFromPDF(file);
-      } else if (file.type.includes("wordprocessingml.document")) {
-        extractedText = await extractTextFromDOCX(file);
-      } else if (file.type.includes("presentationml.presentation")) {
-        extractedText = await extractTextFromPPTX(file);
+      const fileBuffer = await file.arrayBuffer();
+      fileHash = sha256(fileBuffer);
+      extraction = await extractDocumentPages(fileBuffer, file.type, file.name);
+
+      // Scanned PDFs have no text layer; recover those pages with server-side OCR
+      const scannedPages = findPagesWithoutText(extraction);
+      if (scannedPages.length > 0) {
+        console.log(
+          `Running OCR on ${scannedPages.length} scanned page(s) of ${file.name}`
+        );
+        const recognition = await recognizeScannedPages({
+          fileBuffer,
+          pageNumbers: scannedPages,
+        });
+        if (!recognition.success) {
+          console.warn("OCR failed:", recognition.error);
+          partial = true;
+        }
+        ({ extraction, ocr } = applyOcrResults(extraction, recognition.pages));
       }
 
+      extractedText = extraction.pages.map((page) => page.text).join("\n\n");
+
       // Check if text extraction was successful
       if (!extractedText || extractedText.trim().length === 0) {
         console.warn(`No text extracted from file: ${file.name}`);
-        extractedText = `[No text could be extracted from ${file.name}. The file might be scanned or contain only images.]`;
+        return failedDocument(
+          file,
+          ocr
+            ? `No text could be extracted from ${file.name}, even with OCR. The scan may be too low quality to read.`
+            : `No text could be extracted from ${file.name}. The file might be scanned or contain only images.`
+        );
       }
     } catch (extractionError) {
       console.error("Error during text extraction:", extractionError);
-      // Provide fallback text
-      extractedText = `[Error extracting text from ${file.name}: ${
-        extractionError instanceof Error
-          ? extractionError.message
-          : "Unknown extraction error"
-      }]`;
+      return failedDocument(
+        file,
+        `Error extracting text from ${file.name}: ${
+          extractionError instanceof Error
+            ? extractionError.message
+            : "Unknown extraction error"
+        }`
+      );
     }
 
+    // Detect headings before whitespace is collapsed, while lines still exist
+    const sections = detectSections(
+      extraction.pages,
+      extraction.unit,
+      extraction.headingStyle
+    );
+    const captions = extractCaptions(
+      extraction.pages,
+      extraction.unit,
+      sections
+    );
+
     // Optimize text
     const optimizedText = optimizeText(extractedText);
     const wordCount = countWords(optimizedText);
     const textHash = sha256(optimizedText);
-    const compressedText = LZString.compressToUTF16(optimizedText);
-    const chunks = splitIntoChunks(optimizedText, 1500);
+    const compressedText = LZString.compressToBase64(optimizedText);
+    const chunks = buildDocumentChunks(sections, captions);
 
     return {
       text: optimizedText,
+      sections,
+      captions,
       metadata: {
         hash: textHash,
+        fileHash,
         compressed: compressedText,
         filename: file.name,
         fileType: file.type,
         chunks: chunks,
+        pageCount:
+          extraction.unit === "document" ? undefined : extraction.pages.length,
         wordCount: wordCount,
+        ocr,
+        ...(partial ? { partial } : {}),
       },
       success: true,
     };
   } catch (error) {
     console.error("Error processing document:", error);
-    return {
-      text: "",
-      metadata: {
-        hash: "",
-        compressed: "",
-        filename: file.name,
-        fileType: file.type,
-        chunks: [],
-        wordCount: 0,
-      },
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Unknown error processing document",
-    };
+    return failedDocument(
+      file,
+      error instanceof Error
+        ? error.message
+        : "Unknown error processing document"
+    );
   }
 }
 
 /**
- * Extract text from PDF using PDF.js
- * This requires PDF.js to be loaded in the client
+ * Process a document, reusing the stored result when the same file was
+ * uploaded before. Complete extractions are stored for next time; failed
+ * or partial ones are not, so the next upload tries again.
  */
-async function extractTextFromPDF(file: File): Promise<string> {
-  // Dynamic import of PDF.js using a more compatible path
+export async function loadOrProcessDocument(
+  file: File
+): Promise<ProcessedDocument> {
   try {
-    // Using the non-worker version to avoid canvas issues on Vercel
-    const pdfjsLib = await import("pdfjs-dist/webpack");
-
-    // Don't set the worker source in browser environment to avoid issues
-    if (pdfjsLib.GlobalWorkerOptions) {
-      pdfjsLib.GlobalWorkerOptions.workerSrc = "";
+    const fileHash = sha256(await file.arrayBuffer());
+    const stored = await findStoredDocument(fileHash);
+    if (stored) {
+      console.log(`Reusing stored document ${fileHash} for ${file.name}`);
+      return restoreStoredDocument(stored, file);
     }
+  } catch (error) {
+    // A failed lookup only costs a fresh extraction
+    console.warn("Could not look up stored document:", error);
+  }
 
-    return new Promise<string>(async (resolve) => {
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-        const pdf = await loadingTask.promise;
-        let text = "";
-
-        // Extract text from each page
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const content = await page.getTextContent();
-
-          // Use a safer approach that doesn't rely on specific types
-          let pageText = "";
-          if (content && content.items) {
-            // Convert each item to string safely, using type guards
-            pageText = content.items
-              .map((item: unknown) => {
-                // Check if the item has a str property
-                if (
-                  typeof item === "object" &&
-                  item !== null &&
-                  "str" in item
-                ) {
-                  return (item as { str: string }).str;
-                }
-                return "";
-              })
-              .join(" ");
-          }
-
-          text += pageText + "\n\n";
-        }
-
-        resolve(text);
-      } catch (error) {
-        console.error("Error extracting PDF text:", error);
-        // Don't reject, provide empty text instead to continue the process
-        resolve("[PDF text extraction failed]");
-      }
-    });
-  } catch (importError) {
-    console.error("Error importing PDF.js:", importError);
-    return "[PDF library could not be loaded]";
+  const processed = await processDocument(file);
+  if (
+    processed.success &&
+    !processed.metadata.partial &&
+    processed.metadata.fileHash
+  ) {
+    const result = await saveStoredDocument(toStoredDocument(processed));
+    if (!result.success) {
+      console.warn("Could not store processed document:", result.error);
+    }
   }
+  return processed;
 }
 
 /**
- * Extract text from DOCX using mammoth.js
+ * Load a previously processed document by the hash of its file
  */
-async function extractTextFromDOCX(file: File): Promise<string> {
-  try {
-    // Dynamic import of mammoth.js
-    const mammoth = await import("mammoth");
-
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.extractRawText({ arrayBuffer });
-      return result.value;
-    } catch (error) {
-      console.error("Error extracting DOCX text:", error);
-      return "[DOCX text extraction failed]";
-    }
-  } catch (importError) {
-    console.error("Error importing mammoth.js:", importError);
-    return "[DOCX extraction library could not be loaded]";
-  }
+export async function loadStoredDocument(
+  fileHash: string
+): Promise<ProcessedDocument | null> {
+  const stored = await findStoredDocument(fileHash);
+  return stored ? restoreStoredDocument(stored) : null;
 }
 
 /**
- * Extract text from PPTX
- * Since we don't have a direct library for PPTX extraction in the browser,
- * we'll use a basic approach with JSZip to extract xml content
+ * Convert a processed document into its stored form
  */
-async function extractTextFromPPTX(file: File): Promise<string> {
-  try {
-    // Dynamic import of JSZip
-    const JSZip = (await import("jszip")).default;
-
-    const arrayBuffer = await file.arrayBuffer();
-    const zip = await JSZip.loadAsync(arrayBuffer);
-
-    // PPTX files store slide content in ppt/slides/slide*.xml
-    const slideRegex = /ppt\/slides\/slide[0-9]+\.xml/;
-    const slideFiles = Object.keys(zip.files).filter((name) =>
-      slideRegex.test(name)
-    );
-
-    let allText = "";
-
-    // Extract text from each slide
-    for (const slideFile of slideFiles) {
-      const content = await zip.files[slideFile].async("string");
-
-      // Simple regex to extract text from XML tags
-      // This is a basic approach and won't handle all cases perfectly
-      const textMatches = content.match(/<a:t>(.+?)<\/a:t>/g) || [];
-      const slideText = textMatches
-        .map((match) => match.replace(/<a:t>|<\/a:t>/g, ""))
-        .join(" ");
+export function toStoredDocument(document: ProcessedDocument): StoredDocument {
+  return {
+    hash: document.metadata.fileHash || "",
+    textHash: document.metadata.hash,
+    filename: document.metadata.filename,
+    fileType: document.metadata.fileType,
+    compressedText: document.metadata.compressed,
+    compressedSections: LZString.compressToBase64(
+      JSON.stringify(document.sections)
+    ),
+    wordCount: document.metadata.wordCount,
+    pageCount: document.metadata.pageCount,
+    ocr: document.metadata.ocr,
+    captions: document.captions,
+    chunks: document.metadata.chunks,
+  };
+}
 
-      allText += slideText + "\n\n";
-    }
+/**
+ * Rebuild a processed document from its stored form
+ */
+function restoreStoredDocument(
+  stored: StoredDocument,
+  file?: File
+): ProcessedDocument {
+  return {
+    text: LZString.decompressFromBase64(stored.compressedText) || "",
+    sections: JSON.parse(
+      LZString.decompressFromBase64(stored.compressedSections) || "[]"
+    ),
+    captions: stored.captions || [],
+    summary: stored.summary,
+    metadata: {
+      hash: stored.textHash,
+      fileHash: stored.hash,
+      compressed: stored.compressedText,
+      filename: file?.name || stored.filename,
+      fileType: file?.type || stored.fileType,
+      chunks: stored.chunks,
+      pageCount: stored.pageCount,
+      wordCount: stored.wordCount,
+      ocr: stored.ocr,
+      reused: true,
+    },
+    success: true,
+  };
+}
 
-    return allText || "[No text found in PPTX file]";
-  } catch (error) {
-    console.error("Error extracting PPTX text:", error);
-    return "[PPTX text extraction failed]";
-  }
+/**
+ * An empty result for a file that could not be processed
+ */
+function failedDocument(file: File, error: string): ProcessedDocument {
+  return {
+    text: "",
+    sections: [],
+    captions: [],
+    metadata: {
+      hash: "",
+      compressed: "",
+      filename: file.name,
+      fileType: file.type,
+      chunks: [],
+      wordCount: 0,
+    },
+    success: false,
+    error,
+  };
 }
 
 /**
@@ -280,24 +350,90 @@ function countWords(text: string): number {
 }
 
 /**
- * Split text into chunks of approximately maxTokens
- * This is a simple implementation that uses spaces as token boundaries
+ * Split every section into chunks that remember where they came from,
+ * so retrieved passages can be cited by section and page. Each caption
+ * gets its own chunk so the examiner can refer to figures by number.
+ */
+function buildDocumentChunks(
+  sections: DocumentSection[],
+  captions: DocumentCaption[]
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of flattenSections(sections)) {
+    if (section.text.trim().length === 0) continue;
+
+    const sectionTitle = section.number
+      ? `${section.number} ${section.title}`
+      : section.title;
+
+    for (const text of splitIntoChunks(section.text, CHUNK_SIZE_TOKENS)) {
+      chunks.push({
+        id: `c${chunks.length}`,
+        text,
+        sectionId: section.id,
+        sectionTitle,
+        location: formatSectionLocation(section),
+      });
+    }
+  }
+
+  captions.forEach((caption, index) => {
+    chunks.push({
+      id: `${CAPTION_CHUNK_PREFIX}${index}`,
+      text: `${caption.label}: ${caption.text}`,
+      sectionId: caption.sectionId,
+      sectionTitle: caption.label,
+      location: formatCaptionLocation(caption),
+    });
+  });
+
+  return chunks;
+}
+
+/**
+ * Rough token count for budgeting prompts; character-based estimates match
+ * Gemini and GPT tokenizers closely enough for English prose
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split text into chunks of at most maxTokens estimated tokens, breaking
+ * between sentences. Sentences longer than a chunk are split between words.
  */
 function splitIntoChunks(text: string, maxTokens: number): string[] {
-  const words = text.split(/\s+/);
+  const sentences = text
+    .replace(/([.!?])\s+/g, "$1\n")
+    .split("\n")
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
   const chunks: string[] = [];
-  let currentChunk: string[] = [];
+  let current = "";
+
+  const pushPart = (part: string) => {
+    const candidate = current ? `${current} ${part}` : part;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = part;
+    } else {
+      current = candidate;
+    }
+  };
 
-  for (const word of words) {
-    if (currentChunk.length >= maxTokens) {
-      chunks.push(currentChunk.join(" "));
-      currentChunk = [];
+  for (const sentence of sentences) {
+    if (estimateTokens(sentence) <= maxTokens) {
+      pushPart(sentence);
+      continue;
+    }
+    for (const word of sentence.split(/\s+/)) {
+      pushPart(word);
     }
-    currentChunk.push(word);
   }
 
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk.join(" "));
+  if (current) {
+    chunks.push(current);
   }
 
   return chunks;
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  DOTTED_CONTENTS_PAGE,
+  REPORT_WITH_TOC,
+} from "@/lib/__fixtures__/report-with-toc";
+import {
+  detectSections,
+  flattenSections,
+  formatSectionLocation,
+} from "@/lib/document-structure";
+
+const outline = (pages = REPORT_WITH_TOC, unit: "page" | "document" = "page") =>
+  flattenSections(detectSections(pages, unit))
+    .filter((section) => section.kind !== "front-matter")
+    .map((section) => `${section.number} ${formatSectionLocation(section)}`);
+
+test("skips a table of contents page", () => {
+  assert.deepEqual(outline(), [
+    "1 Section 1, p.3",
+    "2 Section 2, p.4",
+    "2.1 Section 2.1, p.4",
+    "3 Section 3, p.5",
+    "4 Section 4, p.6",
+  ]);
+});
+
+test("keeps chapter text out of the contents page", () => {
+  const [front, introduction] = detectSections(REPORT_WITH_TOC, "page");
+  assert.equal(front.kind, "front-matter");
+  assert.equal(front.pageEnd, 2);
+  assert.match(introduction.text, /fixed schedule/);
+});
+
+test("skips dot leader entries without a contents heading", () => {
+  const pages = [...REPORT_WITH_TOC];
+  pages[1] = DOTTED_CONTENTS_PAGE;
+  assert.equal(outline(pages).length, 5);
+});
+
+test("skips contents entries in documents without pages", () => {
+  const text = REPORT_WITH_TOC.map((page) => page.text).join("\n");
+  assert.deepEqual(
+    outline([{ pageNumber: 1, text }], "document").map(
+      (line) => line.split(" ")[0]
+    ),
+    ["1", "2", "2.1", "3", "4"]
+  );
+});
+
+test("lets numbering restart after a spurious early heading", () => {
+  const pages = [
+    { pageNumber: 1, text: "1 Project Summary\nA short list.\n2 Team\nTwo." },
+    ...REPORT_WITH_TOC.slice(2),
+  ];
+  assert.deepEqual(
+    outline(pages).map((line) => line.split(" ")[0]),
+    ["1", "2", "1", "2", "2.1", "3", "4"]
+  );
+});
@@ -0,0 +1,499 @@
+/**
+ * Section detection for academic documents.
+ * Turns the page-by-page text from the extractors into a tree of sections
+ * (Abstract, Introduction, numbered chapters, ...) that keep their page
+ * numbers, so questions and feedback can cite "Section 3.2, p.14".
+ */
+
+import type {
+  ExtractedPage,
+  ExtractionResult,
+  ExtractionUnit,
+} from "@/lib/document-extractors";
+
+export type SectionKind =
+  | "front-matter"
+  | "abstract"
+  | "introduction"
+  | "background"
+  | "methodology"
+  | "implementation"
+  | "results"
+  | "discussion"
+  | "conclusion"
+  | "references"
+  | "appendix"
+  | "acknowledgements"
+  | "chapter"
+  | "section"
+  | "slide";
+
+export interface DocumentSection {
+  id: string;
+  title: string;
+  number?: string; // e.g. "3.2" for numbered headings
+  kind: SectionKind;
+  level: number; // 1 = chapter / top-level heading
+  pageStart?: number;
+  pageEnd?: number;
+  text: string; // body text of this section, excluding subsections
+  wordCount: number;
+  children: DocumentSection[];
+}
+
+interface DocumentLine {
+  text: string;
+  pageNumber?: number;
+  inContents?: boolean; // On a table of contents page
+}
+
+interface HeadingMatch {
+  title: string;
+  number?: string;
+  level: number;
+  kind: SectionKind;
+}
+
+// Heading keywords mapped to section kinds, checked in order
+const SECTION_KEYWORDS: Array<{ pattern: RegExp; kind: SectionKind }> = [
+  { pattern: /^abstract$/i, kind: "abstract" },
+  { pattern: /^(introduction|overview)$/i, kind: "introduction" },
+  {
+    pattern:
+      /^(background|literature review|review of (the )?literature|related work|state of the art|theoretical (background|framework))$/i,
+    kind: "background",
+  },
+  {
+    pattern:
+      /^((research |materials and )?methods?|(research )?methodology|approach|research design)$/i,
+    kind: "methodology",
+  },
+  {
+    pattern:
+      /^(implementation|system (design|architecture|implementation)|design( and implementation)?|architecture)$/i,
+    kind: "implementation",
+  },
+  {
+    pattern:
+      /^(results?( and discussion)?|evaluation|findings|experiments?|experimental results|testing( and evaluation)?)$/i,
+    kind: "results",
+  },
+  { pattern: /^discussion$/i, kind: "discussion" },
+  {
+    pattern:
+      /^(conclusions?( and future work)?|summary( and conclusions?)?|future work|recommendations)$/i,
+    kind: "conclusion",
+  },
+  {
+    pattern: /^(references|bibliography|works cited|literature cited)$/i,
+    kind: "references",
+  },
+  { pattern: /^appendi(x|ces)\b.*$/i, kind: "appendix" },
+  { pattern: /^acknowledge?ments?$/i, kind: "acknowledgements" },
+];
+
+const WORD_NUMBERS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+// Headings are short; anything longer is treated as body text
+const MAX_HEADING_WORDS = 12;
+
+// Numbered headings seen before this much body text may be renumbered from 1;
+// they were most likely table of contents entries
+const MAX_WORDS_BEFORE_RESTART = 100;
+
+const CONTENTS_HEADING = /^(table of )?contents$/i;
+
+/**
+ * Detect the section tree of a document from its extracted pages.
+ * Sources with explicit "#" headings (Markdown, LaTeX, ODT) use those
+ * instead of the layout heuristics.
+ */
+export function detectSections(
+  pages: ExtractedPage[],
+  unit: ExtractionUnit,
+  headingStyle?: ExtractionResult["headingStyle"]
+): DocumentSection[] {
+  // Slides have no reliable headings; each slide becomes its own section
+  if (unit === "slide") {
+    return pages
+      .filter((page) => page.text.trim().length > 0)
+      .map((page) => createSlideSection(page));
+  }
+
+  const lines: DocumentLine[] = [];
+  for (const page of pages) {
+    const pageLines = page.text
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter((line) => line.length > 0);
+    // Only real pages can be skipped whole; other units hold the entire text
+    const inContents = unit === "page" && isContentsPage(pageLines);
+
+    for (const line of pageLines) {
+      lines.push({
+        text: line,
+        pageNumber: unit === "page" ? page.pageNumber : undefined,
+        inContents,
+      });
+    }
+  }
+
+  const roots: DocumentSection[] = [];
+  const stack: DocumentSection[] = [];
+  let current: DocumentSection | null = null;
+  let lastChapter = 0;
+  let bodyWords = 0; // Body text seen under numbered headings so far
+  let nextId = 1;
+
+  for (const line of lines) {
+    const heading =
+      headingStyle === "markdown"
+        ? matchMarkdownHeading(line.text)
+        : line.inContents || isContentsEntry(line.text)
+        ? null
+        : matchHeading(
+            line.text,
+            lastChapter,
+            bodyWords < MAX_WORDS_BEFORE_RESTART
+          );
+
+    if (!heading) {
+      if (!current) {
+        // Title page, declarations etc. before the first heading
+        current = createSection(
+          "front",
+          { title: "Front Matter", kind: "front-matter", level: 1 },
+          line.pageNumber
+        );
+        roots.push(current);
+        stack.push(current);
+      }
+      current.text += (current.text ? "\n" : "") + line.text;
+      if (lastChapter > 0) {
+        bodyWords += countWords(line.text);
+      }
+      extendPages(stack, line.pageNumber);
+      continue;
+    }
+
+    if (heading.number) {
+      lastChapter = Number(heading.number.split(".")[0]);
+    }
+
+    const section = createSection(`s${nextId++}`, heading, line.pageNumber);
+
+    // Pop until the parent is a strictly higher-level heading
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(section);
+    } else {
+      roots.push(section);
+    }
+
+    stack.push(section);
+    current = section;
+  }
+
+  finalizeSections(roots);
+  return roots;
+}
+
+/**
+ * Flatten a section tree into document order
+ */
+export function flattenSections(
+  sections: DocumentSection[]
+): DocumentSection[] {
+  return sections.flatMap((section) => [
+    section,
+    ...flattenSections(section.children),
+  ]);
+}
+
+/**
+ * Find a section by number ("3.2"), kind ("methodology") or title text
+ */
+export function findSection(
+  sections: DocumentSection[],
+  reference: string
+): DocumentSection | undefined {
+  const query = reference.trim().toLowerCase();
+  const all = flattenSections(sections);
+
+  return (
+    all.find((section) => section.number === query) ||
+    all.find((section) => section.kind === query) ||
+    all.find((section) => section.title.toLowerCase() === query) ||
+    all.find((section) => section.title.toLowerCase().includes(query))
+  );
+}
+
+/**
+ * Format a citable location such as "Section 3.2, p.14" or "Methodology, pp.9-12"
+ */
+export function formatSectionLocation(section: DocumentSection): string {
+  const name =
+    section.kind === "slide"
+      ? section.title
+      : section.number
+      ? `Section ${section.number}`
+      : section.title;
+
+  if (section.kind === "slide" || section.pageStart === undefined) {
+    return name;
+  }
+
+  return section.pageEnd !== undefined && section.pageEnd !== section.pageStart
+    ? `${name}, pp.${section.pageStart}-${section.pageEnd}`
+    : `${name}, p.${section.pageStart}`;
+}
+
+/**
+ * Render the section tree as an indented outline for prompts
+ */
+export function formatSectionOutline(sections: DocumentSection[]): string {
+  return flattenSections(sections)
+    .filter((section) => section.kind !== "front-matter")
+    .map((section) => {
+      const indent = "  ".repeat(section.level - 1);
+      const heading = section.number
+        ? `${section.number} ${section.title}`
+        : section.title;
+      const pages =
+        section.pageStart === undefined
+          ? ""
+          : section.pageEnd !== undefined &&
+            section.pageEnd !== section.pageStart
+          ? ` (pp.${section.pageStart}-${section.pageEnd})`
+          : ` (p.${section.pageStart})`;
+      return `${indent}- ${heading}${pages}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Whether a page is a table of contents: it has a "Contents" heading, or
+ * most of its lines are entries with page numbers
+ */
+function isContentsPage(lines: string[]): boolean {
+  if (lines.some((line) => CONTENTS_HEADING.test(line))) {
+    return true;
+  }
+  const entries = lines.filter(isContentsEntry).length;
+  return entries >= 3 && entries >= lines.length / 2;
+}
+
+/**
+ * A table of contents line: a short title followed by dot leaders or a page
+ * number, e.g. "3.2 Data Model ........ 14" or "1 Introduction 4"
+ */
+function isContentsEntry(line: string): boolean {
+  if (line.split(" ").length > MAX_HEADING_WORDS + 1) {
+    return false;
+  }
+  return (
+    /(\.{3,}|…|(\. ){2,}\.?)\s*\d{1,4}$/.test(line) ||
+    /^(chapter\s+\w+\s*[:.\-–]?\s*|\d{1,2}(\.\d{1,2}){0,3}\.?\s+)?[A-Z][^.!?]*[A-Za-z)]\s+\d{1,4}$/.test(
+      line
+    )
+  );
+}
+
+/**
+ * Decide whether a line is a heading and, if so, what kind
+ * @param allowRestart - Accept chapter 1 again, e.g. after numbered lines
+ * that were not real headings
+ */
+function matchHeading(
+  line: string,
+  lastChapter: number,
+  allowRestart: boolean
+): HeadingMatch | null {
+  const wordCount = line.split(" ").length;
+  if (wordCount > MAX_HEADING_WORDS || line.length > 100) {
+    return null;
+  }
+
+  // "Chapter 3: Methodology", "CHAPTER THREE - RESULTS", "Chapter 2"
+  const chapterMatch = line.match(
+    /^chapter\s+(\d+|[a-z]+)\s*[:.\-–]?\s*(.*)$/i
+  );
+  if (chapterMatch) {
+    const rawNumber = chapterMatch[1].toLowerCase();
+    const chapterNumber = /^\d+$/.test(rawNumber)
+      ? Number(rawNumber)
+      : WORD_NUMBERS[rawNumber];
+    if (chapterNumber) {
+      const title = toTitle(chapterMatch[2]) || `Chapter ${chapterNumber}`;
+      return {
+        title,
+        number: String(chapterNumber),
+        level: 1,
+        kind: classifyTitle(title) || "chapter",
+      };
+    }
+  }
+
+  // "3.2 Experimental Setup", "4. Results"
+  const numberedMatch = line.match(/^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+(.+)$/);
+  if (numberedMatch) {
+    const number = numberedMatch[1];
+    const title = numberedMatch[2];
+    const chapter = Number(number.split(".")[0]);
+    const depth = number.split(".").length;
+
+    // Chapter numbers only move forward; this filters out numbered lists.
+    // Numbering may start over while little body text has been seen
+    const plausibleNumber =
+      chapter >= 1 &&
+      (chapter === lastChapter ||
+        chapter === lastChapter + 1 ||
+        (allowRestart && depth === 1 && chapter === 1));
+
+    if (plausibleNumber && looksLikeHeadingTitle(title)) {
+      const cleanTitle = toTitle(title);
+      return {
+        title: cleanTitle,
+        number,
+        level: depth,
+        kind:
+          classifyTitle(cleanTitle) || (depth === 1 ? "chapter" : "section"),
+      };
+    }
+    return null;
+  }
+
+  // Unnumbered well-known headings such as "Abstract" or "References"
+  const kind = classifyTitle(line.replace(/[:.]$/, ""));
+  if (kind) {
+    return { title: toTitle(line.replace(/[:.]$/, "")), level: 1, kind };
+  }
+
+  return null;
+}
+
+/**
+ * Match an explicit "## 3.2 Title" heading; the "#" count gives the level
+ */
+function matchMarkdownHeading(line: string): HeadingMatch | null {
+  const match = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (!match) {
+    return null;
+  }
+
+  const level = match[1].length;
+  const numbered = match[2].match(/^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+(.+)$/);
+  const title = toTitle(numbered ? numbered[2] : match[2]);
+
+  return {
+    title,
+    number: numbered?.[1],
+    level,
+    kind: classifyTitle(title) || (level === 1 ? "chapter" : "section"),
+  };
+}
+
+function classifyTitle(title: string): SectionKind | undefined {
+  const normalized = title.trim().replace(/\s+/g, " ");
+  return SECTION_KEYWORDS.find((entry) => entry.pattern.test(normalized))?.kind;
+}
+
+function looksLikeHeadingTitle(title: string): boolean {
+  return (
+    /^[A-Z]/.test(title) &&
+    !/[.,;]$/.test(title) &&
+    // Body sentences usually contain several lowercase function words in a row
+    !/\b(is|are|was|were|we|this|that)\b.*\b(the|a|an|of)\b/i.test(title)
+  );
+}
+
+function toTitle(text: string): string {
+  const trimmed = text.trim();
+  // Normalise ALL-CAPS headings to title case for readability
+  if (trimmed.length > 3 && trimmed === trimmed.toUpperCase()) {
+    return trimmed
+      .toLowerCase()
+      .replace(/\b([a-z])/g, (letter) => letter.toUpperCase());
+  }
+  return trimmed;
+}
+
+function createSection(
+  id: string,
+  heading: HeadingMatch,
+  pageNumber?: number
+): DocumentSection {
+  return {
+    id,
+    title: heading.title,
+    number: heading.number,
+    kind: heading.kind,
+    level: heading.level,
+    pageStart: pageNumber,
+    pageEnd: pageNumber,
+    text: "",
+    wordCount: 0,
+    children: [],
+  };
+}
+
+function createSlideSection(page: ExtractedPage): DocumentSection {
+  const text = page.text.replace(/\s+/g, " ").trim();
+  return {
+    id: `slide-${page.pageNumber}`,
+    title: `Slide ${page.pageNumber}`,
+    kind: "slide",
+    level: 1,
+    pageStart: page.pageNumber,
+    pageEnd: page.pageNumber,
+    text,
+    wordCount: countWords(text),
+    children: [],
+  };
+}
+
+/**
+ * Extend the page range of every open section to include a new page
+ */
+function extendPages(stack: DocumentSection[], pageNumber?: number) {
+  if (pageNumber === undefined) return;
+  for (const section of stack) {
+    if (section.pageEnd === undefined || section.pageEnd < pageNumber) {
+      section.pageEnd = pageNumber;
+    }
+  }
+}
+
+function finalizeSections(sections: DocumentSection[]) {
+  for (const section of sections) {
+    section.wordCount = countWords(section.text);
+    finalizeSections(section.children);
+
+    // A parent spans at least as far as its last subsection
+    const lastChild = section.children[section.children.length - 1];
+    if (
+      lastChild?.pageEnd !== undefined &&
+      (section.pageEnd === undefined || section.pageEnd < lastChild.pageEnd)
+    ) {
+      section.pageEnd = lastChild.pageEnd;
+    }
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
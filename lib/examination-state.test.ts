@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  allowedDecisions,
+  createExaminationState,
+  formatExaminationProgress,
+  getExaminationProgress,
+  hasQuestionPlanChanged,
+  planExaminerTurn,
+  recordExaminerTurn,
+  rejoinExamination,
+} from "@/lib/examination-state";
+
+const start = new Date("2026-01-01T10:00:00Z");
+const minutesLater = (minutes: number) =>
+  new Date(start.getTime() + minutes * 60 * 1000);
+
+const plan = ["What problem does the project solve?", "Why this design?"];
+const limits = { maxFollowUps: 2, maxMinutes: 30 };
+
+test("counts long answers as examination time", () => {
+  let state = createExaminationState("s1", plan, [], start, limits);
+  state = recordExaminerTurn(state, "move-on", "", "First question", start);
+  state = recordExaminerTurn(
+    state,
+    "follow-up",
+    "A three minute answer",
+    "Follow-up",
+    minutesLater(3)
+  );
+
+  assert.equal(state.resumedCount, 0);
+  assert.equal(
+    getExaminationProgress(state, minutesLater(4)).elapsedMinutes,
+    4
+  );
+  assert.doesNotMatch(
+    formatExaminationProgress(state, minutesLater(4)),
+    /rejoined/
+  );
+});
+
+test("leaves a dropped call out of the elapsed time", () => {
+  let state = createExaminationState("s1", plan, [], start, limits);
+  state = recordExaminerTurn(state, "move-on", "", "First question", start);
+
+  // The call drops and the student rejoins the next day
+  const rejoined = minutesLater(24 * 60);
+  state = rejoinExamination(state, rejoined);
+  assert.match(formatExaminationProgress(state, rejoined), /rejoined/);
+  assert.deepEqual(allowedDecisions(state, rejoined), ["follow-up", "move-on"]);
+
+  state = recordExaminerTurn(
+    state,
+    "follow-up",
+    "Hello",
+    "Welcome back",
+    minutesLater(24 * 60 + 1)
+  );
+  assert.equal(state.resumedCount, 1);
+  assert.equal(state.rejoined, false);
+  assert.equal(
+    getExaminationProgress(state, minutesLater(24 * 60 + 1)).elapsedMinutes,
+    1
+  );
+});
+
+test("notices an edited question plan", () => {
+  const state = createExaminationState("s1", plan, [], start, limits);
+
+  assert.equal(hasQuestionPlanChanged(state, [...plan]), false);
+  assert.equal(hasQuestionPlanChanged(state, [plan[1], plan[0]]), true);
+  assert.equal(hasQuestionPlanChanged(state, [...plan, "Extra?"]), true);
+});
+
+test("asks pinned questions after time is up before wrapping up", () => {
+  const questions = ["First?", "Second?", "Third?", "Fourth?"];
+  let state = createExaminationState("s1", questions, [], start, limits, [2]);
+  state = recordExaminerTurn(state, "move-on", "", "First?", start);
+
+  const timeUp = minutesLater(limits.maxMinutes);
+  assert.deepEqual(allowedDecisions(state, timeUp), ["move-on"]);
+  assert.match(planExaminerTurn(state, timeUp).nextStep, /"Third\?"/);
+
+  // The unpinned second question is skipped
+  state = recordExaminerTurn(state, "move-on", "Answer", "Third?", timeUp);
+  assert.equal(state.cursor, 2);
+  assert.deepEqual(allowedDecisions(state, timeUp), ["wrap-up"]);
+});
@@ -0,0 +1,385 @@
+/**
+ * Server-side state of an examination, kept per session so the examiner
+ * works through the question plan instead of relying on the caller to send
+ * the conversation every turn, and can pick up again after a dropped call.
+ *
+ * A cursor points at the planned question being discussed. Each turn the
+ * examiner picks one of the decisions the limits allow: a follow-up on the
+ * current question, moving on to the next one, or wrapping up.
+ */
+
+import type { ExaminerMessage } from "@/lib/examiner";
+
+export type ExaminationDecision = "follow-up" | "move-on" | "wrap-up";
+
+export interface ExaminationLimits {
+  maxFollowUps: number; // Per planned question
+  maxMinutes: number; // Whole examination
+}
+
+export interface ExaminationState {
+  sessionId: string;
+  questions: string[]; // The question plan, in order
+  pinned: number[]; // Plan indices that must be asked even when time runs out
+  cursor: number; // Plan index of the current question; -1 before the first
+  askedQuestions: number[]; // Plan indices, in the order they were asked
+  followUps: ExaminationFollowUp[];
+  decisions: ExaminationDecision[]; // One per examiner turn
+  status: "in-progress" | "wrapped-up";
+  limits: ExaminationLimits;
+  messages: ExaminerMessage[];
+  startedAt: string;
+  updatedAt: string;
+  activeMs: number; // Time spent in the examination, leaving out dropped calls
+  resumedCount: number; // Times the student came back after a dropped call
+  rejoined?: boolean; // A new call started since the last turn
+}
+
+// An examiner question outside the plan
+export interface ExaminationFollowUp {
+  question: number; // Plan index of the question it followed
+  text: string;
+}
+
+export interface ExaminationProgress {
+  currentQuestion: number; // 1-based, for "Question 4 of 10"; 0 before the first
+  askedQuestions: number;
+  totalQuestions: number;
+  followUps: number;
+  coverage: number; // Share of the plan asked, 0-1
+  elapsedMinutes: number;
+  status: ExaminationState["status"];
+  lastDecision?: ExaminationDecision;
+}
+
+// What the examiner may do this turn, with the instructions to pass on
+export interface ExaminerStep {
+  decisions: ExaminationDecision[];
+  progress: string;
+  nextStep: string;
+}
+
+export const DEFAULT_EXAMINATION_LIMITS: ExaminationLimits = {
+  maxFollowUps: 2,
+  maxMinutes: 30,
+};
+
+/**
+ * Limits from NEXT_PUBLIC_EXAMINATION_MAX_FOLLOW_UPS and
+ * NEXT_PUBLIC_EXAMINATION_MAX_MINUTES, or the defaults
+ */
+export function getExaminationLimits(): ExaminationLimits {
+  const maxFollowUps = Number(
+    process.env.NEXT_PUBLIC_EXAMINATION_MAX_FOLLOW_UPS
+  );
+  const maxMinutes = Number(process.env.NEXT_PUBLIC_EXAMINATION_MAX_MINUTES);
+
+  return {
+    maxFollowUps:
+      process.env.NEXT_PUBLIC_EXAMINATION_MAX_FOLLOW_UPS && maxFollowUps >= 0
+        ? Math.floor(maxFollowUps)
+        : DEFAULT_EXAMINATION_LIMITS.maxFollowUps,
+    maxMinutes:
+      maxMinutes > 0 ? maxMinutes : DEFAULT_EXAMINATION_LIMITS.maxMinutes,
+  };
+}
+
+/**
+ * A new examination over a question plan
+ * @param messages - Conversation so far, when the caller sent one
+ * @param pinned - Plan indices of the questions the student pinned
+ */
+export function createExaminationState(
+  sessionId: string,
+  questions: string[],
+  messages: ExaminerMessage[] = [],
+  now = new Date(),
+  limits = getExaminationLimits(),
+  pinned: number[] = []
+): ExaminationState {
+  return {
+    sessionId,
+    questions,
+    pinned,
+    cursor: -1,
+    askedQuestions: [],
+    followUps: [],
+    decisions: [],
+    status: "in-progress",
+    limits,
+    messages,
+    startedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    activeMs: 0,
+    resumedCount: 0,
+  };
+}
+
+/**
+ * Whether the student is coming back after a dropped connection
+ */
+export function isResumedExamination(state: ExaminationState) {
+  return state.messages.length > 0 && Boolean(state.rejoined);
+}
+
+/**
+ * Note that a new call started for an examination in progress. The time
+ * since the last turn, while the student was disconnected, is not counted.
+ */
+export function rejoinExamination(
+  state: ExaminationState,
+  now = new Date()
+): ExaminationState {
+  return { ...state, rejoined: true, updatedAt: now.toISOString() };
+}
+
+/**
+ * Whether the session's question plan was edited since the examination
+ * started, so the stored state no longer follows it
+ */
+export function hasQuestionPlanChanged(
+  state: ExaminationState,
+  questions: string[]
+) {
+  return (
+    questions.length !== state.questions.length ||
+    questions.some((question, index) => question !== state.questions[index])
+  );
+}
+
+/**
+ * The decisions open to the examiner this turn: time and the follow-up limit
+ * rule some out, and the plan must be started before anything else. Once
+ * time is up, the pinned questions not yet asked are still asked, one after
+ * the other, before the examiner may wrap up.
+ */
+export function allowedDecisions(
+  state: ExaminationState,
+  now = new Date()
+): ExaminationDecision[] {
+  if (state.status === "wrapped-up") return ["wrap-up"];
+  if (isTimeUp(state, now)) {
+    return nextQuestionIndex(state, now) >= 0 ? ["move-on"] : ["wrap-up"];
+  }
+  // With no plan the examiner asks its own questions until time is up
+  if (state.questions.length === 0) return ["follow-up", "wrap-up"];
+  if (state.cursor < 0) return ["move-on"];
+
+  const decisions: ExaminationDecision[] = [];
+  if (currentFollowUps(state) < state.limits.maxFollowUps) {
+    decisions.push("follow-up");
+  }
+  decisions.push(
+    state.cursor < state.questions.length - 1 ? "move-on" : "wrap-up"
+  );
+  return decisions;
+}
+
+/**
+ * The decisions, progress notes and instructions for the examiner's next turn
+ */
+export function planExaminerTurn(
+  state: ExaminationState,
+  now = new Date()
+): ExaminerStep {
+  const decisions = allowedDecisions(state, now);
+  const timeUp = isTimeUp(state, now);
+  const nextQuestion = state.questions[nextQuestionIndex(state, now)];
+
+  const options: Record<ExaminationDecision, string> = {
+    "follow-up": `- follow-up: ask one follow-up question about the current topic (${currentFollowUps(
+      state
+    )} of ${state.limits.maxFollowUps} used)`,
+    "move-on": timeUp
+      ? `- move-on: the time is up, but the student pinned this question so it must still be asked; briefly acknowledge the answer, then ask: "${nextQuestion}"`
+      : `- move-on: briefly acknowledge the answer, then ask the next planned question: "${nextQuestion}"`,
+    "wrap-up": timeUp
+      ? "- wrap-up: the time is up; thank the student and close the examination without giving feedback or scores"
+      : "- wrap-up: every planned question has been covered; thank the student and close the examination without giving feedback or scores",
+  };
+
+  return {
+    decisions,
+    progress: formatExaminationProgress(state, now),
+    nextStep: [
+      decisions.length > 1
+        ? "Choose one of these decisions and say only what it calls for:"
+        : "Do this:",
+      ...decisions.map((decision) => options[decision]),
+    ].join("\n"),
+  };
+}
+
+/**
+ * Add one exchange to the state and move the cursor by the examiner's
+ * decision
+ */
+export function recordExaminerTurn(
+  state: ExaminationState,
+  decision: ExaminationDecision,
+  studentMessage: string,
+  examinerReply: string,
+  now = new Date()
+): ExaminationState {
+  const messages = [
+    ...state.messages,
+    ...(studentMessage.trim()
+      ? [{ role: "user", content: studentMessage }]
+      : []),
+    { role: "assistant", content: examinerReply },
+  ];
+  const next = nextQuestionIndex(state, now);
+  const movesOn = decision === "move-on" && next >= 0;
+
+  return {
+    ...state,
+    messages,
+    cursor: movesOn ? next : state.cursor,
+    askedQuestions: movesOn
+      ? [...state.askedQuestions, next]
+      : state.askedQuestions,
+    followUps:
+      decision === "follow-up"
+        ? [...state.followUps, { question: state.cursor, text: examinerReply }]
+        : state.followUps,
+    decisions: [...state.decisions, decision],
+    status: decision === "wrap-up" ? "wrapped-up" : state.status,
+    updatedAt: now.toISOString(),
+    activeMs: getActiveMs(state, now),
+    resumedCount: state.resumedCount + (isResumedExamination(state) ? 1 : 0),
+    rejoined: false,
+  };
+}
+
+export function getExaminationProgress(
+  state: ExaminationState,
+  now = new Date()
+): ExaminationProgress {
+  const totalQuestions = state.questions.length;
+  const lastDecision = state.decisions[state.decisions.length - 1];
+  return {
+    currentQuestion: state.cursor + 1,
+    askedQuestions: state.askedQuestions.length,
+    totalQuestions,
+    followUps: state.followUps.length,
+    coverage: totalQuestions ? state.askedQuestions.length / totalQuestions : 0,
+    elapsedMinutes: Math.floor(getActiveMs(state, now) / 60000),
+    status: state.status,
+    ...(lastDecision ? { lastDecision } : {}),
+  };
+}
+
+/**
+ * Progress notes for the examiner prompt: what was asked, what is left and
+ * whether the student just rejoined
+ */
+export function formatExaminationProgress(
+  state: ExaminationState,
+  now = new Date()
+): string {
+  const progress = getExaminationProgress(state, now);
+  const remaining = state.questions
+    .map((question, index) => ({ question, index }))
+    .filter(({ index }) => index > state.cursor);
+
+  const lines = [
+    `- Time elapsed: ${progress.elapsedMinutes} of ${state.limits.maxMinutes} minute(s)`,
+    `- Planned questions asked: ${progress.askedQuestions} of ${progress.totalQuestions}`,
+  ];
+  if (state.cursor >= 0) {
+    lines.push(
+      `- Current question (${state.cursor + 1} of ${state.questions.length}): ${
+        state.questions[state.cursor]
+      } (${currentFollowUps(state)} follow-up(s) so far)`
+    );
+  }
+  lines.push(
+    remaining.length > 0
+      ? `- Not yet asked:\n${remaining
+          .map(
+            ({ question, index }) =>
+              `  ${index + 1}. ${question}${
+                (state.pinned || []).includes(index) ? " (pinned: must be asked)" : ""
+              }`
+          )
+          .join("\n")}`
+      : "- Every planned question has been asked"
+  );
+  if (isResumedExamination(state)) {
+    lines.push(
+      "- The connection dropped and the student has just rejoined: welcome them back briefly and continue where the examination left off"
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Read the conversation the caller sent: an array of messages, or the JSON
+ * string the VAPI workflow substitutes for {{conversation.messages}}
+ */
+export function parseConversationMessages(value: unknown): ExaminerMessage[] {
+  let messages = value;
+  if (typeof value === "string") {
+    try {
+      messages = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(messages)) return [];
+
+  return messages.flatMap((message) => {
+    const content = message?.content ?? message?.message;
+    return typeof message?.role === "string" && typeof content === "string"
+      ? [{ role: message.role, content }]
+      : [];
+  });
+}
+
+/**
+ * Question texts from the formatted question list sent to the workflow,
+ * e.g. "- [technical, advanced] Why ...?" with "Listen for" lines below
+ */
+export function parseQuestionList(questions: string): string[] {
+  return questions
+    .split("\n")
+    .filter((line) => line.startsWith("- "))
+    .map((line) =>
+      line
+        .slice(2)
+        .replace(/^\[[^\]]*\]\s*/, "")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+function isTimeUp(state: ExaminationState, now: Date): boolean {
+  return (
+    getExaminationProgress(state, now).elapsedMinutes >= state.limits.maxMinutes
+  );
+}
+
+// Plan index of the question a move-on asks, or -1 when none is left; after
+// time is up only pinned questions are left
+function nextQuestionIndex(state: ExaminationState, now: Date): number {
+  if (!isTimeUp(state, now)) {
+    return state.cursor + 1 < state.questions.length ? state.cursor + 1 : -1;
+  }
+  // States saved before pinned questions were kept have none
+  const pinned = (state.pinned || []).filter((index) => index > state.cursor);
+  return pinned.length > 0 ? Math.min(...pinned) : -1;
+}
+
+// Time spent so far; rejoining moves updatedAt, so a dropped call is not
+// counted while every answer is, however long
+function getActiveMs(state: ExaminationState, now: Date): number {
+  const sinceLastTurn = now.getTime() - new Date(state.updatedAt).getTime();
+  // States saved before activeMs was kept have none
+  return (state.activeMs || 0) + Math.max(sinceLastTurn, 0);
+}
+
+function currentFollowUps(state: ExaminationState): number {
+  return state.followUps.filter(
+    (followUp) => followUp.question === state.cursor
+  ).length;
+}
@@ -0,0 +1,169 @@
+/**
+ * One examiner turn of the examination phase.
+ * Shared by the examination API route and the offline prompt evaluation,
+ * which replays golden transcripts through the same logic.
+ */
+
+import { generateObject, generateText } from "ai";
+import { z } from "zod";
+
+import type { DocumentChunk } from "@/lib/document-processor";
+import type { ExaminationDecision } from "@/lib/examination-state";
+import type { ResolvedModel } from "@/lib/llm-provider";
+import { renderPrompt, type PromptVersions } from "@/lib/prompts";
+import {
+  buildLexicalIndex,
+  formatPassageSource,
+  searchLexicalIndex,
+} from "@/lib/retrieval";
+
+// Number of document passages given to the examiner per turn
+const RETRIEVED_PASSAGE_COUNT = 4;
+
+export interface ExaminerMessage {
+  role: string; // "assistant" for the examiner, "user" for the student
+  content: string;
+}
+
+export interface ExaminerTurnParams {
+  projectTitle?: string;
+  academicLevel?: string;
+  technologies?: string;
+  questions?: string;
+  projectContext?: string;
+  message?: string; // The student's latest answer
+  progress?: string; // Question plan progress, when the session keeps state
+  // Decisions the examiner may choose from, with instructions for each
+  decisions?: ExaminationDecision[];
+  nextStep?: string;
+  previousMessages?: ExaminerMessage[];
+  documentChunks: DocumentChunk[];
+  promptVersions?: { system?: number; turn?: number }; // Current when missing
+}
+
+export interface ExaminerTurn {
+  text: string;
+  decision?: ExaminationDecision; // Set when decisions were given
+  sources: string[]; // Locations of the passages the examiner was given
+  promptVersions: PromptVersions;
+}
+
+/**
+ * Write the examiner's reply to the student's latest answer, with the
+ * document passages most relevant to the exchange
+ */
+export async function generateExaminerTurn(
+  resolved: ResolvedModel,
+  params: ExaminerTurnParams
+): Promise<ExaminerTurn> {
+  const {
+    projectTitle,
+    academicLevel,
+    technologies,
+    questions,
+    projectContext,
+    message,
+    progress,
+    decisions,
+    nextStep,
+    previousMessages = [],
+    documentChunks,
+  } = params;
+
+  // Format previous messages for context if available
+  const conversationHistory = previousMessages
+    .map((msg) => `${msg.role}: ${msg.content}`)
+    .join("\n");
+
+  // Retrieve the document passages most relevant to the student's latest
+  // answer, together with the examiner question it responds to
+  const lastExaminerMessage =
+    [...previousMessages].reverse().find((msg) => msg.role === "assistant")
+      ?.content || "";
+  const retrievedPassages = searchLexicalIndex(
+    buildLexicalIndex(documentChunks),
+    `${lastExaminerMessage} ${message || ""}`,
+    RETRIEVED_PASSAGE_COUNT
+  );
+  const documentPassages = retrievedPassages
+    .map(({ chunk }) => `[${formatPassageSource(chunk)}]\n${chunk.text}`)
+    .join("\n\n");
+
+  console.log(
+    `Retrieved ${retrievedPassages.length} of ${documentChunks.length} document passages`
+  );
+
+  // Generate basic context if project context is missing
+  const fallbackContext = `This is a defense examination for a ${
+    academicLevel || "graduate"
+  } level project titled "${
+    projectTitle || "Academic Project"
+  }". The project involves ${technologies || "various technologies"}.`;
+
+  // Prepare the examination context
+  const examinationContext = renderPrompt(
+    "examination-turn",
+    {
+      projectTitle: projectTitle || "Academic Project",
+      academicLevel: academicLevel || "Master's",
+      technologies: technologies || "Various technologies",
+      projectContext: projectContext || fallbackContext,
+      questions:
+        questions ||
+        "Ask questions about the project implementation, methodology, and technical decisions.",
+      progress:
+        progress || "Not tracked; follow the previous conversation instead.",
+      nextStep:
+        nextStep ||
+        "Decide from the previous conversation whether to ask a follow-up question or move on to the next question.",
+      documentPassages:
+        documentPassages ||
+        "No document passages are available for this answer.",
+      conversationHistory,
+      message: message || "",
+    },
+    params.promptVersions?.turn
+  );
+  const examinerSystem = renderPrompt(
+    "examiner-system",
+    {},
+    params.promptVersions?.system
+  );
+
+  // Generate the examiner's response, with its decision when one is asked for
+  let text: string;
+  let decision: ExaminationDecision | undefined;
+  if (decisions && decisions.length > 0) {
+    const { object } = await generateObject({
+      model: resolved.model,
+      schema: z.object({
+        decision: z.enum(
+          decisions as [ExaminationDecision, ...ExaminationDecision[]]
+        ),
+        response: z.string().describe("What the examiner says aloud"),
+      }),
+      prompt: examinationContext.text,
+      system: examinerSystem.text,
+      temperature: 0.7,
+    });
+    text = object.response;
+    decision = object.decision;
+  } else {
+    ({ text } = await generateText({
+      model: resolved.model,
+      prompt: examinationContext.text,
+      system: examinerSystem.text,
+      temperature: 0.7,
+    }));
+  }
+
+  return {
+    text,
+    ...(decision ? { decision } : {}),
+    sources: retrievedPassages.map(({ chunk }) => formatPassageSource(chunk)),
+    promptVersions: {
+      "examiner-system": examinerSystem.label,
+      "examination-turn": examinationContext.label,
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Model-written assessment of a finished defense.
+ * Shared by createFeedback and the offline prompt evaluation, which replays
+ * golden transcripts through the same prompts.
+ */
+
+import { generateObject } from "ai";
+import type { z } from "zod";
+
+import { defenseSchema } from "@/constants";
+import type { ResolvedModel } from "@/lib/llm-provider";
+import { renderPrompt, type PromptVersions } from "@/lib/prompts";
+
+export type DefenseEvaluation = z.infer<typeof defenseSchema>;
+
+// Session fields the evaluator is given
+export interface EvaluatedSession {
+  role?: string;
+  level?: string;
+  techstack?: string[];
+  type?: string;
+  documentOutline?: string;
+  codeSummary?: string;
+  referenceSummary?: string;
+}
+
+/**
+ * Score a defense transcript against the rubric
+ * @param consistencyGaps - Slide/report mismatches found at upload
+ * @param promptVersions - Prompt versions to use; current when missing
+ */
+export async function evaluateDefense(
+  resolved: ResolvedModel,
+  params: {
+    session: EvaluatedSession;
+    transcript: { role: string; content: string }[];
+    consistencyGaps: string[];
+    promptVersions?: { system?: number; evaluation?: number };
+  }
+): Promise<{ evaluation: DefenseEvaluation; promptVersions: PromptVersions }> {
+  const { session, transcript, consistencyGaps } = params;
+
+  // Get the full transcript formatted for analysis
+  const formattedTranscript = transcript
+    .map((sentence) => `- ${sentence.role}: ${sentence.content}\n`)
+    .join("");
+
+  const level = session.level || "graduate-level";
+  const evaluationPrompt = renderPrompt(
+    "feedback-evaluation",
+    {
+      title: session.role || "Academic Project",
+      level,
+      technologies: session.techstack?.join(", ") || "the technologies used",
+      type: session.type || "Project Defense",
+      documentOutline: session.documentOutline || "No document was uploaded",
+      codeSummary: session.codeSummary || "No source code was uploaded",
+      inconsistencies:
+        consistencyGaps.length > 0
+          ? consistencyGaps.map((gap) => `- ${gap}`).join("\n")
+          : "None detected",
+      referenceSummary:
+        session.referenceSummary || "No reference list was found",
+      transcript: formattedTranscript,
+    },
+    params.promptVersions?.evaluation
+  );
+  const systemPrompt = renderPrompt(
+    "feedback-system",
+    { level },
+    params.promptVersions?.system
+  );
+
+  const { object } = await generateObject({
+    model: resolved.model,
+    schema: defenseSchema,
+    prompt: evaluationPrompt.text,
+    system: systemPrompt.text,
+  });
+
+  return {
+    evaluation: object,
+    promptVersions: {
+      "feedback-system": systemPrompt.label,
+      "feedback-evaluation": evaluationPrompt.label,
+    },
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * LaTeX to plain text conversion for thesis sources.
+ * Resolves \input / \include across the files of an uploaded project,
+ * keeps sectioning commands as Markdown-style "#" headings so section
+ * detection still works, and strips the remaining macros.
+ */
+
+// Guards against \input cycles and runaway nesting
+const MAX_INCLUDE_DEPTH = 10;
+
+// Formatting commands whose argument is kept as plain text
+const UNWRAP_COMMANDS = [
+  "textbf",
+  "textit",
+  "texttt",
+  "textsc",
+  "textrm",
+  "textsf",
+  "emph",
+  "underline",
+  "mbox",
+  "hbox",
+  "text",
+  "url",
+  "footnote",
+  "caption",
+  "title",
+  "author",
+];
+
+// Commands dropped together with their argument
+const DROP_COMMANDS = [
+  "label",
+  "bibliographystyle",
+  "bibliography",
+  "usepackage",
+  "documentclass",
+  "includegraphics",
+  "vspace",
+  "hspace",
+  "pagestyle",
+  "thispagestyle",
+  "setlength",
+  "newcommand",
+  "renewcommand",
+];
+
+/**
+ * Pick the main file of a LaTeX project: the one with \documentclass,
+ * preferring conventional names when several files have one
+ */
+export function findMainLatexFile(files: Map<string, string>): string | null {
+  const candidates = Array.from(files.keys()).filter((path) =>
+    /\\documentclass/.test(files.get(path) || "")
+  );
+
+  if (candidates.length === 0) {
+    const texFiles = Array.from(files.keys()).filter((path) =>
+      path.endsWith(".tex")
+    );
+    return texFiles.length === 1 ? texFiles[0] : null;
+  }
+
+  return (
+    candidates.find((path) => /(^|\/)(main|thesis|report)\.tex$/i.test(path)) ||
+    candidates.sort((a, b) => a.split("/").length - b.split("/").length)[0]
+  );
+}
+
+/**
+ * Convert a LaTeX project to plain text starting from its main file.
+ * BibTeX databases referenced by the project become its reference list.
+ * @param files - Map of project-relative paths to file contents
+ * @param mainPath - Path of the main .tex file
+ */
+export function latexProjectToText(
+  files: Map<string, string>,
+  mainPath: string
+): string {
+  const source = resolveIncludes(
+    files,
+    mainPath,
+    directoryOf(mainPath),
+    0,
+    new Set()
+  );
+  return latexToText(inlineBibliography(files, source, directoryOf(mainPath)));
+}
+
+/**
+ * Convert a single LaTeX source string to plain text
+ */
+export function latexToText(source: string): string {
+  let text = stripComments(source);
+
+  // Only the document body matters; the preamble holds macros and packages
+  const bodyStart = text.indexOf("\\begin{document}");
+  if (bodyStart !== -1) {
+    const preamble = text.slice(0, bodyStart);
+    const title = preamble.match(/\\title\{([^}]*)\}/)?.[1];
+    text = (title ? `${title}\n` : "") + text.slice(bodyStart);
+  }
+  text = text.replace(/\\end\{document\}[\s\S]*$/, "");
+
+  // Captions become their own numbered line so figures and tables stay
+  // identifiable
+  text = numberCaptions(text);
+  text = text.replace(/\\caption(?:\[[^\]]*\])?\{/g, "\n\\caption{");
+
+  for (const command of DROP_COMMANDS) {
+    text = text.replace(
+      new RegExp(`\\\\${command}\\*?(?:\\[[^\\]]*\\])?(?:\\{[^}]*\\})*`, "g"),
+      ""
+    );
+  }
+  // Repeat so nested formatting such as \textbf{\emph{x}} is fully unwrapped
+  for (let pass = 0; pass < 3; pass++) {
+    for (const command of UNWRAP_COMMANDS) {
+      text = text.replace(
+        new RegExp(`\\\\${command}\\*?(?:\\[[^\\]]*\\])?\\{([^{}]*)\\}`, "g"),
+        "$1"
+      );
+    }
+  }
+
+  // Chapters shift section levels down by one
+  const hasChapters = /\\chapter\*?\{/.test(text);
+  const levels: Record<string, number> = hasChapters
+    ? { chapter: 1, section: 2, subsection: 3, subsubsection: 4 }
+    : { section: 1, subsection: 2, subsubsection: 3 };
+
+  text = text.replace(
+    /\\(chapter|section|subsection|subsubsection)\*?(?:\[[^\]]*\])?\{([^}]*)\}/g,
+    (_match, command: string, title: string) =>
+      `\n${"#".repeat(levels[command] || 1)} ${title.trim()}\n`
+  );
+  text = text.replace(/\\paragraph\*?\{([^}]*)\}/g, "\n$1\n");
+  text = text.replace(/\\begin\{abstract\}/g, "\n# Abstract\n");
+  text = text.replace(/\\appendix\b/g, "\n# Appendix\n");
+
+  // Manual bibliographies: \bibitem{key} entry
+  text = text.replace(
+    /\\begin\{thebibliography\}\{[^}]*\}/g,
+    "\n# References\n"
+  );
+  text = text.replace(/\\bibitem(?:\[[^\]]*\])?\{([^}]*)\}/g, "\n[$1] ");
+
+  // Keep citation keys and cross-references readable
+  text = text.replace(/\\nocite\{[^}]*\}/g, "");
+  text = text.replace(
+    /\\[a-zA-Z]*cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{([^}]*)\}/g,
+    "[$1]"
+  );
+  text = text.replace(/\\(?:ref|eqref|autoref|cref|Cref)\{([^}]*)\}/g, "$1");
+
+  text = text
+    .replace(/\\item(?:\[([^\]]*)\])?\s*/g, (_match, label?: string) =>
+      label ? `\n- ${label}: ` : "\n- "
+    )
+    .replace(/\\(?:begin|end)\{[^}]*\}(?:\{[^}]*\}|\[[^\]]*\])*/g, "\n")
+    .replace(/\\\\(?:\[[^\]]*\])?/g, "\n")
+    .replace(/\\(?:%|&|\$|#|_|\{|\})/g, (match) => match.slice(1))
+    .replace(/~/g, " ")
+    .replace(/``|''/g, '"')
+    // Any remaining command without a kept argument
+    .replace(/\\[a-zA-Z@]+\*?/g, "")
+    .replace(/[{}]/g, "");
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Inline \input{...} and \include{...} files. LaTeX resolves them against
+ * the main file's directory; we also try the including file's directory and
+ * the archive root to tolerate unusual layouts.
+ */
+function resolveIncludes(
+  files: Map<string, string>,
+  path: string,
+  rootDirectory: string,
+  depth: number,
+  visited: Set<string>
+): string {
+  const source = files.get(path);
+  if (source === undefined || visited.has(path)) {
+    return "";
+  }
+  if (depth > MAX_INCLUDE_DEPTH) {
+    console.warn(`LaTeX include depth exceeded at ${path}`);
+    return "";
+  }
+
+  visited.add(path);
+  const directory = directoryOf(path);
+
+  const resolved = stripComments(source).replace(
+    /\\(?:input|include|subfile)\{([^}]+)\}/g,
+    (_match, target: string) => {
+      const name = target.trim().endsWith(".tex")
+        ? target.trim()
+        : `${target.trim()}.tex`;
+      const includePath = [rootDirectory + name, directory + name, name]
+        .map(normalizePath)
+        .find((candidate) => files.has(candidate));
+
+      if (!includePath) {
+        console.warn(`LaTeX include not found in upload: ${target}`);
+        return "";
+      }
+      return `\n${resolveIncludes(
+        files,
+        includePath,
+        rootDirectory,
+        depth + 1,
+        visited
+      )}\n`;
+    }
+  );
+
+  visited.delete(path);
+  return resolved;
+}
+
+/**
+ * Prefix captions with "Figure 3.2: " or "Table 4: " the way LaTeX numbers
+ * them: per chapter when the document has chapters, otherwise throughout
+ */
+function numberCaptions(text: string): string {
+  const hasChapters = /\\chapter\{/.test(text);
+  const counters: Record<string, number> = {};
+  let chapter = 0;
+  let environment = "";
+
+  return text.replace(
+    /\\chapter(?=\{)|\\begin\{(figure|table|wrapfigure|sidewaystable|algorithm|lstlisting)\*?\}|\\caption(?:\[[^\]]*\])?\{/g,
+    (match: string, begun?: string) => {
+      if (match === "\\chapter") {
+        chapter++;
+        Object.keys(counters).forEach((kind) => (counters[kind] = 0));
+        return match;
+      }
+      if (begun) {
+        environment = begun;
+        return match;
+      }
+
+      const kind = /table/.test(environment)
+        ? "Table"
+        : environment === "algorithm"
+        ? "Algorithm"
+        : environment === "lstlisting"
+        ? "Listing"
+        : "Figure";
+      counters[kind] = (counters[kind] || 0) + 1;
+      const number = hasChapters
+        ? `${chapter}.${counters[kind]}`
+        : `${counters[kind]}`;
+      return `${match}${kind} ${number}: `;
+    }
+  );
+}
+
+/**
+ * Replace \bibliography{...} or \printbibliography with the cited entries
+ * of the project's .bib files, written as a thebibliography environment
+ */
+function inlineBibliography(
+  files: Map<string, string>,
+  source: string,
+  rootDirectory: string
+): string {
+  const names = [
+    ...Array.from(source.matchAll(/\\bibliography\{([^}]*)\}/g)).flatMap(
+      (match) => match[1].split(",")
+    ),
+    ...Array.from(
+      source.matchAll(/\\addbibresource(?:\[[^\]]*\])?\{([^}]*)\}/g)
+    ).map((match) => match[1]),
+  ].map((name) =>
+    name.trim().endsWith(".bib") ? name.trim() : `${name.trim()}.bib`
+  );
+
+  const placeholder =
+    /\\(?:bibliography\{[^}]*\}|printbibliography(?:\[[^\]]*\])?)/;
+  if (names.length === 0 || !placeholder.test(source)) {
+    return source;
+  }
+
+  const entries = names.flatMap((name) => {
+    const path = [rootDirectory + name, name]
+      .map(normalizePath)
+      .find((candidate) => files.has(candidate));
+    if (!path) {
+      console.warn(`BibTeX file not found in upload: ${name}`);
+      return [];
+    }
+    return parseBibtex(files.get(path)!);
+  });
+
+  // BibTeX lists only the cited entries unless \nocite{*} asks for all
+  const citedKeys = new Set(
+    Array.from(
+      source.matchAll(/\\[a-zA-Z]*cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{([^}]*)\}/g)
+    ).flatMap((match) => match[1].split(",").map((key) => key.trim()))
+  );
+  const items = entries
+    .filter((entry) => citedKeys.has("*") || citedKeys.has(entry.key))
+    .map((entry) => `\\bibitem{${entry.key}} ${formatBibtexEntry(entry)}`);
+
+  return source.replace(
+    placeholder,
+    () =>
+      `\n\\begin{thebibliography}{}\n${items.join(
+        "\n"
+      )}\n\\end{thebibliography}\n`
+  );
+}
+
+interface BibtexEntry {
+  key: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Read the entries of a .bib file. Values may be braced (with nesting),
+ * quoted or bare numbers.
+ */
+function parseBibtex(source: string): BibtexEntry[] {
+  const entries: BibtexEntry[] = [];
+  const entryPattern = /@(\w+)\s*\{\s*([^,\s]+)\s*,/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(source))) {
+    const type = match[1].toLowerCase();
+    if (type === "comment" || type === "string" || type === "preamble") {
+      continue;
+    }
+
+    const fields: Record<string, string> = {};
+    let position = entryPattern.lastIndex;
+    const fieldPattern = /\s*(\w+)\s*=\s*/y;
+
+    while (position < source.length) {
+      fieldPattern.lastIndex = position;
+      const field = fieldPattern.exec(source);
+      if (!field) break;
+      position = fieldPattern.lastIndex;
+
+      const [value, end] = readBibtexValue(source, position);
+      fields[field[1].toLowerCase()] = value.replace(/\s+/g, " ").trim();
+      position = end;
+
+      // Fields are separated by commas; "}" closes the entry
+      const separator = source.slice(position).match(/^\s*([,}])/);
+      if (!separator || separator[1] === "}") break;
+      position += separator[0].length;
+    }
+
+    entries.push({ key: match[2], fields });
+    entryPattern.lastIndex = position;
+  }
+
+  return entries;
+}
+
+/**
+ * Read one field value starting at position; returns it and where it ends
+ */
+function readBibtexValue(source: string, position: number): [string, number] {
+  const opening = source[position];
+
+  if (opening === "{" || opening === '"') {
+    const closing = opening === "{" ? "}" : '"';
+    let depth = 0;
+    for (let i = position + 1; i < source.length; i++) {
+      const char = source[i];
+      if (char === "{") depth++;
+      else if (char === "}" && depth > 0) depth--;
+      else if (char === closing && depth === 0) {
+        return [source.slice(position + 1, i).replace(/[{}]/g, ""), i + 1];
+      }
+    }
+    return [source.slice(position + 1), source.length];
+  }
+
+  const bare = source.slice(position).match(/^[^,}]*/)![0];
+  return [bare, position + bare.length];
+}
+
+/**
+ * Format an entry in author-year style: "Smith, J., Doe, A. (2019). Title. Venue."
+ */
+function formatBibtexEntry(entry: BibtexEntry): string {
+  const { fields } = entry;
+  const authors = (fields.author || fields.editor || "")
+    .split(/\s+and\s+/)
+    .filter(Boolean)
+    .map((name) => {
+      const [last, first] = name.includes(",")
+        ? name.split(",").map((part) => part.trim())
+        : [
+            name.trim().split(/\s+/).pop() || "",
+            name.trim().split(/\s+/).slice(0, -1).join(" "),
+          ];
+      const initials = (first || "")
+        .split(/[\s-]+/)
+        .filter(Boolean)
+        .map((part) => `${part[0]}.`)
+        .join(" ");
+      return initials ? `${last}, ${initials}` : last;
+    })
+    .join(", ");
+  const venue =
+    fields.journal ||
+    fields.booktitle ||
+    fields.publisher ||
+    fields.howpublished ||
+    fields.institution ||
+    fields.school;
+
+  return [
+    `${authors}${fields.year ? ` (${fields.year})` : ""}.`,
+    fields.title ? `${fields.title}.` : "",
+    venue ? `${venue}.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Remove % comments, keeping escaped \% signs
+ */
+function stripComments(source: string): string {
+  return source
+    .split("\n")
+    .map((line) => line.replace(/(^|[^\\])%.*$/, "$1"))
+    .join("\n");
+}
+
+function directoryOf(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/^\.\//, "").split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return parts.join("/");
+}
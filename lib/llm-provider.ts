@@ -0,0 +1,143 @@
+/**
+ * Language models by purpose.
+ * Every AI call asks for the model for what it does instead of naming one,
+ * so the provider is chosen in one place: Google Gemini by default, a local
+ * OpenAI-compatible server, or a scripted mock that needs no network.
+ *
+ * NEXT_PUBLIC_LLM_PROVIDER picks the provider for every purpose;
+ * NEXT_PUBLIC_LLM_<PURPOSE>_MODEL overrides the model of one purpose, as
+ * "model" or "provider:model", e.g. "openai-compatible:llama3.1".
+ */
+
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModelV1 } from "ai";
+
+import { createMockLanguageModel } from "@/lib/mock-llm";
+
+export type ModelPurpose = "questions" | "summary" | "examination" | "feedback";
+
+export type LlmProvider = "google" | "openai-compatible" | "mock";
+
+export const LLM_PROVIDERS: LlmProvider[] = [
+  "google",
+  "openai-compatible",
+  "mock",
+];
+
+export interface ResolvedModel {
+  model: LanguageModelV1;
+  provider: LlmProvider;
+  modelId: string;
+  label: string; // "provider:model", stored with what the model wrote
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, Record<ModelPurpose, string>> = {
+  google: {
+    questions: "gemini-1.5-flash",
+    summary: "gemini-1.5-flash",
+    examination: "gemini-2.0-flash-001",
+    feedback: "gemini-2.0-flash-001",
+  },
+  "openai-compatible": {
+    questions: "llama3.1",
+    summary: "llama3.1",
+    examination: "llama3.1",
+    feedback: "llama3.1",
+  },
+  mock: {
+    questions: "mock-questions",
+    summary: "mock-summary",
+    examination: "mock-examination",
+    feedback: "mock-feedback",
+  },
+};
+
+// Next.js only inlines public variables read by their full name, so each
+// one is spelled out
+const MODEL_SETTINGS: Record<ModelPurpose, () => string | undefined> = {
+  questions: () => process.env.NEXT_PUBLIC_LLM_QUESTIONS_MODEL,
+  summary: () => process.env.NEXT_PUBLIC_LLM_SUMMARY_MODEL,
+  examination: () => process.env.NEXT_PUBLIC_LLM_EXAMINATION_MODEL,
+  feedback: () => process.env.NEXT_PUBLIC_LLM_FEEDBACK_MODEL,
+};
+
+/**
+ * The model configured for a purpose, or null when its provider is not set
+ * up (e.g. no API key); callers then use their offline fallback
+ */
+export function resolveModel(purpose: ModelPurpose): ResolvedModel | null {
+  const { provider, modelId } = parseModelSetting(
+    MODEL_SETTINGS[purpose](),
+    defaultProvider()
+  );
+  const id = modelId || DEFAULT_MODELS[provider][purpose];
+  const resolved = (model: LanguageModelV1): ResolvedModel => ({
+    model,
+    provider,
+    modelId: id,
+    label: `${provider}:${id}`,
+  });
+
+  switch (provider) {
+    case "google": {
+      // Server code reads the private key, browser code the public one
+      const apiKey =
+        process.env.GOOGLE_GENERATIVE_AI_API_KEY ||
+        process.env.NEXT_PUBLIC_GOOGLE_GENERATIVE_AI_API_KEY;
+      if (!apiKey) return null;
+      return resolved(
+        createGoogleGenerativeAI({ apiKey })(id, { structuredOutputs: false })
+      );
+    }
+    case "openai-compatible": {
+      const baseURL = process.env.NEXT_PUBLIC_OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseURL) return null;
+      // Local servers usually need no key; a hosted one's stays server-side
+      return resolved(
+        createOpenAICompatible({
+          name: "openai-compatible",
+          baseURL,
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        })(id)
+      );
+    }
+    case "mock":
+      return resolved(createMockLanguageModel(purpose));
+  }
+}
+
+function defaultProvider(): LlmProvider {
+  const setting = process.env.NEXT_PUBLIC_LLM_PROVIDER;
+  if (!setting) return "google";
+  if (isProvider(setting)) return setting;
+
+  console.warn(`Unknown LLM provider "${setting}" - using google`);
+  return "google";
+}
+
+/**
+ * Split "provider:model"; model IDs may contain colons themselves, e.g.
+ * "llama3.1:8b", so only a known provider name counts as a prefix
+ */
+function parseModelSetting(
+  setting: string | undefined,
+  fallbackProvider: LlmProvider
+): { provider: LlmProvider; modelId?: string } {
+  const value = setting?.trim();
+  if (!value) return { provider: fallbackProvider };
+
+  const separator = value.indexOf(":");
+  const prefix = separator > 0 ? value.slice(0, separator) : "";
+  if (isProvider(prefix)) {
+    return {
+      provider: prefix,
+      modelId: value.slice(separator + 1) || undefined,
+    };
+  }
+  return { provider: fallbackProvider, modelId: value };
+}
+
+function isProvider(value: string): value is LlmProvider {
+  return (LLM_PROVIDERS as string[]).includes(value);
+}
@@ -0,0 +1,303 @@
+/**
+ * Scripted language model for running the app, and testing it, with no
+ * network. Responses depend only on the purpose and the prompt, so the same
+ * input always gives the same output.
+ */
+
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+} from "ai";
+
+import type { ModelPurpose } from "@/lib/llm-provider";
+import {
+  detectDiscipline,
+  getTemplateQuestions,
+} from "@/lib/question-templates";
+
+export interface MockCall {
+  purpose: ModelPurpose;
+  prompt: string; // All text of the prompt, system message first
+  schema?: JsonSchema; // Set when an object is requested
+}
+
+// Returns text, or the object itself when an object is requested
+export type MockScript = (call: MockCall) => unknown;
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema | JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  minimum?: number;
+}
+
+const EXAMINER_LINES = [
+  "Thank you. Can you walk me through the main design decision behind that part of your project?",
+  "That is a reasonable answer. How did you validate that it actually works as you describe?",
+  "Let us move on. What would you do differently if you started this project again?",
+  "Your documents mention this only briefly. Can you explain the reasoning in more detail?",
+  "Good. What are the main limitations of that approach?",
+];
+
+const DEFAULT_SCRIPTS: Record<ModelPurpose, MockScript> = {
+  questions: ({ prompt, schema }) => {
+    const pool = getTemplateQuestions({
+      discipline: detectDiscipline({ text: prompt }),
+      count: 20,
+    });
+    const questions = schema?.properties?.questions;
+
+    // A single replacement question
+    if (schema?.properties?.text) {
+      return pool[hashText(prompt) % pool.length];
+    }
+    if (!questions) {
+      return pool.map((question) => question.text).join("\n");
+    }
+    const items = Array.isArray(questions.items)
+      ? questions.items[0]
+      : questions.items;
+    return {
+      questions:
+        items?.type === "string" ? pool.map((question) => question.text) : pool,
+    };
+  },
+
+  // The first sentences of the text after the instructions
+  summary: ({ prompt }) => {
+    const text = prompt.split("\n\n").pop() || prompt;
+    return (
+      text
+        .replace(/\s+/g, " ")
+        .match(/[^.!?]+[.!?]/g)
+        ?.slice(0, 2)
+        .join("")
+        .trim() || text.slice(0, 200)
+    );
+  },
+
+  // Points at the most relevant document passage, as the real examiner should
+  examination: ({ prompt, schema }) => {
+    const line = EXAMINER_LINES[hashText(prompt) % EXAMINER_LINES.length];
+    const source = prompt.match(/Student's Documents:\n\[([^\]\n]+)\]/)?.[1];
+    const followUp = source ? `Let us look at ${source}. ${line}` : line;
+
+    const decisions = schema?.properties?.decision?.enum as
+      | string[]
+      | undefined;
+    if (!decisions) return followUp;
+
+    // Short answers get a follow-up while one is allowed
+    const answer = prompt.split("## Current Student Message:\n").pop() || "";
+    const decision =
+      decisions.includes("follow-up") &&
+      (answer.split(/\s+/).length < 20 || decisions.length === 1)
+        ? "follow-up"
+        : decisions.find((option) => option !== "follow-up") || decisions[0];
+    const nextQuestion = prompt.match(/next planned question: "(.+)"/)?.[1];
+
+    return {
+      decision,
+      response:
+        decision === "move-on"
+          ? `Thank you, I have noted that against ${
+              source || "your documents"
+            }. ${nextQuestion || line}`
+          : decision === "wrap-up"
+          ? "Thank you, that concludes the examination."
+          : followUp,
+    };
+  },
+
+  // Longer answers score higher, so weak and strong transcripts differ
+  feedback: ({ prompt }) => {
+    const answers = prompt.match(/^- user: .*$/gm) || [];
+    const words = answers.join(" ").split(/\s+/).length;
+    // The inconsistencies found at upload, as the evaluator is asked to report
+    const documentGaps =
+      prompt
+        .match(/Inconsistencies \(found automatically\):\n((?:- .*\n)+)/)?.[1]
+        .trim()
+        .split("\n")
+        .map((gap) => gap.slice(2)) || [];
+    const totalScore = Math.min(
+      90,
+      40 + Math.round(words / Math.max(answers.length, 1))
+    );
+
+    return {
+      totalScore,
+      categoryScores: [
+        {
+          name: "Technical Accuracy",
+          score: totalScore + 3,
+          comment: "Technical answers were mostly correct but lacked detail.",
+        },
+        {
+          name: "Documentation Alignment",
+          score: totalScore - 2,
+          comment: "Answers generally matched the submitted documents.",
+        },
+        {
+          name: "Response Structure",
+          score: totalScore + 2,
+          comment: "Answers were organized, with room for more concise points.",
+        },
+        {
+          name: "Critical Thinking",
+          score: totalScore - 4,
+          comment: "Trade-offs were mentioned but not always justified.",
+        },
+        {
+          name: "Time Management",
+          score: totalScore + 1,
+          comment: "Most questions were answered in reasonable time.",
+        },
+      ],
+      strengths: [
+        "Clear explanation of the project goals",
+        "Familiarity with the chosen technologies",
+        "Calm and structured delivery",
+      ],
+      areasForImprovement: [
+        "Justify design decisions with evidence",
+        "Discuss the limitations of the evaluation",
+        "Relate answers more closely to the report",
+      ],
+      finalAssessment:
+        "A solid defense that would benefit from deeper justification of the technical choices.",
+      documentGaps,
+      implementationSuggestions: ["Add an evaluation against a baseline"],
+    };
+  },
+};
+
+/**
+ * A scripted model for one purpose
+ * @param script - Replaces the default responses, e.g. in tests
+ */
+export function createMockLanguageModel(
+  purpose: ModelPurpose,
+  script: MockScript = DEFAULT_SCRIPTS[purpose]
+): LanguageModelV1 {
+  const doGenerate = async (options: LanguageModelV1CallOptions) => {
+    const prompt = options.prompt
+      .map((message) =>
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .join("")
+      )
+      .join("\n\n");
+    const { mode } = options;
+    const schema =
+      mode.type === "object-json"
+        ? (mode.schema as JsonSchema | undefined)
+        : mode.type === "object-tool"
+        ? (mode.tool.parameters as JsonSchema)
+        : undefined;
+
+    const output = script({ purpose, prompt, schema });
+    const text = typeof output === "string" ? output : JSON.stringify(output);
+    // Objects with no script of their own fill the schema with placeholders
+    const objectText =
+      schema && typeof output === "string"
+        ? JSON.stringify(sampleFromSchema(schema))
+        : text;
+
+    return {
+      ...(mode.type === "object-tool"
+        ? {
+            toolCalls: [
+              {
+                toolCallType: "function" as const,
+                toolCallId: "mock-tool-call",
+                toolName: mode.tool.name,
+                args: objectText,
+              },
+            ],
+          }
+        : { text: mode.type === "object-json" ? objectText : text }),
+      finishReason: "stop" as const,
+      usage: {
+        promptTokens: Math.ceil(prompt.length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+      },
+      rawCall: { rawPrompt: prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId: `mock-${purpose}`,
+    defaultObjectGenerationMode: "json",
+    doGenerate,
+    async doStream(options) {
+      const result = await doGenerate(options);
+      const text = "text" in result ? result.text : undefined;
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          if (text) {
+            controller.enqueue({ type: "text-delta", textDelta: text });
+          }
+          controller.enqueue({
+            type: "finish",
+            finishReason: result.finishReason,
+            usage: result.usage,
+          });
+          controller.close();
+        },
+      });
+      return { stream, rawCall: result.rawCall };
+    },
+  };
+}
+
+/**
+ * The simplest value that satisfies a JSON schema
+ */
+function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [
+          key,
+          sampleFromSchema(value),
+        ])
+      );
+    case "array":
+      return Array.isArray(schema.items)
+        ? schema.items.map(sampleFromSchema)
+        : schema.items
+        ? [sampleFromSchema(schema.items)]
+        : [];
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return "mock";
+  }
+}
+
+// Stable across runs, unlike Math.random
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
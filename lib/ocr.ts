@@ -0,0 +1,109 @@
+/**
+ * Server-side OCR for scanned PDFs.
+ * Pages are rasterized with PDF.js on node-canvas and recognized with
+ * tesseract.js, using the English language data bundled in
+ * @tesseract.js-data/eng so no network access is needed.
+ * Only import this from server code; it depends on native modules.
+ */
+
+import { createCanvas, type Canvas } from "canvas";
+import { createWorker, OEM } from "tesseract.js";
+import englishData from "@tesseract.js-data/eng";
+
+import type { OcrPageResult } from "@/lib/document-extractors";
+
+// Render at 2x so small body text is large enough for Tesseract
+const OCR_RENDER_SCALE = 2;
+// Upper bound on pages recognized per document to keep requests bounded
+export const MAX_OCR_PAGES = 40;
+
+interface CanvasTarget {
+  canvas: Canvas | null;
+  context: ReturnType<Canvas["getContext"]> | null;
+}
+
+/**
+ * Canvas factory handed to PDF.js so that it renders with the same
+ * node-canvas module we read the image back from
+ */
+const nodeCanvasFactory = {
+  create(width: number, height: number): CanvasTarget {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  },
+  reset(target: CanvasTarget, width: number, height: number) {
+    if (target.canvas) {
+      target.canvas.width = width;
+      target.canvas.height = height;
+    }
+  },
+  destroy(target: CanvasTarget) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  },
+};
+
+/**
+ * Rasterize the given PDF pages and recognize their text.
+ * Returns one result per recognized page with Tesseract's mean confidence (0-100).
+ */
+export async function recognizePdfPages(
+  data: ArrayBuffer,
+  pageNumbers: number[]
+): Promise<OcrPageResult[]> {
+  const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.js");
+  const pdf = await pdfjsLib.getDocument({
+    data: new Uint8Array(data.slice(0)),
+    canvasFactory: nodeCanvasFactory,
+  }).promise;
+
+  const worker = await createWorker(englishData.code, OEM.LSTM_ONLY, {
+    langPath: englishData.langPath,
+    gzip: englishData.gzip,
+    // The language data is read from node_modules; never cache or download it
+    cacheMethod: "none",
+  });
+
+  const results: OcrPageResult[] = [];
+
+  try {
+    for (const pageNumber of pageNumbers.slice(0, MAX_OCR_PAGES)) {
+      if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const target = nodeCanvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      try {
+        await page.render({
+          canvasContext: target.context as unknown as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        const image = target.canvas!.toBuffer("image/png");
+        const { data: recognized } = await worker.recognize(image);
+
+        results.push({
+          pageNumber,
+          text: recognized.text.trim(),
+          confidence: Math.round(recognized.confidence),
+        });
+      } finally {
+        nodeCanvasFactory.destroy(target);
+        page.cleanup();
+      }
+    }
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,563 @@
+/**
+ * Offline evaluation of the examiner and feedback prompts.
+ * Golden cases (a session, its document passages and a defense transcript)
+ * are replayed through the same logic as the examination route and
+ * createFeedback, and the answers are checked for schema validity, score
+ * stability, rubric coverage and forbidden examiner behavior. Reports of two
+ * runs, e.g. before and after a prompt change, can be compared.
+ *
+ * Cases with a question plan also track the examination state, one minute
+ * per transcript message, so the examiner chooses decisions as in the route.
+ */
+
+import { defenseSchema } from "@/constants";
+import type { DocumentChunk } from "@/lib/document-processor";
+import {
+  DEFAULT_EXAMINATION_LIMITS,
+  createExaminationState,
+  planExaminerTurn,
+  recordExaminerTurn,
+  type ExaminationDecision,
+  type ExaminationState,
+} from "@/lib/examination-state";
+import { generateExaminerTurn, type ExaminerMessage } from "@/lib/examiner";
+import {
+  evaluateDefense,
+  type DefenseEvaluation,
+  type EvaluatedSession,
+} from "@/lib/feedback-evaluator";
+import type { ResolvedModel } from "@/lib/llm-provider";
+import type { PromptVersions } from "@/lib/prompts";
+
+export interface GoldenCase {
+  id: string;
+  description: string;
+  session: EvaluatedSession & { academicLevel?: string; questions?: string[] };
+  chunks: DocumentChunk[]; // Passages of the session's documents
+  transcript: ExaminerMessage[];
+  consistencyGaps?: string[];
+  expectations?: {
+    score?: { min: number; max: number }; // Expected total score
+    // Each list needs at least one of its terms in the examiner's reply to
+    // the student answer at that transcript index
+    examinerMustMention?: { turn: number; any: string[] }[];
+    // The examiner's decision at a transcript index must be one of these
+    examinerDecisions?: { turn: number; any: ExaminationDecision[] }[];
+    // Each list needs at least one of its terms somewhere in the feedback
+    feedbackMustMention?: string[][];
+  };
+}
+
+export interface EvalOptions {
+  runs: number; // Feedback runs per case, for score stability
+  maxScoreRange: number; // Largest accepted spread of total scores
+  // Prompt versions to evaluate instead of the current ones
+  examinerPrompts?: { system?: number; turn?: number };
+  feedbackPrompts?: { system?: number; evaluation?: number };
+}
+
+export const DEFAULT_EVAL_OPTIONS: EvalOptions = {
+  runs: 3,
+  maxScoreRange: 10,
+};
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface ExaminerTurnResult {
+  turn: number; // Transcript index of the student answer replied to
+  text: string;
+  decision?: ExaminationDecision; // Set for cases with a question plan
+  violations: string[];
+}
+
+export interface CaseResult {
+  id: string;
+  description: string;
+  examinerTurns: ExaminerTurnResult[];
+  scores: number[]; // Total score of each valid feedback run
+  invalidRuns: number; // Feedback runs that failed or broke the schema
+  checks: EvalCheck[];
+  passed: boolean;
+}
+
+export interface EvalReport {
+  createdAt: string;
+  models: { examination: string; feedback: string };
+  promptVersions: PromptVersions;
+  options: EvalOptions;
+  cases: CaseResult[];
+  summary: EvalSummary;
+}
+
+export interface EvalSummary {
+  cases: number;
+  passedCases: number;
+  schemaValidRate: number; // Valid feedback runs over all runs
+  meanScoreRange: number;
+  rubricCoverageRate: number; // Rubric checks passed over all rubric checks
+  forbiddenBehaviors: number; // Examiner replies with any violation
+}
+
+// Things the examiner must not say during the examination
+const FORBIDDEN_BEHAVIORS: { name: string; pattern: RegExp }[] = [
+  {
+    name: "feedback mid-exam",
+    pattern:
+      /\b(your (final |overall )?(score|grade|mark)|you (scored|earned|would get)|areas? for improvement|overall (performance|assessment)|\d{1,3}\s*(\/|out of)\s*(10|100)\b)/i,
+  },
+  {
+    name: "prompt disclosure",
+    pattern:
+      /\b(system prompt|my instructions|as an ai|language model|examination questions have been provided)\b/i,
+  },
+];
+
+// Examiner replies are spoken, so long ones lose the student
+const MAX_EXAMINER_WORDS = 120;
+const MAX_EXAMINER_QUESTIONS = 2;
+
+const RUBRIC_CATEGORIES = [
+  "Technical Accuracy",
+  "Documentation Alignment",
+  "Response Structure",
+  "Critical Thinking",
+  "Time Management",
+];
+
+/**
+ * Replay every golden case and collect the results
+ */
+export async function runEvaluation(
+  cases: GoldenCase[],
+  models: { examination: ResolvedModel; feedback: ResolvedModel },
+  options: EvalOptions = DEFAULT_EVAL_OPTIONS
+): Promise<EvalReport> {
+  const results: CaseResult[] = [];
+  let promptVersions: PromptVersions = {};
+
+  for (const goldenCase of cases) {
+    console.log(`Evaluating ${goldenCase.id}...`);
+    const { result, versions } = await evaluateCase(
+      goldenCase,
+      models,
+      options
+    );
+    results.push(result);
+    promptVersions = { ...promptVersions, ...versions };
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    models: {
+      examination: models.examination.label,
+      feedback: models.feedback.label,
+    },
+    promptVersions,
+    options,
+    cases: results,
+    summary: summarize(results, options),
+  };
+}
+
+async function evaluateCase(
+  goldenCase: GoldenCase,
+  models: { examination: ResolvedModel; feedback: ResolvedModel },
+  options: EvalOptions
+): Promise<{ result: CaseResult; versions: PromptVersions }> {
+  const { session, transcript, expectations = {} } = goldenCase;
+  const checks: EvalCheck[] = [];
+  let versions: PromptVersions = {};
+
+  const startedAt = new Date();
+  const minute = (index: number) =>
+    new Date(startedAt.getTime() + index * 60 * 1000);
+  let state: ExaminationState | null = null;
+  if (session.questions?.length) {
+    state = createExaminationState(
+      goldenCase.id,
+      session.questions,
+      [],
+      startedAt,
+      DEFAULT_EXAMINATION_LIMITS
+    );
+    // The transcript's opening examiner message asks the first question
+    if (transcript[0]?.role === "assistant") {
+      state = recordExaminerTurn(
+        state,
+        "move-on",
+        "",
+        transcript[0].content,
+        startedAt
+      );
+    }
+  }
+
+  // Examiner: a reply to every student answer, given the exchange so far
+  const examinerTurns: ExaminerTurnResult[] = [];
+  for (let index = 0; index < transcript.length; index++) {
+    if (transcript[index].role !== "user") continue;
+
+    try {
+      const step = state ? planExaminerTurn(state, minute(index)) : null;
+      const turn = await generateExaminerTurn(models.examination, {
+        projectTitle: session.role,
+        academicLevel: session.academicLevel,
+        technologies: session.techstack?.join(", "),
+        questions: session.questions?.join("\n"),
+        projectContext: session.documentOutline,
+        message: transcript[index].content,
+        previousMessages: transcript.slice(0, index),
+        documentChunks: goldenCase.chunks,
+        promptVersions: options.examinerPrompts,
+        ...(step || {}),
+      });
+      versions = { ...versions, ...turn.promptVersions };
+      if (state && step) {
+        state = recordExaminerTurn(
+          state,
+          turn.decision || step.decisions[0],
+          transcript[index].content,
+          turn.text,
+          minute(index)
+        );
+      }
+      examinerTurns.push({
+        turn: index,
+        text: turn.text,
+        ...(turn.decision ? { decision: turn.decision } : {}),
+        violations: findExaminerViolations(turn.text),
+      });
+    } catch (error) {
+      console.error(`Examiner turn ${index} of ${goldenCase.id}:`, error);
+      examinerTurns.push({
+        turn: index,
+        text: "",
+        violations: ["generation failed"],
+      });
+    }
+  }
+
+  const violatingTurns = examinerTurns.filter(
+    (turn) => turn.violations.length > 0
+  );
+  checks.push({
+    name: "examiner behavior",
+    passed: violatingTurns.length === 0,
+    detail: violatingTurns
+      .map((turn) => `turn ${turn.turn}: ${turn.violations.join(", ")}`)
+      .join("; "),
+  });
+
+  for (const { turn, any } of expectations.examinerMustMention || []) {
+    const reply = examinerTurns.find((result) => result.turn === turn);
+    checks.push({
+      name: `examiner mentions ${any.join(" / ")} at turn ${turn}`,
+      passed: Boolean(reply && mentionsAny(reply.text, any)),
+    });
+  }
+
+  for (const { turn, any } of expectations.examinerDecisions || []) {
+    const reply = examinerTurns.find((result) => result.turn === turn);
+    checks.push({
+      name: `examiner decides ${any.join(" / ")} at turn ${turn}`,
+      passed: Boolean(reply?.decision && any.includes(reply.decision)),
+      detail: reply?.decision ? `decided ${reply.decision}` : "",
+    });
+  }
+
+  // Feedback: several runs on the same transcript
+  const evaluations: DefenseEvaluation[] = [];
+  let invalidRuns = 0;
+  for (let run = 0; run < options.runs; run++) {
+    try {
+      const { evaluation, promptVersions } = await evaluateDefense(
+        models.feedback,
+        {
+          session,
+          transcript,
+          consistencyGaps: goldenCase.consistencyGaps || [],
+          promptVersions: options.feedbackPrompts,
+        }
+      );
+      versions = { ...versions, ...promptVersions };
+      // generateObject validates already; this also catches scripted models
+      if (defenseSchema.safeParse(evaluation).success) {
+        evaluations.push(evaluation);
+      } else {
+        invalidRuns++;
+      }
+    } catch (error) {
+      console.error(`Feedback run ${run + 1} of ${goldenCase.id}:`, error);
+      invalidRuns++;
+    }
+  }
+
+  checks.push({
+    name: "feedback schema",
+    passed: invalidRuns === 0,
+    detail: invalidRuns ? `${invalidRuns} of ${options.runs} invalid` : "",
+  });
+
+  const scores = evaluations.map((evaluation) => evaluation.totalScore);
+  const range = scoreRange(scores);
+  checks.push({
+    name: "score stability",
+    passed: scores.length > 0 && range <= options.maxScoreRange,
+    detail: `scores ${scores.join(", ") || "none"}`,
+  });
+
+  if (expectations.score) {
+    const { min, max } = expectations.score;
+    checks.push({
+      name: `score within ${min}-${max}`,
+      passed:
+        scores.length > 0 &&
+        scores.every((score) => score >= min && score <= max),
+    });
+  }
+
+  checks.push(
+    ...rubricChecks(evaluations, expectations.feedbackMustMention || [])
+  );
+
+  return {
+    result: {
+      id: goldenCase.id,
+      description: goldenCase.description,
+      examinerTurns,
+      scores,
+      invalidRuns,
+      checks,
+      passed: checks.every((check) => check.passed),
+    },
+    versions,
+  };
+}
+
+/**
+ * Forbidden behaviors found in one examiner reply
+ */
+export function findExaminerViolations(text: string): string[] {
+  const violations = FORBIDDEN_BEHAVIORS.filter(({ pattern }) =>
+    pattern.test(text)
+  ).map(({ name }) => name);
+
+  if (!text.trim()) {
+    violations.push("empty reply");
+  }
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words > MAX_EXAMINER_WORDS) {
+    violations.push(`too long (${words} words)`);
+  }
+  const questions = (text.match(/\?/g) || []).length;
+  if (questions > MAX_EXAMINER_QUESTIONS) {
+    violations.push(`${questions} questions at once`);
+  }
+  return violations;
+}
+
+// Every run must fill in the whole rubric; names start with "rubric" so the
+// summary can count them
+function rubricChecks(
+  evaluations: DefenseEvaluation[],
+  mustMention: string[][]
+): EvalCheck[] {
+  const everyRun = (test: (evaluation: DefenseEvaluation) => boolean) =>
+    evaluations.length > 0 && evaluations.every(test);
+
+  const checks: EvalCheck[] = [
+    {
+      name: "rubric categories",
+      passed: everyRun((evaluation) =>
+        RUBRIC_CATEGORIES.every((name) =>
+          evaluation.categoryScores.some(
+            (category) =>
+              category.name === name &&
+              category.comment.trim().length > 0 &&
+              category.score >= 0 &&
+              category.score <= 100
+          )
+        )
+      ),
+    },
+    {
+      name: "rubric strengths (3-5)",
+      passed: everyRun(
+        (evaluation) =>
+          evaluation.strengths.length >= 3 && evaluation.strengths.length <= 5
+      ),
+    },
+    {
+      name: "rubric areas for improvement (3-5)",
+      passed: everyRun(
+        (evaluation) =>
+          evaluation.areasForImprovement.length >= 3 &&
+          evaluation.areasForImprovement.length <= 5
+      ),
+    },
+  ];
+
+  for (const terms of mustMention) {
+    checks.push({
+      name: `rubric mentions ${terms.join(" / ")}`,
+      passed: everyRun((evaluation) =>
+        mentionsAny(JSON.stringify(evaluation), terms)
+      ),
+    });
+  }
+  return checks;
+}
+
+function summarize(results: CaseResult[], options: EvalOptions): EvalSummary {
+  const totalRuns = results.length * options.runs;
+  const invalidRuns = results.reduce(
+    (sum, result) => sum + result.invalidRuns,
+    0
+  );
+  const rubric = results.flatMap((result) =>
+    result.checks.filter((check) => check.name.startsWith("rubric"))
+  );
+
+  return {
+    cases: results.length,
+    passedCases: results.filter((result) => result.passed).length,
+    schemaValidRate: totalRuns ? (totalRuns - invalidRuns) / totalRuns : 0,
+    meanScoreRange: results.length
+      ? results.reduce((sum, result) => sum + scoreRange(result.scores), 0) /
+        results.length
+      : 0,
+    rubricCoverageRate: rubric.length
+      ? rubric.filter((check) => check.passed).length / rubric.length
+      : 0,
+    forbiddenBehaviors: results.reduce(
+      (sum, result) =>
+        sum +
+        result.examinerTurns.filter((turn) => turn.violations.length > 0)
+          .length,
+      0
+    ),
+  };
+}
+
+/**
+ * A report as markdown, with the changes since a baseline report if given
+ */
+export function formatReport(report: EvalReport, baseline?: EvalReport) {
+  const lines = [
+    "# Prompt evaluation",
+    "",
+    `Models: examination ${report.models.examination}, feedback ${report.models.feedback}`,
+    `Prompts: ${Object.values(report.promptVersions).join(", ")}`,
+    `Feedback runs per case: ${report.options.runs}`,
+    "",
+  ];
+
+  if (baseline) {
+    const changedPrompts = Object.entries(report.promptVersions)
+      .filter(
+        ([id, label]) =>
+          baseline.promptVersions[id as keyof PromptVersions] !== label
+      )
+      .map(
+        ([id, label]) =>
+          `${
+            baseline.promptVersions[id as keyof PromptVersions] || id
+          } -> ${label}`
+      );
+    lines.push(
+      `Baseline: ${baseline.createdAt} (examination ${baseline.models.examination}, feedback ${baseline.models.feedback})`,
+      `Changed prompts: ${changedPrompts.join(", ") || "none"}`,
+      ""
+    );
+  }
+
+  const metrics: {
+    label: string;
+    value: (summary: EvalSummary) => number;
+    percent?: boolean;
+  }[] = [
+    { label: "Cases passed", value: (summary) => summary.passedCases },
+    {
+      label: "Schema valid",
+      value: (summary) => summary.schemaValidRate,
+      percent: true,
+    },
+    {
+      label: "Mean score range",
+      value: (summary) => summary.meanScoreRange,
+    },
+    {
+      label: "Rubric coverage",
+      value: (summary) => summary.rubricCoverageRate,
+      percent: true,
+    },
+    {
+      label: "Forbidden examiner replies",
+      value: (summary) => summary.forbiddenBehaviors,
+    },
+  ];
+  const format = (value: number, percent?: boolean) =>
+    percent ? `${Math.round(value * 100)}%` : `${Math.round(value * 10) / 10}`;
+
+  lines.push(
+    baseline ? "| Metric | Baseline | Current |" : "| Metric | Value |",
+    baseline ? "| --- | --- | --- |" : "| --- | --- |"
+  );
+  for (const { label, value, percent } of metrics) {
+    const current = format(value(report.summary), percent);
+    lines.push(
+      baseline
+        ? `| ${label} | ${format(
+            value(baseline.summary),
+            percent
+          )} | ${current} |`
+        : `| ${label} | ${current} |`
+    );
+  }
+  lines.push("");
+
+  for (const result of report.cases) {
+    const before = baseline?.cases.find((other) => other.id === result.id);
+    lines.push(
+      `## ${result.id}: ${result.passed ? "passed" : "FAILED"}${
+        before && before.passed !== result.passed
+          ? ` (was ${before.passed ? "passed" : "failed"})`
+          : ""
+      }`,
+      result.description,
+      ""
+    );
+    for (const check of result.checks) {
+      const previous = before?.checks.find(
+        (other) => other.name === check.name
+      );
+      const change =
+        previous && previous.passed !== check.passed
+          ? check.passed
+            ? " (fixed)"
+            : " (regressed)"
+          : "";
+      lines.push(
+        `- [${check.passed ? "x" : " "}] ${check.name}${change}${
+          check.detail ? `: ${check.detail}` : ""
+        }`
+      );
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function scoreRange(scores: number[]) {
+  return scores.length ? Math.max(...scores) - Math.min(...scores) : 0;
+}
+
+function mentionsAny(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  return terms.some((term) => lower.includes(term.toLowerCase()));
+}
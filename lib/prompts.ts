@@ -0,0 +1,540 @@
+/**
+ * Versioned prompt registry.
+ * Every prompt the app sends lives here with named {{variables}}. A changed
+ * prompt is added as a new version instead of editing the old one, and
+ * sessions and feedback record the versions that produced them, so quality
+ * can be compared across prompt changes.
+ */
+
+export type PromptId =
+  | "question-set"
+  | "question-regenerate"
+  | "document-questions"
+  | "interview-questions"
+  | "summary-passage"
+  | "summary-condense"
+  | "summary-document"
+  | "interviewer-system"
+  | "examiner-system"
+  | "examination-turn"
+  | "feedback-system"
+  | "feedback-evaluation";
+
+export interface PromptVersion {
+  version: number;
+  variables: string[];
+  template: string;
+}
+
+// Prompt ID to the label of the version used, e.g. "question-set@v1"
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+export type PromptVariables = Record<string, string | number>;
+
+// Versions of each prompt, oldest first; the last one is current
+const PROMPTS: Record<PromptId, PromptVersion[]> = {
+  "question-set": [
+    {
+      version: 1,
+      variables: [
+        "poolSize",
+        "academicLevel",
+        "projectContext",
+        "focusRatio",
+        "categoryMix",
+        "cognitiveMix",
+        "levelGuidance",
+      ],
+      template: `
+Generate {{poolSize}} challenging and specific questions for a {{academicLevel}} level defense of the project described below.
+
+{{projectContext}}
+Focus: {{focusRatio}}
+
+Rules:
+1. Generate exactly this mix of categories: {{categoryMix}}
+2. Technical questions probe the implementation, methodology questions challenge the research approach, alternatives questions probe other designs and related work, ethics questions cover ethics and scalability
+3. At least 40% of questions must reference specific sections
+4. Across the categories, target this mix of cognitive levels (Bloom's taxonomy): {{cognitiveMix}}
+5. {{levelGuidance}}
+
+The questions should be specific to the content in the document, referencing actual technologies, methods, and concepts mentioned.
+When a question refers to a specific part of the document, cite it using the document structure, e.g. "In Section 3.2 (p.14) you state...".
+If several documents are provided, name the one a question refers to, e.g. "On slide 4 of your presentation..." or "In your report, Section 3.2...", and include questions that draw on each of them.
+If figures and tables are listed, include at least one question asking the student to interpret a specific one by its number, e.g. "Walk us through Figure 4.2 (p.45): why does accuracy plateau after epoch 20?"
+If source code is provided, include questions about concrete files and functions from the key modules, e.g. "Walk me through what processOrder in src/orders/service.ts does when payment fails."
+If changes since the previous version are listed, at least half of the questions must address the added or modified sections, e.g. "Since your last defense you rewrote Section 4.2; why did you change the evaluation metric?"
+If references are listed, include at least one question that probes why a specific cited work was chosen, naming it by author and year, e.g. "You cite Smith (2019) for your baseline; why that over more recent work?", and one about a listed claim without a citation if there is one.
+Each question should be challenging but fair for a {{academicLevel}} level student.
+
+For each question give:
+- category: technical, methodology, alternatives or ethics, following the focus split above
+- difficulty: foundational, intermediate or advanced
+- cognitiveLevel: recall, explain, apply, analyze, evaluate or create, as defined above
+- targetSection: the section, page or slide it refers to, as cited in the question; leave it out for general questions
+- expectedPoints: 2-4 short points a strong answer would cover, based on the documents
+- rationale: one sentence on why a committee would ask it
+`,
+    },
+    {
+      version: 2,
+      variables: [
+        "poolSize",
+        "academicLevel",
+        "projectContext",
+        "focusRatio",
+        "categoryMix",
+        "cognitiveMix",
+        "levelGuidance",
+      ],
+      template: `
+Generate {{poolSize}} challenging and specific questions for a {{academicLevel}} level defense of the project described below.
+
+{{projectContext}}
+Focus: {{focusRatio}}
+
+Rules:
+1. Generate exactly this mix of categories: {{categoryMix}}
+2. Technical questions probe the implementation, architecture and scalability, methodology questions challenge the research approach, alternatives questions probe other designs and related work, ethics questions cover ethics and societal impact
+3. At least 40% of questions must reference specific sections
+4. Across the categories, target this mix of cognitive levels (Bloom's taxonomy): {{cognitiveMix}}
+5. {{levelGuidance}}
+
+The questions should be specific to the content in the document, referencing actual technologies, methods, and concepts mentioned.
+When a question refers to a specific part of the document, cite it using the document structure, e.g. "In Section 3.2 (p.14) you state...".
+If several documents are provided, name the one a question refers to, e.g. "On slide 4 of your presentation..." or "In your report, Section 3.2...", and include questions that draw on each of them.
+If figures and tables are listed, include at least one question asking the student to interpret a specific one by its number, e.g. "Walk us through Figure 4.2 (p.45): why does accuracy plateau after epoch 20?"
+If source code is provided, include questions about concrete files and functions from the key modules, e.g. "Walk me through what processOrder in src/orders/service.ts does when payment fails."
+If changes since the previous version are listed, at least half of the questions must address the added or modified sections, e.g. "Since your last defense you rewrote Section 4.2; why did you change the evaluation metric?"
+If references are listed, include at least one question that probes why a specific cited work was chosen, naming it by author and year, e.g. "You cite Smith (2019) for your baseline; why that over more recent work?", and one about a listed claim without a citation if there is one.
+Each question should be challenging but fair for a {{academicLevel}} level student.
+
+For each question give:
+- category: technical, methodology, alternatives or ethics, following the focus split above
+- difficulty: foundational, intermediate or advanced
+- cognitiveLevel: recall, explain, apply, analyze, evaluate or create, as defined above
+- targetSection: the section, page or slide it refers to, as cited in the question; leave it out for general questions
+- expectedPoints: 2-4 short points a strong answer would cover, based on the documents
+- rationale: one sentence on why a committee would ask it
+`,
+    },
+  ],
+  "question-regenerate": [
+    {
+      version: 1,
+      variables: [
+        "category",
+        "cognitiveLevel",
+        "academicLevel",
+        "replacedQuestion",
+        "projectContext",
+        "otherQuestions",
+      ],
+      template: `
+Write one new {{category}} question{{cognitiveLevel}} for a {{academicLevel}} level defense of the project described below.
+It replaces this question, which the student did not want: "{{replacedQuestion}}"
+{{projectContext}}
+
+The new question must be specific to the documents and must not repeat the replaced question or any of these:
+{{otherQuestions}}
+
+Give its category ({{category}}), difficulty, cognitiveLevel, targetSection when it refers to a specific part of the documents, 2-4 expectedPoints and a one-sentence rationale.
+`,
+    },
+  ],
+
+  "document-questions": [
+    {
+      version: 1,
+      variables: ["documentText", "academicLevel"],
+      template: `
+DOCUMENT CONTEXT:
+{{documentText}}
+
+TASK:
+Generate 10 challenging and specific questions for a {{academicLevel}} level defense of the project described above.
+The questions should probe deeply into:
+1. Technical implementation details mentioned in the document
+2. Methodological choices and their justifications
+3. Alternative approaches that could have been considered
+4. Limitations and future improvements
+5. Theoretical underpinnings of the work
+
+The questions should be specific to the content in the document, referencing actual technologies, methods, and concepts mentioned.
+Each question should be challenging but fair for a {{academicLevel}} level student.
+
+FORMAT: Return only the list of 10 questions, one per line, without numbering or additional text.
+`,
+    },
+  ],
+
+  "interview-questions": [
+    {
+      version: 1,
+      variables: ["role", "level", "techstack", "type", "amount"],
+      template: `Prepare questions for a job interview.
+The job role is {{role}}.
+The job experience level is {{level}}.
+The tech stack used in the job is: {{techstack}}.
+The focus between behavioural and technical questions should lean towards: {{type}}.
+The amount of questions required is: {{amount}}.
+The questions are going to be read by a voice assistant so do not use "/" or "*" or any other special characters which might break the voice assistant.
+
+Thank you! <3
+`,
+    },
+  ],
+
+  "summary-passage": [
+    {
+      version: 1,
+      variables: ["location", "name", "text"],
+      template: `Summarize this passage from {{location}} of "{{name}}" in 2-4 sentences.
+Keep the specific claims, methods, results, numbers and names; do not add anything that is not in the passage.
+
+PASSAGE:
+{{text}}`,
+    },
+  ],
+
+  "summary-condense": [
+    {
+      version: 1,
+      variables: ["name", "summaries"],
+      template: `Condense these section summaries of "{{name}}" into one paragraph, keeping section references in brackets and the key findings of each.
+
+{{summaries}}`,
+    },
+  ],
+
+  "summary-document": [
+    {
+      version: 1,
+      variables: ["name", "summaries"],
+      template: `Write a summary of "{{name}}" in at most 300 words based on the section summaries below.
+Cover the problem, approach, implementation, evaluation results and conclusions, and mention every chapter.
+
+SECTION SUMMARIES:
+{{summaries}}`,
+    },
+  ],
+
+  // Sent to VAPI as is; VAPI fills in {{questions}} during the call
+  "interviewer-system": [
+    {
+      version: 1,
+      variables: ["questions"],
+      template: `You are a professional academic defense examiner conducting a real-time voice assessment with a student defending their project. Your goal is to assess their technical knowledge, methodology, and implementation.
+
+Defense Guidelines:
+Follow the structured question flow:
+{{questions}}
+
+Academic Assessment Approach:
+1. Evaluate technical understanding of the implementation
+2. Assess methodology and research validity
+3. Question assumptions and decisions made in the project
+4. Test ability to respond to critical questions
+
+Engage professionally & academically:
+- Listen to responses and ask specific follow-up questions to probe deeper
+- Challenge weak points in the methodology or implementation
+- Adjust difficulty based on academic level (Bachelor's/Master's/PhD)
+- Keep questions focused on both theoretical foundations and practical implementation
+- Provide brief acknowledgments before moving to the next topic
+
+Maintain academic rigor:
+- Use formal academic language appropriate for a defense setting
+- Keep questions clear, concise and direct
+- Focus on critical thinking rather than memorization
+- Request clarification on technical terms or methodologies when needed
+
+Conclude the defense properly:
+- Thank the student for their defense presentation
+- Provide a brief general comment on the defense quality
+- Inform them that detailed feedback will be provided shortly
+- End the session professionally
+
+- Be sure to be professional and academically rigorous, but fair.
+- This is a voice conversation in an academic setting, so keep your responses concise.
+- Your role is to challenge the student academically while assessing their knowledge.`,
+    },
+  ],
+
+  "examiner-system": [
+    {
+      version: 1,
+      variables: [],
+      template: `
+You are an academic project defense examiner conducting an oral examination.
+Your task is to critically evaluate the student's understanding of their project.
+
+Follow these guidelines:
+1. Ask challenging follow-up questions based on the student's responses
+2. Probe deeper when answers lack technical depth
+3. Evaluate whether the student demonstrates mastery of the technologies mentioned
+4. Maintain a professional but demanding examination tone
+5. Focus on one topic at a time before moving to the next question
+6. Identify inconsistencies or gaps in understanding
+7. Acknowledge good answers before moving on
+8. Check answers against the passages from the student's documents; when an answer omits or contradicts them, quote the passage with its document and location (e.g. "but in your report, Section 3.2, you wrote ..." or "your slide 4 says ...")
+
+The examination questions have been provided, but you can add your own followup questions.
+Do not generate feedback during the examination; that happens after the session ends.
+`,
+    },
+  ],
+
+  "examination-turn": [
+    {
+      version: 1,
+      variables: [
+        "projectTitle",
+        "academicLevel",
+        "technologies",
+        "projectContext",
+        "questions",
+        "documentPassages",
+        "conversationHistory",
+        "message",
+      ],
+      template: `
+# PROJECT DEFENSE EXAMINATION CONTEXT
+
+## Project Information:
+- Project Title: {{projectTitle}}
+- Academic Level: {{academicLevel}}
+- Technologies Used: {{technologies}}
+
+## Examination Context:
+{{projectContext}}
+
+## Questions to Cover:
+{{questions}}
+
+## Relevant Passages From The Student's Documents:
+{{documentPassages}}
+
+## Previous Conversation:
+{{conversationHistory}}
+
+## Current Student Message:
+{{message}}
+`,
+    },
+    {
+      version: 2,
+      variables: [
+        "projectTitle",
+        "academicLevel",
+        "technologies",
+        "projectContext",
+        "questions",
+        "progress",
+        "documentPassages",
+        "conversationHistory",
+        "message",
+      ],
+      template: `
+# PROJECT DEFENSE EXAMINATION CONTEXT
+
+## Project Information:
+- Project Title: {{projectTitle}}
+- Academic Level: {{academicLevel}}
+- Technologies Used: {{technologies}}
+
+## Examination Context:
+{{projectContext}}
+
+## Questions to Cover:
+{{questions}}
+
+## Examination Progress:
+{{progress}}
+
+Work through the questions not yet asked, in order. Do not repeat a question that was already asked; when the current question has been answered well enough, move on to the next one.
+
+## Relevant Passages From The Student's Documents:
+{{documentPassages}}
+
+## Previous Conversation:
+{{conversationHistory}}
+
+## Current Student Message:
+{{message}}
+`,
+    },
+    {
+      version: 3,
+      variables: [
+        "projectTitle",
+        "academicLevel",
+        "technologies",
+        "projectContext",
+        "questions",
+        "progress",
+        "nextStep",
+        "documentPassages",
+        "conversationHistory",
+        "message",
+      ],
+      template: `
+# PROJECT DEFENSE EXAMINATION CONTEXT
+
+## Project Information:
+- Project Title: {{projectTitle}}
+- Academic Level: {{academicLevel}}
+- Technologies Used: {{technologies}}
+
+## Examination Context:
+{{projectContext}}
+
+## Questions to Cover:
+{{questions}}
+
+## Examination Progress:
+{{progress}}
+
+## Next Step:
+{{nextStep}}
+
+Follow up when the answer is vague, incomplete or contradicts the documents; move on when the current question has been answered well enough. Do not repeat a question that was already asked.
+
+## Relevant Passages From The Student's Documents:
+{{documentPassages}}
+
+## Previous Conversation:
+{{conversationHistory}}
+
+## Current Student Message:
+{{message}}
+`,
+    },
+  ],
+
+  "feedback-system": [
+    {
+      version: 1,
+      variables: ["level"],
+      template: `
+ROLE: Senior Academic Defense Evaluator
+MANDATE: Maintain {{level}} academic defense standards
+BEHAVIOR:
+- Critically evaluate technical explanations
+- Assess alignment with academic research methodology
+- Apply {{level}} grading rubrics strictly
+- Identify gaps in project implementation understanding
+- Flag inconsistencies as areas for improvement
+- Provide constructive feedback with specific improvement actions
+OUTPUT: JSON scores with detailed justification
+`,
+    },
+  ],
+
+  "feedback-evaluation": [
+    {
+      version: 1,
+      variables: [
+        "title",
+        "level",
+        "technologies",
+        "type",
+        "documentOutline",
+        "codeSummary",
+        "inconsistencies",
+        "referenceSummary",
+        "transcript",
+      ],
+      template: `
+ANALYZE PROJECT DEFENSE PERFORMANCE
+===================================
+As an academic defense evaluator, critically assess the student's defense performance using:
+
+1. Project Information:
+  - Title: {{title}}
+  - Academic Level: {{level}}
+  - Technologies Used: {{technologies}}
+  - Type: {{type}}
+  - Document Structure:
+{{documentOutline}}
+  - Source Code:
+{{codeSummary}}
+  - Slide/Report Inconsistencies (found automatically):
+{{inconsistencies}}
+  - References and Citations:
+{{referenceSummary}}
+
+2. Defense Transcript:
+{{transcript}}
+
+Evaluation Criteria (0-100):
+- **Technical Accuracy**: Understanding of {{technologies}}, implementation challenges
+- **Documentation Alignment**: Consistency between defense answers and project documentation
+- **Response Structure**: Clarity in explaining complex concepts
+- **Critical Thinking**: Quality of responses to examiner challenges
+- **Time Management**: Efficiency and focus in responses
+
+Special Instructions:
+- Identify any discrepancies or gaps in technical explanations
+- When a gap relates to the document, cite the section and page from the document structure (e.g. "Section 3.2, p.14")
+- Highlight 3-5 key strengths based on the defense transcript
+- Identify 3-5 areas for improvement based on {{level}} standards
+- Be strict on methodology validation and implementation details
+- Assess critical thinking ability when challenged
+- Provide specific actionable suggestions for improving weak areas
+- Give concrete recommendations for enhancing implementation
+`,
+    },
+  ],
+};
+
+/**
+ * A prompt version, the current one by default
+ */
+export function getPrompt(
+  id: PromptId,
+  version?: number
+): PromptVersion & { id: PromptId; label: string } {
+  const versions = PROMPTS[id];
+  const prompt =
+    version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((candidate) => candidate.version === version);
+
+  if (!prompt) {
+    throw new Error(`Unknown prompt version ${id}@v${version}`);
+  }
+  return { ...prompt, id, label: `${id}@v${prompt.version}` };
+}
+
+/**
+ * Fill in a prompt's variables; every declared variable must be given
+ * @returns The prompt text and the label of the version used
+ */
+export function renderPrompt(
+  id: PromptId,
+  variables: PromptVariables,
+  version?: number
+): { text: string; label: string } {
+  const prompt = getPrompt(id, version);
+  const missing = prompt.variables.filter((name) => !(name in variables));
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing variables for ${prompt.label}: ${missing.join(", ")}`
+    );
+  }
+
+  const text = prompt.template.replace(
+    /\{\{(\w+)\}\}/g,
+    (match, name: string) =>
+      prompt.variables.includes(name) ? String(variables[name]) : match
+  );
+  return { text, label: prompt.label };
+}
+
+/**
+ * Labels of the current versions of some prompts, for recording on a session
+ */
+export function currentPromptVersions(ids: PromptId[]): PromptVersions {
+  return Object.fromEntries(ids.map((id) => [id, getPrompt(id).label]));
+}
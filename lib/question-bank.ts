@@ -0,0 +1,54 @@
+/**
+ * Question bank helpers shared by the bank actions and the session form.
+ * Saved questions are keyed by their normalized text and tagged by
+ * discipline, technology and category so supervisors can find and reuse them.
+ */
+
+import { sha256 } from "js-sha256";
+
+/**
+ * Document id of a question; the same question saved twice merges its tags
+ */
+export function questionBankId(text: string): string {
+  return sha256(text.toLowerCase().replace(/\s+/g, " ").trim());
+}
+
+/**
+ * Lowercased, trimmed and deduplicated tag values, e.g. from "React, Node"
+ */
+export function normalizeTagValues(values: string[]): string[] {
+  return Array.from(
+    new Set(values.map((value) => value.toLowerCase().trim()).filter(Boolean))
+  );
+}
+
+/**
+ * Filter tags for a question, e.g. "technology:react"
+ */
+export function questionBankTags(params: {
+  category: QuestionCategory;
+  disciplines: string[];
+  technologies: string[];
+}): string[] {
+  return [
+    `category:${params.category}`,
+    ...params.disciplines.map((discipline) => `discipline:${discipline}`),
+    ...params.technologies.map((technology) => `technology:${technology}`),
+  ];
+}
+
+/**
+ * The question itself, without bank bookkeeping, for storing on a session
+ */
+export function fromBankQuestion(question: BankQuestion): DefenseQuestion {
+  return {
+    text: question.text,
+    category: question.category,
+    difficulty: question.difficulty,
+    ...(question.cognitiveLevel
+      ? { cognitiveLevel: question.cognitiveLevel }
+      : {}),
+    expectedPoints: question.expectedPoints || [],
+    rationale: question.rationale || "",
+  };
+}
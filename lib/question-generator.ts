@@ -2,105 +2,182 @@
  * Client-side question generator using Gemini AI
  */
 
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+import { generateObject } from "ai";
+
+import { defenseQuestionSchema, defenseQuestionSetSchema } from "@/constants";
+import {
+  ACADEMIC_LEVEL_GUIDANCE,
+  COGNITIVE_LEVEL_DESCRIPTIONS,
+  COGNITIVE_LEVELS,
+  DEFAULT_BLOOM_PROFILES,
+  normalizeAcademicLevel,
+  type BloomProfiles,
+} from "@/lib/bloom";
+import { formatCaptionList, type DocumentCaption } from "@/lib/captions";
+import { CHARS_PER_TOKEN } from "@/lib/document-processor";
+import { resolveModel } from "@/lib/llm-provider";
+import { renderPrompt } from "@/lib/prompts";
+import {
+  formatSectionOutline,
+  type DocumentSection,
+} from "@/lib/document-structure";
+import {
+  allocateByShare,
+  allocateQuestions,
+  DEFAULT_FOCUS_RATIO,
+  parseFocusRatio,
+  QUESTION_CATEGORIES,
+  selectQuestions,
+} from "@/lib/question-mix";
+import {
+  detectDiscipline,
+  getTemplateQuestions,
+  type Discipline,
+} from "@/lib/question-templates";
+import type { DocumentSummary } from "@/lib/summarizer";
+
+export interface QuestionSourceDocument {
+  name: string;
+  kind: DocumentKind;
+  text: string;
+  sections: DocumentSection[];
+  captions?: DocumentCaption[];
+  summary?: DocumentSummary; // Map-reduce summary; used instead of the text
+}
 
 export interface QuestionGenerationParams {
   academicLevel: string;
   projectTitle: string;
   technologies: string[];
   focusRatio?: string;
-  documentText: string;
+  documentText?: string;
+  sections?: DocumentSection[];
+  documents?: QuestionSourceDocument[]; // Several attached documents; replaces documentText
+
+  codeSummary?: string; // Summary from the code indexer, when code was uploaded
+  revisionChanges?: string; // Section diff against the previous report revision
+  referenceSummary?: string; // Cited works and citation gaps from the bibliography
   questionCount?: number;
+  bloomProfiles?: BloomProfiles; // Cognitive level mix per academic level, from the institution
+  discipline?: Discipline; // Picks the template questions used as a fallback; detected when missing
 }
 
+export interface GeneratedQuestions {
+  questions: DefenseQuestion[];
+  model: string; // Model that wrote them, or "template" for template questions
+  promptVersion?: string; // Prompt that produced them; none for templates
+}
+
+export const DEFAULT_QUESTION_COUNT = 10;
+// Marks question sets taken from the template library
+export const TEMPLATE_QUESTIONS = "template";
+
+// Tokens of document content per prompt, shared by all documents
+const DOCUMENT_CONTEXT_TOKENS = 6000;
+// Characters kept per section summary even when the budget is tight
+const MIN_SECTION_SUMMARY_LENGTH = 200;
+// Fewer valid questions than this means the generation went wrong
+const MIN_GENERATED_QUESTIONS = 5;
+// Questions generated per question kept, so the set can match the focus
+const OVERGENERATION_FACTOR = 1.5;
+
 export async function generateQuestionsFromDocument(
   params: QuestionGenerationParams
-): Promise<string[]> {
+): Promise<GeneratedQuestions> {
   const {
     academicLevel = "Master's",
-    projectTitle = "Project Defense",
-    technologies = [],
-    focusRatio = "40% technical, 30% methodology, 20% alternatives, 10% ethics",
-    documentText,
-    questionCount = 10,
+    focusRatio = DEFAULT_FOCUS_RATIO,
+    questionCount = DEFAULT_QUESTION_COUNT,
+    bloomProfiles = DEFAULT_BLOOM_PROFILES,
   } = params;
 
   try {
-    // Check if API key is configured
-    if (!process.env.NEXT_PUBLIC_GOOGLE_GENERATIVE_AI_API_KEY) {
+    const resolved = resolveModel("questions");
+    if (!resolved) {
       console.warn(
-        "Google Generative AI API key is missing - using fallback questions"
-      );
-      return getFallbackQuestions(
-        academicLevel,
-        projectTitle,
-        technologies.join(", ")
+        "No language model is configured - using template questions"
       );
+      return {
+        questions: getFallbackQuestions(params),
+        model: TEMPLATE_QUESTIONS,
+      };
     }
 
-    // If document text is too large, we'll need to truncate it
-    // Gemini can handle ~30k tokens, but we'll be conservative
-    const maxLength = 7000; // Conservative character limit
-    const truncatedText =
-      documentText.length > maxLength
-        ? documentText.substring(0, maxLength) + "... [truncated for length]"
-        : documentText;
+    // Ask for more questions than needed in the requested mix, then keep
+    // the ones that match it
+    const distribution = parseFocusRatio(focusRatio);
+    const poolSize = Math.ceil(questionCount * OVERGENERATION_FACTOR);
+    const poolMix = allocateQuestions(distribution, poolSize);
+    const mixText = QUESTION_CATEGORIES.filter(
+      (category) => poolMix[category] > 0
+    )
+      .map((category) => `${poolMix[category]} ${category}`)
+      .join(", ");
 
-    const techString =
-      technologies.length > 0 ? technologies.join(", ") : "Not specified";
+    // Harder cognitive levels for higher academic levels
+    const level = normalizeAcademicLevel(academicLevel);
+    const cognitiveDistribution = bloomProfiles[level];
+    const poolLevels = allocateByShare(
+      COGNITIVE_LEVELS,
+      cognitiveDistribution,
+      poolSize
+    );
+    const levelText = COGNITIVE_LEVELS.filter(
+      (cognitiveLevel) => poolLevels[cognitiveLevel] > 0
+    )
+      .map(
+        (cognitiveLevel) =>
+          `${poolLevels[cognitiveLevel]} ${cognitiveLevel} (${COGNITIVE_LEVEL_DESCRIPTIONS[cognitiveLevel]})`
+      )
+      .join(", ");
 
-    const promptText = `
-    Generate ${questionCount} challenging and specific questions for a ${academicLevel} level defense of the project described below.
-    
-    DOCUMENT CONTEXT:
-    ${truncatedText}
-    
-    Project Title: ${projectTitle}
-    Technologies: ${techString}
-    Focus: ${focusRatio}
-    
-    Rules:
-    1. 40% questions must reference specific sections
-    2. 30% challenge methodology
-    3. 20% probe alternatives
-    4. 10% ethics/scalability
-    
-    The questions should be specific to the content in the document, referencing actual technologies, methods, and concepts mentioned.
-    Each question should be challenging but fair for a ${academicLevel} level student.
-    
-    FORMAT: Return only the list of ${questionCount} questions, one per line, without numbering or additional text.
-    `;
+    const projectContext = formatProjectContext(params);
+
+    const prompt = renderPrompt("question-set", {
+      poolSize,
+      academicLevel,
+      projectContext,
+      focusRatio,
+      categoryMix: mixText,
+      cognitiveMix: levelText,
+      levelGuidance: ACADEMIC_LEVEL_GUIDANCE[level],
+    });
 
     try {
-      // Try with explicit API key from env var to avoid load API key error
-      const result = await generateText({
-        model: google("gemini-1.5-flash", {
-          apiKey: process.env.NEXT_PUBLIC_GOOGLE_GENERATIVE_AI_API_KEY,
-        }),
-        prompt: promptText,
+      const { object } = await generateObject({
+        model: resolved.model,
+        schema: defenseQuestionSetSchema,
+        prompt: prompt.text,
         temperature: 0.3,
         topK: 40,
       });
 
-      const questionsText = String(result);
-
-      // Split the text into individual questions
-      const questionsList = questionsText
-        .split("\n")
-        .map((q) => q.trim())
-        .filter((q) => q.length > 0 && q.endsWith("?"));
+      const questionsList = selectQuestions(
+        object.questions
+          .map(normalizeQuestion)
+          .filter((question) => question.text.length > 0),
+        distribution,
+        questionCount,
+        cognitiveDistribution
+      );
 
       // If we don't have enough questions or the generation failed,
       // return a set of generic fallback questions
-      if (questionsList.length < 5) {
+      if (questionsList.length < MIN_GENERATED_QUESTIONS) {
         console.warn(
-          "Generated fewer than 5 valid questions, using fallback questions"
+          `Generated fewer than ${MIN_GENERATED_QUESTIONS} valid questions, using fallback questions`
         );
-        return getFallbackQuestions(academicLevel, projectTitle, techString);
+        return {
+          questions: getFallbackQuestions(params),
+          model: TEMPLATE_QUESTIONS,
+        };
       }
 
-      return questionsList;
+      return {
+        questions: questionsList,
+        model: resolved.label,
+        promptVersion: prompt.label,
+      };
     } catch (innerError: any) {
       // Handle API-specific errors
       console.error(
@@ -113,37 +190,268 @@ export async function generateQuestionsFromDocument(
         );
       }
       // Return fallback questions on any generation error
-      return getFallbackQuestions(academicLevel, projectTitle, techString);
+      return {
+        questions: getFallbackQuestions(params),
+        model: TEMPLATE_QUESTIONS,
+      };
     }
   } catch (error: any) {
     console.error("Error in question generation:", error?.message || error);
-    return getFallbackQuestions(
-      academicLevel,
-      projectTitle,
-      technologies.join(", ")
-    );
+    return {
+      questions: getFallbackQuestions(params),
+      model: TEMPLATE_QUESTIONS,
+    };
   }
 }
 
 /**
- * Generate generic fallback questions if the AI generation fails
+ * Write a replacement for one question of a set, keeping its category and
+ * cognitive level. Returns null when no question could be generated.
+ * @param otherQuestions - The rest of the set, which the new question must not repeat
  */
-function getFallbackQuestions(
-  academicLevel: string,
-  projectTitle: string,
-  technologies: string
-): string[] {
-  console.log("Using fallback questions for", projectTitle);
-  return [
-    `Explain the overall architecture of your ${projectTitle} project.`,
-    `What were the main technical challenges you faced while working with ${technologies}?`,
-    `How did you ensure the quality and reliability of your implementation?`,
-    `Describe your methodology and research approach in detail.`,
-    `How does your project compare to existing solutions in this domain?`,
-    `What are the limitations of your current implementation?`,
-    `How would you scale your solution for larger datasets or user bases?`,
-    `What ethical considerations did you address in your project?`,
-    `If you had more time and resources, what would you improve in your project?`,
-    `How did you balance theoretical concepts and practical implementation in your ${academicLevel}-level project?`,
+export async function regenerateQuestion(
+  params: QuestionGenerationParams,
+  question: DefenseQuestion,
+  otherQuestions: DefenseQuestion[]
+): Promise<DefenseQuestion | null> {
+  const { academicLevel = "Master's" } = params;
+
+  const resolved = resolveModel("questions");
+  if (!resolved) {
+    console.warn("No language model is configured - cannot regenerate");
+    return null;
+  }
+
+  const cognitiveLevel = question.cognitiveLevel
+    ? ` at the "${question.cognitiveLevel}" cognitive level (${
+        COGNITIVE_LEVEL_DESCRIPTIONS[question.cognitiveLevel]
+      })`
+    : "";
+  const prompt = renderPrompt("question-regenerate", {
+    category: question.category,
+    cognitiveLevel,
+    academicLevel,
+    replacedQuestion: question.text,
+    projectContext: formatProjectContext(params),
+    otherQuestions: otherQuestions.map((other) => `- ${other.text}`).join("\n"),
+  });
+
+  try {
+    const { object } = await generateObject({
+      model: resolved.model,
+      schema: defenseQuestionSchema,
+      prompt: prompt.text,
+      temperature: 0.7,
+    });
+
+    const replacement = normalizeQuestion(object);
+    return replacement.text ? replacement : null;
+  } catch (error) {
+    console.error("Error regenerating question:", error);
+    return null;
+  }
+}
+
+/**
+ * One question for the examiner's prompt, with what to listen for, e.g.
+ * "- [methodology, advanced; Section 3.2] Why ...?\n  Listen for: ..."
+ */
+export function formatDefenseQuestion(question: DefenseQuestion): string {
+  const tags = [
+    question.category,
+    question.difficulty,
+    ...(question.cognitiveLevel ? [question.cognitiveLevel] : []),
+    ...(question.targetSection ? [question.targetSection] : []),
+    ...(question.pinned ? ["must ask"] : []),
   ];
+  const points =
+    question.expectedPoints.length > 0
+      ? `\n  Listen for: ${question.expectedPoints.join("; ")}`
+      : "";
+  return `- [${tags.join(", ")}] ${question.text}${points}`;
+}
+
+/**
+ * Trim model output and drop empty optional fields, which Firestore rejects
+ */
+function normalizeQuestion(question: DefenseQuestion): DefenseQuestion {
+  const targetSection = question.targetSection?.trim();
+  return {
+    text: question.text.trim(),
+    category: question.category,
+    difficulty: question.difficulty,
+    ...(question.cognitiveLevel
+      ? { cognitiveLevel: question.cognitiveLevel }
+      : {}),
+    ...(targetSection ? { targetSection } : {}),
+    expectedPoints: question.expectedPoints
+      .map((point) => point.trim())
+      .filter(Boolean),
+    rationale: question.rationale.trim(),
+  };
+}
+
+/**
+ * The documents, outline, figures, code, revision changes and references
+ * a question prompt is based on, followed by the project title
+ */
+function formatProjectContext(params: QuestionGenerationParams): string {
+  const {
+    projectTitle = "Project Defense",
+    technologies = [],
+    documentText = "",
+    sections = [],
+    documents,
+    codeSummary = "",
+    revisionChanges = "",
+    referenceSummary = "",
+  } = params;
+
+  // Several documents share the budget and are labelled by kind and name
+  // so questions can say which one they refer to. Long documents are
+  // represented by their summaries so later chapters are not cut off.
+  const maxLength = DOCUMENT_CONTEXT_TOKENS * CHARS_PER_TOKEN;
+  const truncatedText = documents
+    ? documents
+        .map(
+          (document) =>
+            `--- ${document.kind.toUpperCase()}: ${
+              document.name
+            } ---\n${formatDocumentContext(
+              document,
+              Math.floor(maxLength / documents.length)
+            )}`
+        )
+        .join("\n\n")
+    : truncate(documentText, maxLength);
+
+  // The outline lets the model cite "Section 3.2, p.14" instead of guessing
+  const outline = documents
+    ? documents
+        .map((document) => {
+          const documentOutline = formatSectionOutline(document.sections);
+          return documentOutline
+            ? `${document.kind.toUpperCase()}: ${
+                document.name
+              }\n${documentOutline}`
+            : "";
+        })
+        .filter(Boolean)
+        .join("\n")
+    : formatSectionOutline(sections);
+  const outlineText = outline
+    ? `
+  DOCUMENT STRUCTURE:
+  ${outline}
+  `
+    : "";
+
+  // Committees routinely ask students to interpret a specific figure
+  const captionList = (documents || [])
+    .filter((document) => document.captions && document.captions.length > 0)
+    .map((document) =>
+      documents && documents.length > 1
+        ? `${document.kind.toUpperCase()}: ${
+            document.name
+          }\n${formatCaptionList(document.captions!)}`
+        : formatCaptionList(document.captions!)
+    )
+    .join("\n");
+  const captionsText = captionList
+    ? `
+  FIGURES AND TABLES:
+  ${truncate(captionList, 2000)}
+  `
+    : "";
+
+  const codeText = codeSummary
+    ? `
+  SOURCE CODE:
+  ${codeSummary}
+  `
+    : "";
+
+  // Questions on a revised report should probe what changed
+  const changesText = revisionChanges
+    ? `
+  CHANGES SINCE THE PREVIOUS VERSION OF THE REPORT:
+  ${truncate(revisionChanges, 3000)}
+  `
+    : "";
+
+  const referencesText = referenceSummary
+    ? `
+  REFERENCES:
+  ${truncate(referenceSummary, 2500)}
+  `
+    : "";
+
+  return `
+    DOCUMENT CONTEXT:
+    ${truncatedText}
+    ${outlineText}${captionsText}${codeText}${changesText}${referencesText}
+    Project Title: ${projectTitle}
+    Technologies: ${
+      technologies.length > 0 ? technologies.join(", ") : "Not specified"
+    }`;
+}
+
+/**
+ * A document's text, or its summaries when it has been summarized, within
+ * a character limit. Section summaries share what the overall summary
+ * leaves, so every section keeps at least a sentence or two.
+ */
+function formatDocumentContext(
+  document: QuestionSourceDocument,
+  limit: number
+): string {
+  if (!document.summary) {
+    return truncate(document.text, limit);
+  }
+
+  const { summary, sections } = document.summary;
+  const overall = truncate(summary, Math.floor(limit / 3));
+  const perSection = Math.max(
+    MIN_SECTION_SUMMARY_LENGTH,
+    Math.floor((limit - overall.length) / Math.max(sections.length, 1))
+  );
+
+  return truncate(
+    `SUMMARY:\n${overall}\n\nSECTION SUMMARIES:\n${sections
+      .map(
+        (section) =>
+          `[${section.location}] ${truncate(section.summary, perSection)}`
+      )
+      .join("\n")}`,
+    limit
+  );
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit
+    ? text.substring(0, limit) + "... [truncated for length]"
+    : text;
+}
+
+/**
+ * Template questions for the project's discipline if the AI generation fails
+ */
+function getFallbackQuestions(
+  params: QuestionGenerationParams
+): DefenseQuestion[] {
+  console.log("Using template questions for", params.projectTitle);
+  const text =
+    params.documents?.map((document) => document.text).join("\n") ||
+    params.documentText;
+
+  return getTemplateQuestions({
+    discipline:
+      params.discipline ||
+      detectDiscipline({ technologies: params.technologies, text }),
+    title: params.projectTitle,
+    technologies: params.technologies,
+    level: params.academicLevel,
+    focus: params.focusRatio,
+    count: params.questionCount,
+  });
 }
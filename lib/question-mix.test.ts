@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { parseFocusRatio } from "@/lib/question-mix";
+
+test("reads weights written after their category", () => {
+  assert.deepEqual(parseFocusRatio("technical 40 methodology 30"), {
+    technical: 40 / 70,
+    methodology: 30 / 70,
+    alternatives: 0,
+    ethics: 0,
+  });
+  assert.deepEqual(parseFocusRatio("technical: 60%, ethics: 40%"), {
+    technical: 0.6,
+    methodology: 0,
+    alternatives: 0,
+    ethics: 0.4,
+  });
+});
+
+test("reads weights written before their category", () => {
+  assert.deepEqual(
+    parseFocusRatio(
+      "40% technical, 30% methodology, 20% alternatives, 10% ethics"
+    ),
+    { technical: 0.4, methodology: 0.3, alternatives: 0.2, ethics: 0.1 }
+  );
+  assert.deepEqual(parseFocusRatio("50 technical 50 alternatives"), {
+    technical: 0.5,
+    methodology: 0,
+    alternatives: 0.5,
+    ethics: 0,
+  });
+});
+
+test("counts scalability and architecture as technical", () => {
+  assert.deepEqual(parseFocusRatio("70% scalability, 30% ethics"), {
+    technical: 0.7,
+    methodology: 0,
+    alternatives: 0,
+    ethics: 0.3,
+  });
+  assert.equal(parseFocusRatio("architecture 100").technical, 1);
+});
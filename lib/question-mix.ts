@@ -0,0 +1,246 @@
+/**
+ * Question category mix.
+ * Parses a focus ratio such as "40% technical, 30% methodology, 20%
+ * alternatives, 10% ethics" into a distribution, and composes question sets
+ * from an over-generated pool so the categories match it.
+ */
+
+import { COGNITIVE_LEVELS, type CognitiveDistribution } from "@/lib/bloom";
+
+export const QUESTION_CATEGORIES: QuestionCategory[] = [
+  "technical",
+  "methodology",
+  "alternatives",
+  "ethics",
+];
+
+// Share of questions per category; sums to 1
+export type CategoryDistribution = Record<QuestionCategory, number>;
+
+// Questions per category
+export type CategoryCounts = Record<QuestionCategory, number>;
+
+export const DEFAULT_FOCUS_RATIO =
+  "40% technical, 30% methodology, 20% alternatives, 10% ethics";
+
+const DEFAULT_DISTRIBUTION: CategoryDistribution = {
+  technical: 0.4,
+  methodology: 0.3,
+  alternatives: 0.2,
+  ethics: 0.1,
+};
+
+// Words students and the preparation assistant use for each category
+const CATEGORY_WORDS: Array<[RegExp, QuestionCategory]> = [
+  [
+    /^(technical|technology|implementation|practical|practice|architect|scalab)/,
+    "technical",
+  ],
+  [/^(methodolog|method|research|theor|design)/, "methodology"],
+  [/^(alternative|comparison|related|trade-?offs?)/, "alternatives"],
+  [/^(ethic|social|impact|societal)/, "ethics"],
+];
+
+// A weight is followed ("40% technical") or preceded ("technical: 40%",
+// "technical 40") by the word it applies to
+const WEIGHT_PATTERN = /(\d+(?:\.\d+)?)\s*%?/g;
+const WORD_PATTERN = /[a-z][a-z-]*/gi;
+const WORD_AFTER_PATTERN = /^\s*(?:of\s+)?([a-z][a-z-]*)/i;
+const WORD_BEFORE_PATTERN = /([a-z][a-z-]*)\s*[:=]?\s*$/i;
+// "70/30 practical/theoretical"
+const SLASH_PATTERN =
+  /(\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)+)\s*%?\s*(?:split\s+)?(?:between\s+)?([a-z-]+(?:\s*\/\s*[a-z-]+)+)/i;
+
+/**
+ * Parse a focus ratio into a category distribution; categories not
+ * mentioned get no questions. Falls back to the default mix when nothing
+ * in the text can be read.
+ */
+export function parseFocusRatio(focusRatio?: string): CategoryDistribution {
+  const weights = readWeights(focusRatio || "");
+  const total = QUESTION_CATEGORIES.reduce(
+    (sum, category) => sum + weights[category],
+    0
+  );
+  if (total <= 0) {
+    return { ...DEFAULT_DISTRIBUTION };
+  }
+
+  return mapCategories((category) => weights[category] / total);
+}
+
+/**
+ * Whole question counts per category for a set of the given size, using
+ * largest remainders so the counts add up exactly
+ */
+export function allocateQuestions(
+  distribution: CategoryDistribution,
+  count: number
+): CategoryCounts {
+  return allocateByShare(QUESTION_CATEGORIES, distribution, count);
+}
+
+/**
+ * Whole counts for any set of shares, e.g. cognitive levels
+ */
+export function allocateByShare<K extends string>(
+  keys: K[],
+  shares: Record<K, number>,
+  count: number
+): Record<K, number> {
+  const exact = {} as Record<K, number>;
+  const counts = {} as Record<K, number>;
+  for (const key of keys) {
+    exact[key] = (shares[key] || 0) * count;
+    counts[key] = Math.floor(exact[key]);
+  }
+  let remaining = count - keys.reduce((sum, key) => sum + counts[key], 0);
+
+  const byRemainder = [...keys].sort(
+    (a, b) => exact[b] - counts[b] - (exact[a] - counts[a])
+  );
+  for (const key of byRemainder) {
+    if (remaining <= 0) break;
+    counts[key]++;
+    remaining--;
+  }
+
+  return counts;
+}
+
+/**
+ * Pick questions from an over-generated pool so the categories, and the
+ * cognitive levels when given, match their distributions. Categories come
+ * first; a question filling both a category and a level gap beats one
+ * filling only its category. The selection keeps the pool's order.
+ */
+export function selectQuestions(
+  pool: DefenseQuestion[],
+  distribution: CategoryDistribution,
+  count: number,
+  cognitiveDistribution?: CognitiveDistribution
+): DefenseQuestion[] {
+  const size = Math.min(count, pool.length);
+  const categoryGaps = allocateQuestions(distribution, size);
+  const levelGaps = cognitiveDistribution
+    ? allocateByShare(COGNITIVE_LEVELS, cognitiveDistribution, size)
+    : undefined;
+  const remaining = [...pool];
+  const selected = new Set<DefenseQuestion>();
+
+  const score = (question: DefenseQuestion) =>
+    (categoryGaps[question.category] > 0 ? 2 : 0) +
+    (levelGaps &&
+    question.cognitiveLevel &&
+    levelGaps[question.cognitiveLevel] > 0
+      ? 1
+      : 0);
+
+  while (selected.size < size) {
+    // The first question with the best score keeps the pool order stable
+    let best = 0;
+    remaining.forEach((question, index) => {
+      if (score(question) > score(remaining[best])) best = index;
+    });
+
+    const [question] = remaining.splice(best, 1);
+    selected.add(question);
+    categoryGaps[question.category]--;
+    if (levelGaps && question.cognitiveLevel) {
+      levelGaps[question.cognitiveLevel]--;
+    }
+  }
+
+  return pool.filter((question) => selected.has(question));
+}
+
+/**
+ * How many questions of each category a set contains
+ */
+export function countCategories(questions: DefenseQuestion[]): CategoryCounts {
+  const counts = mapCategories(() => 0);
+  for (const question of questions) {
+    counts[question.category]++;
+  }
+  return counts;
+}
+
+/**
+ * e.g. "technical 4, methodology 3, alternatives 2, ethics 1"
+ */
+export function formatCategoryCounts(counts: CategoryCounts): string {
+  return QUESTION_CATEGORIES.filter((category) => counts[category] > 0)
+    .map((category) => `${category} ${counts[category]}`)
+    .join(", ");
+}
+
+/**
+ * e.g. "40% technical, 30% methodology, 20% alternatives, 10% ethics"
+ */
+export function formatDistribution(distribution: CategoryDistribution): string {
+  return QUESTION_CATEGORIES.filter((category) => distribution[category] > 0)
+    .map(
+      (category) => `${Math.round(distribution[category] * 100)}% ${category}`
+    )
+    .join(", ");
+}
+
+function readWeights(text: string): CategoryCounts {
+  const weights = mapCategories(() => 0);
+
+  const slash = text.match(SLASH_PATTERN);
+  if (slash) {
+    const numbers = slash[1].split("/").map((value) => parseFloat(value));
+    const words = slash[2].split("/").map((word) => word.trim());
+    words.forEach((word, index) => {
+      const category = categoryForWord(word);
+      if (category && numbers[index] !== undefined) {
+        weights[category] += numbers[index];
+      }
+    });
+    return weights;
+  }
+
+  // Whichever comes first, a category or a weight, sets the order for the
+  // whole text, so in "technical 40 methodology 30" 40 is technical's
+  const weightMatches = Array.from(text.matchAll(WEIGHT_PATTERN));
+  const firstCategory = Array.from(text.matchAll(WORD_PATTERN)).find((match) =>
+    categoryForWord(match[0])
+  );
+  const wordsFirst =
+    firstCategory !== undefined &&
+    weightMatches.length > 0 &&
+    (firstCategory.index ?? 0) < (weightMatches[0].index ?? 0);
+
+  for (const match of weightMatches) {
+    const value = parseFloat(match[1]);
+    const start = match.index ?? 0;
+    const after = text.slice(start + match[0].length).match(WORD_AFTER_PATTERN);
+    const before = text.slice(0, start).match(WORD_BEFORE_PATTERN);
+    const afterCategory = after ? categoryForWord(after[1]) : undefined;
+    const beforeCategory = before ? categoryForWord(before[1]) : undefined;
+    const category = wordsFirst
+      ? beforeCategory || afterCategory
+      : afterCategory || beforeCategory;
+    if (category && value > 0) {
+      weights[category] += value;
+    }
+  }
+  return weights;
+}
+
+function categoryForWord(word: string): QuestionCategory | undefined {
+  const normalized = word.toLowerCase();
+  return CATEGORY_WORDS.find(([pattern]) => pattern.test(normalized))?.[1];
+}
+
+function mapCategories(
+  fn: (category: QuestionCategory) => number
+): CategoryCounts {
+  return {
+    technical: fn("technical"),
+    methodology: fn("methodology"),
+    alternatives: fn("alternatives"),
+    ethics: fn("ethics"),
+  };
+}
@@ -0,0 +1,469 @@
+/**
+ * Template question library.
+ * Used whenever questions cannot be generated from the documents (no API
+ * key, a failed request, no upload). Templates are grouped by discipline,
+ * filled in from session fields such as {{title}} and {{technologies}}, and
+ * selected to match the requested focus and academic level.
+ */
+
+import { DEFAULT_BLOOM_PROFILES, normalizeAcademicLevel } from "@/lib/bloom";
+import { parseFocusRatio, selectQuestions } from "@/lib/question-mix";
+
+export type Discipline =
+  | "software-engineering"
+  | "data-science"
+  | "hardware"
+  | "social-sciences"
+  | "business"
+  | "general";
+
+export const DISCIPLINE_LABELS: Record<Discipline, string> = {
+  "software-engineering": "Software Engineering",
+  "data-science": "Data Science",
+  hardware: "Hardware and Embedded Systems",
+  "social-sciences": "Social Sciences",
+  business: "Business",
+  general: "General",
+};
+
+export interface TemplateVariables {
+  title?: string; // Project title
+  technologies?: string[];
+  level?: string; // Academic level
+  focus?: string; // Focus ratio as entered
+}
+
+// Each template is a question with {{variable}} placeholders
+type QuestionTemplate = DefenseQuestion;
+
+// Keywords that suggest a discipline, matched against technologies and text
+const DISCIPLINE_KEYWORDS: Record<Exclude<Discipline, "general">, RegExp> = {
+  "software-engineering":
+    /\b(react|next\.?js|angular|vue|node|express|django|flask|spring|api|frontend|backend|microservices?|database|sql|mongodb|firebase|docker|kubernetes|typescript|javascript|java|web app|mobile app|android|ios)\b/gi,
+  "data-science":
+    /\b(machine learning|deep learning|neural networks?|pandas|numpy|scikit-learn|sklearn|tensorflow|pytorch|keras|dataset|classification|regression|clustering|accuracy|f1|training data|feature engineering|jupyter)\b/gi,
+  hardware:
+    /\b(arduino|raspberry pi|fpga|vhdl|verilog|embedded|microcontroller|circuit|pcb|sensor|firmware|signal processing|power consumption|iot)\b/gi,
+  "social-sciences":
+    /\b(participants?|interviewees?|survey|questionnaire|qualitative|quantitative|thematic analysis|ethnograph\w*|focus groups?|respondents?|likert|sociolog\w*|psycholog\w*)\b/gi,
+  business:
+    /\b(market|customers?|revenue|business model|stakeholders?|strategy|competitors?|pricing|roi|supply chain|marketing|financial|startup|swot)\b/gi,
+};
+
+const GENERAL_TEMPLATES: QuestionTemplate[] = [
+  {
+    text: "Explain the overall architecture of your {{title}} project.",
+    category: "technical",
+    difficulty: "foundational",
+    cognitiveLevel: "explain",
+    expectedPoints: [
+      "Main components and their responsibilities",
+      "How they work together",
+    ],
+    rationale: "Checks the student can explain their own work end to end.",
+  },
+  {
+    text: "What were the main technical challenges you faced while working with {{technologies}}?",
+    category: "technical",
+    difficulty: "intermediate",
+    cognitiveLevel: "explain",
+    expectedPoints: ["A concrete problem", "How it was diagnosed and solved"],
+    rationale: "Shows whether the student did the work themselves.",
+  },
+  {
+    text: "How did you ensure the quality and reliability of your work?",
+    category: "technical",
+    difficulty: "intermediate",
+    cognitiveLevel: "analyze",
+    expectedPoints: ["Validation or testing approach", "Evidence it works"],
+    rationale: "Probes rigour beyond a working result.",
+  },
+  {
+    text: "Describe your methodology and research approach in detail.",
+    category: "methodology",
+    difficulty: "foundational",
+    cognitiveLevel: "explain",
+    expectedPoints: [
+      "Research question",
+      "Method chosen and why",
+      "How results were evaluated",
+    ],
+    rationale: "Every defense examines whether the method fits the question.",
+  },
+  {
+    text: "What are the limitations of your current work, and how do they affect your conclusions?",
+    category: "methodology",
+    difficulty: "intermediate",
+    cognitiveLevel: "evaluate",
+    expectedPoints: ["Honest limitations", "Their effect on the results"],
+    rationale:
+      "Committees expect students to know the weaknesses of their work.",
+  },
+  {
+    text: "How does {{title}} compare to existing solutions in this domain?",
+    category: "alternatives",
+    difficulty: "intermediate",
+    cognitiveLevel: "analyze",
+    expectedPoints: [
+      "Named related work",
+      "What this project does differently",
+    ],
+    rationale: "Tests awareness of the state of the art.",
+  },
+  {
+    text: "If you had more time and resources, what would you improve or extend?",
+    category: "alternatives",
+    difficulty: "foundational",
+    cognitiveLevel: "create",
+    expectedPoints: ["Prioritized improvements", "Why they matter"],
+    rationale: "Shows reflection on the work and its future.",
+  },
+  {
+    text: "What ethical considerations did you address in your project?",
+    category: "ethics",
+    difficulty: "intermediate",
+    cognitiveLevel: "evaluate",
+    expectedPoints: [
+      "Data, privacy or fairness concerns",
+      "How they were mitigated",
+    ],
+    rationale: "Ethics is a standard part of the assessment.",
+  },
+  {
+    text: "How did you balance theoretical concepts and practical work in your {{level}} project?",
+    category: "methodology",
+    difficulty: "advanced",
+    cognitiveLevel: "analyze",
+    expectedPoints: [
+      "Theory the work builds on",
+      "Where it shaped the practical work",
+    ],
+    rationale: "Checks the work meets the expectations of the academic level.",
+  },
+  {
+    text: "What is the main contribution of your work, and why does it matter?",
+    category: "methodology",
+    difficulty: "advanced",
+    cognitiveLevel: "evaluate",
+    expectedPoints: [
+      "The contribution in one sentence",
+      "Who benefits and how",
+    ],
+    rationale: "Committees want the contribution stated plainly.",
+  },
+];
+
+const DISCIPLINE_TEMPLATES: Record<
+  Exclude<Discipline, "general">,
+  QuestionTemplate[]
+> = {
+  "software-engineering": [
+    {
+      text: "Why did you choose {{technologies}} for {{title}}, and what would change with a different stack?",
+      category: "alternatives",
+      difficulty: "intermediate",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Requirements that drove the choice", "Trade-offs"],
+      rationale: "Technology choices should follow from requirements.",
+    },
+    {
+      text: "How did you test {{title}}, and what does your test coverage not catch?",
+      category: "technical",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Unit, integration or end-to-end tests", "Known gaps"],
+      rationale: "Testing shows engineering maturity.",
+    },
+    {
+      text: "Walk us through what happens in your system when a user request fails halfway.",
+      category: "technical",
+      difficulty: "advanced",
+      cognitiveLevel: "apply",
+      expectedPoints: ["Error handling path", "Data consistency"],
+      rationale: "Failure handling separates prototypes from systems.",
+    },
+    {
+      text: "How would {{title}} handle ten times more users, and where would it break first?",
+      category: "alternatives",
+      difficulty: "advanced",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Bottlenecks", "Scaling strategy"],
+      rationale: "Probes whether the design holds beyond the prototype.",
+    },
+    {
+      text: "How do you protect user data and secure access in {{title}}?",
+      category: "ethics",
+      difficulty: "intermediate",
+      cognitiveLevel: "explain",
+      expectedPoints: ["Authentication and authorization", "Data protection"],
+      rationale: "Security and privacy are expected of any deployed system.",
+    },
+    {
+      text: "Which development process did you follow, and how did requirements change along the way?",
+      category: "methodology",
+      difficulty: "foundational",
+      cognitiveLevel: "explain",
+      expectedPoints: ["Process used", "How changes were handled"],
+      rationale: "Shows how the student managed the project.",
+    },
+  ],
+  "data-science": [
+    {
+      text: "How did you collect, clean and split your dataset, and what biases might it contain?",
+      category: "methodology",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Data source and cleaning", "Train/test split", "Bias"],
+      rationale: "Results are only as good as the data behind them.",
+    },
+    {
+      text: "Why did you choose your evaluation metrics, and what would a different metric show?",
+      category: "methodology",
+      difficulty: "advanced",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Metric definitions", "Fit to the problem"],
+      rationale: "Metric choice can change the conclusions.",
+    },
+    {
+      text: "Which baselines did you compare your model against, and why those?",
+      category: "alternatives",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Baselines used", "Margin of improvement"],
+      rationale: "A result without a baseline cannot be judged.",
+    },
+    {
+      text: "How did you guard against overfitting and data leakage?",
+      category: "technical",
+      difficulty: "advanced",
+      cognitiveLevel: "apply",
+      expectedPoints: [
+        "Validation strategy",
+        "Regularization",
+        "Leakage checks",
+      ],
+      rationale: "Common flaws in data science projects.",
+    },
+    {
+      text: "Could your model treat some groups unfairly, and how would you detect it?",
+      category: "ethics",
+      difficulty: "advanced",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Sensitive attributes", "Fairness measures"],
+      rationale: "Fairness is central to deploying models responsibly.",
+    },
+    {
+      text: "How would you explain one of your model's predictions to a non-expert?",
+      category: "technical",
+      difficulty: "intermediate",
+      cognitiveLevel: "apply",
+      expectedPoints: ["Interpretability method", "A concrete example"],
+      rationale: "Tests understanding beyond running the code.",
+    },
+  ],
+  hardware: [
+    {
+      text: "How did you choose the components for {{title}}, and what were the trade-offs?",
+      category: "alternatives",
+      difficulty: "intermediate",
+      cognitiveLevel: "evaluate",
+      expectedPoints: [
+        "Cost, power and performance",
+        "Alternatives considered",
+      ],
+      rationale: "Component selection drives the whole design.",
+    },
+    {
+      text: "How did you test and validate the hardware, and what measurements did you take?",
+      category: "methodology",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Test setup", "Measured results against requirements"],
+      rationale: "Hardware claims need measurements behind them.",
+    },
+    {
+      text: "What are the timing or power constraints of your design, and how did you meet them?",
+      category: "technical",
+      difficulty: "advanced",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Constraints", "Design decisions that meet them"],
+      rationale: "Constraints are where embedded designs fail.",
+    },
+    {
+      text: "How does your firmware handle sensor failures or noisy readings?",
+      category: "technical",
+      difficulty: "intermediate",
+      cognitiveLevel: "apply",
+      expectedPoints: ["Error detection", "Filtering or fallback"],
+      rationale: "Robustness in real conditions matters more than the demo.",
+    },
+    {
+      text: "What safety, environmental or cost issues would mass production of {{title}} raise?",
+      category: "ethics",
+      difficulty: "advanced",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Safety standards", "Environmental impact", "Unit cost"],
+      rationale: "Moving beyond a prototype raises new questions.",
+    },
+  ],
+  "social-sciences": [
+    {
+      text: "How did you recruit your participants, and how representative is your sample?",
+      category: "methodology",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Sampling method", "Sample size and limits"],
+      rationale: "Generalizability depends on the sample.",
+    },
+    {
+      text: "Why did you choose a qualitative, quantitative or mixed approach for this research question?",
+      category: "methodology",
+      difficulty: "intermediate",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Fit to the research question", "Alternatives"],
+      rationale: "The approach must fit the question asked.",
+    },
+    {
+      text: "How did you analyze your data, and how did you make sure your interpretation is reliable?",
+      category: "technical",
+      difficulty: "advanced",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Coding or statistical method", "Reliability checks"],
+      rationale: "Analysis choices shape the findings.",
+    },
+    {
+      text: "How did you obtain informed consent and protect your participants' anonymity?",
+      category: "ethics",
+      difficulty: "foundational",
+      cognitiveLevel: "explain",
+      expectedPoints: ["Ethics approval", "Consent", "Anonymization"],
+      rationale: "Research with people requires ethical safeguards.",
+    },
+    {
+      text: "Which theoretical framework underpins your study, and what would another framework reveal?",
+      category: "alternatives",
+      difficulty: "advanced",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Framework used", "An alternative lens"],
+      rationale: "Theory frames what the study can see.",
+    },
+  ],
+  business: [
+    {
+      text: "Who are the target customers of {{title}}, and how did you validate their needs?",
+      category: "methodology",
+      difficulty: "foundational",
+      cognitiveLevel: "explain",
+      expectedPoints: ["Customer segments", "Validation evidence"],
+      rationale: "A business case starts with a real customer need.",
+    },
+    {
+      text: "How does your proposal compare to competitors, and what is its lasting advantage?",
+      category: "alternatives",
+      difficulty: "intermediate",
+      cognitiveLevel: "analyze",
+      expectedPoints: ["Named competitors", "Differentiation"],
+      rationale: "Tests awareness of the market.",
+    },
+    {
+      text: "Which assumptions does your financial model depend on most, and what happens if they are wrong?",
+      category: "technical",
+      difficulty: "advanced",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Key assumptions", "Sensitivity analysis"],
+      rationale: "Financial projections rest on assumptions.",
+    },
+    {
+      text: "How would you measure whether {{title}} succeeds after launch?",
+      category: "methodology",
+      difficulty: "intermediate",
+      cognitiveLevel: "apply",
+      expectedPoints: ["Key indicators", "Targets"],
+      rationale: "Success must be measurable.",
+    },
+    {
+      text: "What social or environmental responsibilities does your business proposal carry?",
+      category: "ethics",
+      difficulty: "intermediate",
+      cognitiveLevel: "evaluate",
+      expectedPoints: ["Stakeholders affected", "Responsible practices"],
+      rationale: "Responsible business is part of the assessment.",
+    },
+  ],
+};
+
+/**
+ * Guess a project's discipline from its technologies and document text;
+ * "general" when nothing stands out
+ */
+export function detectDiscipline(params: {
+  technologies?: string[];
+  text?: string;
+}): Discipline {
+  const haystack = [
+    ...(params.technologies || []),
+    (params.text || "").slice(0, 50000),
+  ].join(" ");
+
+  let best: Discipline = "general";
+  let bestScore = 0;
+  for (const [discipline, pattern] of Object.entries(DISCIPLINE_KEYWORDS)) {
+    const score = (haystack.match(pattern) || []).length;
+    if (score > bestScore) {
+      best = discipline as Discipline;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Template questions for a discipline, filled in from session fields and
+ * selected to match the focus ratio and academic level. Discipline-specific
+ * templates are preferred over general ones.
+ */
+export function getTemplateQuestions(
+  params: TemplateVariables & {
+    discipline?: Discipline;
+    count?: number;
+  }
+): DefenseQuestion[] {
+  const { discipline = "general", count = 10 } = params;
+  const pool = [
+    ...(discipline !== "general" ? DISCIPLINE_TEMPLATES[discipline] : []),
+    ...GENERAL_TEMPLATES,
+  ].map((template) => ({
+    ...template,
+    text: fillTemplate(template.text, params),
+  }));
+
+  return selectQuestions(
+    pool,
+    parseFocusRatio(params.focus),
+    count,
+    DEFAULT_BLOOM_PROFILES[normalizeAcademicLevel(params.level)]
+  );
+}
+
+/**
+ * Replace {{variable}} placeholders; missing values read naturally, e.g.
+ * "your project" for a missing title
+ */
+export function fillTemplate(
+  text: string,
+  variables: TemplateVariables
+): string {
+  const values: Record<keyof TemplateVariables, string> = {
+    title: variables.title?.trim() || "your project",
+    technologies:
+      variables.technologies && variables.technologies.length > 0
+        ? variables.technologies.join(", ")
+        : "your chosen technologies",
+    level: variables.level?.trim() || "academic",
+    focus: variables.focus?.trim() || "theory and practice",
+  };
+
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in values ? values[name as keyof TemplateVariables] : match
+  );
+}
@@ -0,0 +1,470 @@
+/**
+ * Bibliography parsing and citation linking.
+ * Splits the References section into structured entries, finds in-text
+ * citations (numeric "[3]", LaTeX keys "[smith2019]" and author-year
+ * "(Smith et al., 2019)") and links them to the entries, so questions can
+ * probe why a source was chosen and feedback can flag citation gaps.
+ */
+
+import {
+  flattenSections,
+  formatSectionLocation,
+  type DocumentSection,
+} from "@/lib/document-structure";
+
+export interface ReferenceEntry {
+  id: string; // "r1", "r2", ... in bibliography order
+  label?: string; // "1" for "[1]" entries, the key for "[smith2019]" entries
+  raw: string;
+  authors: string[]; // Surnames
+  year?: string;
+  title?: string;
+  venue?: string;
+  citationCount: number;
+  citedIn: string[]; // Locations of the citing sections
+}
+
+export interface Citation {
+  text: string; // As written, e.g. "[3]" or "Smith et al. (2019)"
+  referenceIds: string[]; // Empty when the citation matches no entry
+  location: string;
+  sentence: string;
+}
+
+export interface UncitedClaim {
+  text: string;
+  location: string;
+}
+
+export interface ReferenceAnalysis {
+  references: ReferenceEntry[];
+  citations: Citation[];
+  uncitedReferences: ReferenceEntry[]; // Listed but never cited
+  unresolvedCitations: Citation[]; // Cited but not listed
+  uncitedClaims: UncitedClaim[];
+}
+
+// Sections whose text is not argued content
+const SKIPPED_SECTION_KINDS = new Set([
+  "front-matter",
+  "references",
+  "acknowledgements",
+]);
+// Caps on what is reported; long lists do not help a prompt or a student
+const MAX_UNCITED_CLAIMS = 10;
+const MAX_LISTED_REFERENCES = 15;
+const MAX_CITED_LOCATIONS = 3;
+
+const YEAR = "(?:19|20)\\d{2}[a-z]?";
+const SURNAME = "[A-Z][A-Za-zÀ-ÿ'’-]+";
+
+// "[1]", "[2, 5]", "[3-7]"
+const NUMERIC_CITATION = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+// "[smith2019]", "[smith2019,doe2020]" as produced by the LaTeX extractor
+const KEY_CITATION = /\[([A-Za-z][\w:.-]*(?:\s*,\s*[A-Za-z][\w:.-]*)*)\]/g;
+// "(Smith, 2019)", "(see Smith et al., 2019; Doe & Lee, 2020a)"
+const PARENTHETICAL_CITATION = new RegExp(
+  `\\(([^()]*?\\b${YEAR}[^()]*)\\)`,
+  "g"
+);
+// "Smith et al. (2019)", "Smith and Doe (2019)"
+const NARRATIVE_CITATION = new RegExp(
+  `(${SURNAME})(?:\\s+et al\\.?|\\s+(?:and|&)\\s+${SURNAME})?\\s+\\((${YEAR})\\)`,
+  "g"
+);
+const AUTHOR_YEAR = new RegExp(
+  `(${SURNAME})(?:\\s+et al\\.?|\\s+(?:and|&)\\s+${SURNAME})?,?\\s+(${YEAR})`
+);
+
+// Capitalized words that precede a year without being an author
+const NOT_AUTHORS = new Set([
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+  "spring",
+  "summer",
+  "autumn",
+  "fall",
+  "winter",
+  "since",
+  "in",
+]);
+
+// Statements that lean on other work and normally need a citation
+const CLAIM_PATTERN =
+  /\b(studies (?:show|have shown|suggest)|research (?:shows|suggests|has shown)|it (?:is|has been) (?:well[- ])?(?:known|shown|established|reported|demonstrated)|(?:previous|prior|existing|related) (?:work|studies|research|approaches)|widely (?:used|adopted|accepted|known)|according to|state[- ]of[- ]the[- ]art|in the literature|has been proven)\b/i;
+
+/**
+ * Parse the bibliography and link every in-text citation to it
+ */
+export function analyzeReferences(
+  sections: DocumentSection[]
+): ReferenceAnalysis {
+  const all = flattenSections(sections);
+  const references = all
+    .filter((section) => section.kind === "references")
+    .flatMap((section) => splitEntries(section.text))
+    .map((raw, index) => parseEntry(raw, index));
+
+  const citations: Citation[] = [];
+  const uncitedClaims: UncitedClaim[] = [];
+
+  for (const section of all) {
+    if (SKIPPED_SECTION_KINDS.has(section.kind) || !section.text) continue;
+    const location = formatSectionLocation(section);
+
+    for (const sentence of splitSentences(section.text)) {
+      const found = findCitations(sentence, references);
+      found.forEach((citation) =>
+        citations.push({ ...citation, location, sentence })
+      );
+
+      if (found.length === 0 && CLAIM_PATTERN.test(sentence)) {
+        uncitedClaims.push({ text: truncate(sentence, 200), location });
+      }
+    }
+  }
+
+  // Count citations per entry and remember where each was cited
+  const byId = new Map(references.map((entry) => [entry.id, entry]));
+  for (const citation of citations) {
+    for (const id of citation.referenceIds) {
+      const entry = byId.get(id);
+      if (!entry) continue;
+      entry.citationCount++;
+      if (
+        !entry.citedIn.includes(citation.location) &&
+        entry.citedIn.length < MAX_CITED_LOCATIONS
+      ) {
+        entry.citedIn.push(citation.location);
+      }
+    }
+  }
+
+  return {
+    references,
+    citations,
+    uncitedReferences: references.filter((entry) => entry.citationCount === 0),
+    // Without a parsed bibliography there is nothing to resolve against
+    unresolvedCitations:
+      references.length > 0
+        ? citations.filter((citation) => citation.referenceIds.length === 0)
+        : [],
+    uncitedClaims: uncitedClaims.slice(0, MAX_UNCITED_CLAIMS),
+  };
+}
+
+/**
+ * Short author-year label, e.g. "Smith et al. (2019)"
+ */
+export function formatReferenceLabel(entry: ReferenceEntry): string {
+  const [first, second] = entry.authors;
+  const authors = !first
+    ? entry.label
+      ? `[${entry.label}]`
+      : "Unknown"
+    : entry.authors.length > 2
+    ? `${first} et al.`
+    : second
+    ? `${first} and ${second}`
+    : first;
+
+  return entry.year ? `${authors} (${entry.year})` : authors;
+}
+
+/**
+ * Summary of the bibliography for question generation and the examiner:
+ * the most cited works with where they are cited, plus citation gaps
+ */
+export function formatReferenceSummary(analysis: ReferenceAnalysis): string {
+  if (analysis.references.length === 0 && analysis.uncitedClaims.length === 0) {
+    return "";
+  }
+
+  const describe = (entry: ReferenceEntry) =>
+    `${formatReferenceLabel(entry)}${entry.title ? `, "${entry.title}"` : ""}${
+      entry.venue ? `, ${entry.venue}` : ""
+    }`;
+
+  const cited = analysis.references
+    .filter((entry) => entry.citationCount > 0)
+    .sort((a, b) => b.citationCount - a.citationCount)
+    .slice(0, MAX_LISTED_REFERENCES)
+    .map(
+      (entry) =>
+        `- ${describe(entry)}: cited ${
+          entry.citationCount
+        }x in ${entry.citedIn.join(", ")}`
+    );
+  const uncited = analysis.uncitedReferences
+    .slice(0, MAX_LISTED_REFERENCES)
+    .map((entry) => `- ${describe(entry)}`);
+  const claims = analysis.uncitedClaims.map(
+    (claim) => `- "${claim.text}" (${claim.location})`
+  );
+
+  return [
+    `${analysis.references.length} references, ${analysis.citations.length} in-text citations.`,
+    cited.length > 0 ? `Most cited:\n${cited.join("\n")}` : "",
+    uncited.length > 0 ? `Listed but never cited:\n${uncited.join("\n")}` : "",
+    claims.length > 0 ? `Claims without a citation:\n${claims.join("\n")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Citation problems as readable documentation gaps for the feedback page
+ */
+export function formatReferenceIssues(analysis: ReferenceAnalysis): string[] {
+  const unresolved = Array.from(
+    new Set(analysis.unresolvedCitations.map((citation) => citation.text))
+  );
+
+  return [
+    ...analysis.uncitedReferences.map(
+      (entry) =>
+        `The reference ${formatReferenceLabel(entry)}${
+          entry.title ? ` "${entry.title}"` : ""
+        } is listed but never cited in the text.`
+    ),
+    ...unresolved.map(
+      (text) =>
+        `The citation ${text} does not match any entry in the reference list.`
+    ),
+    ...analysis.uncitedClaims.map(
+      (claim) =>
+        `${claim.location} makes a claim without a citation: "${claim.text}"`
+    ),
+  ];
+}
+
+/**
+ * Split a bibliography into entries. Numbered and keyed styles start each
+ * entry with "[n]", "[key]" or "n."; author-year styles with "Surname, X".
+ */
+function splitEntries(text: string): string[] {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const markerPattern = /^(?:\[[^\]]+\]|\d{1,3}\.)\s/;
+  const numbered =
+    lines.filter((line) => markerPattern.test(line)).length >= lines.length / 4;
+  const startPattern = numbered
+    ? markerPattern
+    : new RegExp(`^${SURNAME},\\s*(?:[A-Z]\\.|[A-Z][a-z]+)`);
+
+  const entries: string[] = [];
+  for (const line of lines) {
+    // An entry ends with a period; a name after an unfinished line continues it
+    const previous = entries[entries.length - 1];
+    const continues =
+      !numbered && previous !== undefined && !/[.)]$/.test(previous);
+
+    if (startPattern.test(line) && !continues) {
+      entries.push(line);
+    } else if (previous !== undefined) {
+      entries[entries.length - 1] = `${previous} ${line}`;
+    } else {
+      entries.push(line);
+    }
+  }
+
+  return entries.filter((entry) => entry.length > 10);
+}
+
+function parseEntry(raw: string, index: number): ReferenceEntry {
+  const marker = raw.match(/^(?:\[([^\]]+)\]|(\d{1,3})\.)\s*/);
+  const label = marker ? marker[1] || marker[2] : undefined;
+  const body = marker ? raw.slice(marker[0].length) : raw;
+
+  const yearMatch =
+    body.match(new RegExp(`\\((${YEAR})\\)`)) ||
+    body.match(new RegExp(`\\b(${YEAR})\\b`));
+  const year = yearMatch?.[1];
+
+  // Quoted titles (IEEE) or the sentence after the year (APA, Harvard)
+  const quoted = body.match(/["“]([^"”]+)["”]/);
+  let title: string | undefined;
+  let authorText: string;
+  let rest: string;
+  if (quoted) {
+    title = quoted[1].replace(/[,.]$/, "");
+    authorText = body.slice(0, quoted.index);
+    rest = body.slice((quoted.index || 0) + quoted[0].length);
+  } else if (yearMatch && yearMatch[0].startsWith("(")) {
+    authorText = body.slice(0, yearMatch.index);
+    const after = body.slice((yearMatch.index || 0) + yearMatch[0].length);
+    const [titlePart, ...others] = after.replace(/^[.,\s]+/, "").split(/\.\s+/);
+    title = titlePart;
+    rest = others.join(". ");
+  } else {
+    const [authorPart, titlePart, ...others] = body.split(/\.\s+/);
+    authorText = authorPart;
+    title = titlePart;
+    rest = others.join(". ");
+  }
+
+  const venue = rest
+    .replace(/^[\s,.]*(?:in:?\s+)?/i, "")
+    .split(/,?\s*\(?(?:vol|pp|no)\.|,?\s*\(?(?:19|20)\d{2}|,\s*\d/)[0]
+    .replace(/[,.\s]+$/, "");
+
+  return {
+    id: `r${index + 1}`,
+    ...(label ? { label } : {}),
+    raw,
+    authors: parseAuthors(authorText),
+    ...(year ? { year } : {}),
+    ...(title ? { title: title.trim().replace(/[.,]$/, "") } : {}),
+    ...(venue && venue.length > 2 ? { venue } : {}),
+    citationCount: 0,
+    citedIn: [],
+  };
+}
+
+/**
+ * Surnames from "Smith, J., & Doe, A." or "J. Smith, A. Doe, and B. Lee"
+ */
+function parseAuthors(text: string): string[] {
+  const initialsFirst = Array.from(
+    text.matchAll(new RegExp(`(?:[A-Z]\\.\\s*-?)+\\s*(${SURNAME})`, "g"))
+  ).map((match) => match[1]);
+  if (/^\s*[A-Z]\./.test(text) && initialsFirst.length > 0) {
+    return initialsFirst;
+  }
+
+  const surnameFirst = Array.from(
+    text.matchAll(new RegExp(`(${SURNAME}),\\s*(?:[A-Z]\\.\\s*-?)+`, "g"))
+  ).map((match) => match[1]);
+  if (surnameFirst.length > 0) return surnameFirst;
+  if (initialsFirst.length > 0) return initialsFirst;
+
+  // Organisations and full first names: take the leading name
+  const leading = text.match(new RegExp(`^(${SURNAME})`));
+  return leading ? [leading[1]] : [];
+}
+
+function findCitations(
+  sentence: string,
+  references: ReferenceEntry[]
+): Array<Pick<Citation, "text" | "referenceIds">> {
+  const citations: Array<Pick<Citation, "text" | "referenceIds">> = [];
+  const byLabel = new Map(
+    references
+      .filter((entry) => entry.label)
+      .map((entry) => [entry.label!.toLowerCase(), entry.id])
+  );
+
+  // Labels missing from the bibliography are reported one by one
+  const addLabelled = (text: string, labels: string[]) => {
+    const ids = labels.map((label) => byLabel.get(label.toLowerCase()));
+    citations.push({
+      text,
+      referenceIds: ids.filter((id): id is string => Boolean(id)),
+    });
+    if (ids.every(Boolean) || ids.length === 1) return;
+    labels
+      .filter((_label, index) => !ids[index])
+      .forEach((label) =>
+        citations.push({ text: `[${label}]`, referenceIds: [] })
+      );
+  };
+
+  for (const match of Array.from(sentence.matchAll(NUMERIC_CITATION))) {
+    addLabelled(match[0], expandNumbers(match[1]));
+  }
+
+  // Keys only count when one names an entry; other brackets are not citations
+  for (const match of Array.from(sentence.matchAll(KEY_CITATION))) {
+    const keys = match[1].split(",").map((key) => key.trim());
+    if (keys.some((key) => byLabel.has(key.toLowerCase()))) {
+      addLabelled(match[0], keys);
+    }
+  }
+
+  for (const match of Array.from(sentence.matchAll(PARENTHETICAL_CITATION))) {
+    const parts = match[1]
+      .split(";")
+      .map((part) => part.match(AUTHOR_YEAR))
+      .filter(
+        (part): part is RegExpMatchArray =>
+          Boolean(part) && !NOT_AUTHORS.has(part![1].toLowerCase())
+      );
+    // "(2019)" alone belongs to a narrative citation, handled below
+    if (parts.length === 0) continue;
+    citations.push({
+      text: match[0],
+      referenceIds: parts
+        .map((part) => resolveAuthorYear(part[1], part[2], references))
+        .filter((id): id is string => Boolean(id)),
+    });
+  }
+
+  // "Windows (2019)" looks the same, so only matched names count
+  for (const match of Array.from(sentence.matchAll(NARRATIVE_CITATION))) {
+    const id = resolveAuthorYear(match[1], match[2], references);
+    if (id) {
+      citations.push({ text: match[0], referenceIds: [id] });
+    }
+  }
+
+  return citations;
+}
+
+function resolveAuthorYear(
+  surname: string,
+  year: string,
+  references: ReferenceEntry[]
+): string | undefined {
+  const name = surname.toLowerCase();
+  // "2019a" and "2019b" disambiguate entries with the same author and year;
+  // a suffix only has to match when both sides have one
+  const matches = references.filter(
+    (entry) =>
+      entry.authors[0]?.toLowerCase() === name &&
+      entry.year?.slice(0, 4) === year.slice(0, 4) &&
+      (entry.year === year || entry.year.length === 4 || year.length === 4)
+  );
+  return (
+    matches.find((entry) => entry.year === year)?.id ||
+    (matches.length === 1 ? matches[0].id : undefined)
+  );
+}
+
+/**
+ * "2, 5-7" becomes ["2", "5", "6", "7"]
+ */
+function expandNumbers(text: string): string[] {
+  return text.split(",").flatMap((part) => {
+    const [start, end] = part.split(/[-–]/).map((value) => Number(value));
+    if (end === undefined || Number.isNaN(end) || end < start) {
+      return [String(start)];
+    }
+    return Array.from({ length: Math.min(end - start, 50) + 1 }, (_, i) =>
+      String(start + i)
+    );
+  });
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\n+/g, " ")
+    .split(/(?:[.!?])\s+(?=[A-Z])/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
@@ -0,0 +1,211 @@
+/**
+ * Local lexical retrieval over document chunks.
+ * A small BM25 index that runs entirely in-process (no embeddings API),
+ * used by the examiner to find the passages most relevant to an answer.
+ */
+
+import type { DocumentChunk } from "@/lib/document-processor";
+
+export interface LexicalIndex {
+  chunks: DocumentChunk[];
+  termFrequencies: Array<Map<string, number>>;
+  documentFrequencies: Map<string, number>;
+  chunkLengths: number[];
+  averageLength: number;
+}
+
+export interface RetrievedPassage {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "also",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "because",
+  "been",
+  "but",
+  "by",
+  "can",
+  "could",
+  "did",
+  "do",
+  "does",
+  "for",
+  "from",
+  "had",
+  "has",
+  "have",
+  "how",
+  "i",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "just",
+  "me",
+  "more",
+  "my",
+  "no",
+  "not",
+  "of",
+  "on",
+  "or",
+  "our",
+  "so",
+  "such",
+  "than",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "to",
+  "us",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "which",
+  "while",
+  "who",
+  "why",
+  "will",
+  "with",
+  "would",
+  "you",
+  "your",
+]);
+
+/**
+ * Build a BM25 index over a set of chunks
+ */
+export function buildLexicalIndex(chunks: DocumentChunk[]): LexicalIndex {
+  const termFrequencies: Array<Map<string, number>> = [];
+  const documentFrequencies = new Map<string, number>();
+  const chunkLengths: number[] = [];
+
+  for (const chunk of chunks) {
+    const terms = tokenize(
+      [chunk.sectionTitle, chunk.text].filter(Boolean).join(" ")
+    );
+    const frequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    for (const term of Array.from(frequencies.keys())) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+
+    termFrequencies.push(frequencies);
+    chunkLengths.push(terms.length);
+  }
+
+  const totalLength = chunkLengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    chunks,
+    termFrequencies,
+    documentFrequencies,
+    chunkLengths,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+}
+
+/**
+ * Return the highest-scoring chunks for a free-text query
+ */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  limit: number = 4
+): RetrievedPassage[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.chunks.length === 0) {
+    return [];
+  }
+
+  const chunkCount = index.chunks.length;
+  const results: RetrievedPassage[] = [];
+
+  index.chunks.forEach((chunk, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthNorm =
+      1 -
+      BM25_B +
+      BM25_B * (index.chunkLengths[i] / (index.averageLength || 1));
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = frequencies.get(term);
+      if (!frequency) continue;
+
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(
+        1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+      );
+      score +=
+        (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+    }
+
+    if (score > 0) {
+      results.push({ chunk, score });
+    }
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Describe where a passage comes from, e.g. "thesis.pdf, Section 3.2, p.14"
+ */
+export function formatPassageSource(chunk: DocumentChunk): string {
+  const location = chunk.location || chunk.sectionTitle;
+  return [chunk.documentName, location].filter(Boolean).join(", ") || chunk.id;
+}
+
+/**
+ * Lowercase, strip punctuation, drop stop words and apply light stemming
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Strip common English suffixes so "testing", "tested" and "tests" match
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/ies$/, "y")
+    .replace(/(ing|edly|ed|ly|es|s)$/, "")
+    .replace(/ation$/, "ate");
+}
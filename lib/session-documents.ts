@@ -0,0 +1,348 @@
+/**
+ * Typed documents attached to a defense session (report, slides, code,
+ * appendix). Each attachment is processed on its own; its chunks are tagged
+ * with the document they came from so the examiner can say which source a
+ * passage belongs to.
+ */
+
+import { sha256 } from "js-sha256";
+
+import {
+  MAX_CODE_ARCHIVE_SIZE,
+  formatCodeSummary,
+  indexCodeArchive,
+  type CodeIndex,
+} from "@/lib/code-indexer";
+import {
+  LOW_OCR_CONFIDENCE,
+  detectDocumentFormat,
+  type OcrSummary,
+} from "@/lib/document-extractors";
+import {
+  MAX_FILE_SIZE,
+  UNSUPPORTED_FILE_MESSAGE,
+  estimateTokens,
+  loadOrProcessDocument,
+  type DocumentChunk,
+  type ProcessedDocument,
+} from "@/lib/document-processor";
+import { saveDocumentSummary } from "@/lib/actions/document.action";
+import { COGNITIVE_LEVELS, type CognitiveDistribution } from "@/lib/bloom";
+import { formatCaptionList } from "@/lib/captions";
+import { formatSectionOutline } from "@/lib/document-structure";
+import {
+  EXTRACTIVE_SUMMARY,
+  summarizeDocument,
+  type DocumentSummary,
+} from "@/lib/summarizer";
+
+export interface AttachedDocument {
+  id: string; // "d1", "d2", ... unique within the session
+  file: File;
+  kind: DocumentKind;
+  status: "processing" | "ready" | "error";
+  processed?: ProcessedDocument; // Set for report, slides and appendix
+  codeIndex?: CodeIndex; // Set for code archives
+  fileHash?: string; // SHA-256 of the file, links to the "documents" collection
+  warning?: string;
+  error?: string;
+}
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  report: "Report",
+  slides: "Slides",
+  code: "Source Code",
+  appendix: "Appendix",
+};
+
+// Upper bound on attachments per session
+export const MAX_SESSION_DOCUMENTS = 6;
+// Documents shorter than this are given to the model in full, not summarized
+const SUMMARIZE_ABOVE_TOKENS = 1500;
+
+/**
+ * Guess what an uploaded file is; the user can change it afterwards
+ */
+export function guessDocumentKind(
+  file: File,
+  existingKinds: DocumentKind[]
+): DocumentKind {
+  const format = detectDocumentFormat(file.type, file.name);
+
+  if (format === "pptx" || format === "odp") {
+    return "slides";
+  }
+  // Zips are usually repositories; LaTeX projects can be switched to "report"
+  if (format === "latex-archive") {
+    return "code";
+  }
+  return existingKinds.includes("report") ? "appendix" : "report";
+}
+
+/**
+ * Check size and format limits for a file of the given kind.
+ * Returns an error message, or null when the file is acceptable.
+ */
+export function validateAttachment(
+  file: File,
+  kind: DocumentKind
+): string | null {
+  if (kind === "code") {
+    if (!file.name.toLowerCase().endsWith(".zip")) {
+      return "Please upload your source code as a .zip archive.";
+    }
+    if (file.size > MAX_CODE_ARCHIVE_SIZE) {
+      return "Code archive exceeds 20MB limit. Remove dependencies and build output and try again.";
+    }
+    return null;
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return "File size exceeds 5MB limit. Please upload a smaller file.";
+  }
+  if (!detectDocumentFormat(file.type, file.name)) {
+    return UNSUPPORTED_FILE_MESSAGE;
+  }
+  return null;
+}
+
+/**
+ * Extract or index an attachment according to its kind
+ */
+export async function processAttachedDocument(
+  attachment: AttachedDocument
+): Promise<AttachedDocument> {
+  const { file, kind } = attachment;
+  const base: AttachedDocument = {
+    id: attachment.id,
+    file,
+    kind,
+    status: "processing",
+  };
+
+  const validationError = validateAttachment(file, kind);
+  if (validationError) {
+    return { ...base, status: "error", error: validationError };
+  }
+
+  try {
+    if (kind === "code") {
+      const data = await file.arrayBuffer();
+      const codeIndex = await indexCodeArchive(data, file.name);
+      return { ...base, status: "ready", codeIndex, fileHash: sha256(data) };
+    }
+
+    // Re-uploads of the same file reuse the stored extraction
+    const processed = await loadOrProcessDocument(file);
+    if (!processed.success) {
+      return {
+        ...base,
+        status: "error",
+        error: processed.error || "Failed to process file",
+      };
+    }
+
+    return {
+      ...base,
+      status: "ready",
+      processed,
+      fileHash: processed.metadata.fileHash,
+      warning: processed.metadata.ocr
+        ? describeOcrResult(processed.metadata.ocr)
+        : undefined,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: "error",
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unknown error processing file",
+    };
+  }
+}
+
+/**
+ * Summarize a long document so question generation covers all of it.
+ * Returns undefined for documents short enough to use in full. Model-written
+ * summaries are stored with the document and reused on the next upload.
+ */
+export async function summarizeAttachment(
+  attachment: AttachedDocument
+): Promise<DocumentSummary | undefined> {
+  const processed = attachment.processed;
+  if (!processed || estimateTokens(processed.text) <= SUMMARIZE_ABOVE_TOKENS) {
+    return undefined;
+  }
+  if (processed.summary) {
+    return processed.summary;
+  }
+
+  const summary = await summarizeDocument({
+    name: attachment.file.name,
+    chunks: processed.metadata.chunks,
+  });
+
+  // Partial summaries are not stored so the next upload tries again
+  if (
+    attachment.fileHash &&
+    summary.model !== EXTRACTIVE_SUMMARY &&
+    !summary.partial
+  ) {
+    const result = await saveDocumentSummary(attachment.fileHash, summary);
+    if (!result.success) {
+      console.warn("Could not store document summary:", result.error);
+    }
+  }
+  return summary;
+}
+
+/**
+ * Session-level metadata for an attachment, safe to store in Firestore
+ */
+export function toSessionDocument(
+  attachment: AttachedDocument
+): SessionDocument {
+  const chunks = getDocumentChunks(attachment);
+  const pageCount = attachment.processed?.metadata.pageCount;
+
+  return {
+    id: attachment.id,
+    name: attachment.file.name,
+    kind: attachment.kind,
+    fileType: attachment.file.type || "unknown",
+    wordCount: attachment.processed?.metadata.wordCount || 0,
+    chunkCount: chunks.length,
+    // Firestore rejects undefined values
+    ...(pageCount !== undefined ? { pageCount } : {}),
+    ...(attachment.fileHash ? { hash: attachment.fileHash } : {}),
+  };
+}
+
+/**
+ * Chunks of an attachment, tagged with their source document.
+ * Ids are prefixed with the document id so they stay unique per session.
+ */
+export function getDocumentChunks(
+  attachment: AttachedDocument
+): DocumentChunk[] {
+  const chunks =
+    attachment.processed?.metadata.chunks || attachment.codeIndex?.chunks || [];
+
+  return chunks.map((chunk) => ({
+    ...chunk,
+    id: `${attachment.id}-${chunk.id}`,
+    documentId: attachment.id,
+    documentName: attachment.file.name,
+    documentKind: attachment.kind,
+  }));
+}
+
+/**
+ * Outline of every processed document, headed by its kind and name and
+ * followed by its figure and table captions
+ */
+export function formatDocumentsOutline(documents: AttachedDocument[]): string {
+  return documents
+    .filter((attachment) => attachment.processed)
+    .map((attachment) => {
+      const outline = formatSectionOutline(attachment.processed!.sections);
+      const captions = formatCaptionList(attachment.processed!.captions);
+      return `${DOCUMENT_KIND_LABELS[attachment.kind]}: ${
+        attachment.file.name
+      }${outline ? `\n${outline}` : ""}${
+        captions ? `\nFigures and tables:\n${captions}` : ""
+      }`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Combined summary of all attached code archives
+ */
+export function formatCodeSummaries(documents: AttachedDocument[]): string {
+  return documents
+    .filter((attachment) => attachment.codeIndex)
+    .map((attachment) => formatCodeSummary(attachment.codeIndex!))
+    .join("\n\n");
+}
+
+/**
+ * Technologies detected across all attached code archives
+ */
+export function collectTechstack(documents: AttachedDocument[]): string[] {
+  return Array.from(
+    new Set(
+      documents.flatMap((attachment) => attachment.codeIndex?.techstack || [])
+    )
+  );
+}
+
+/**
+ * Everything besides the files that a generated question set depends on
+ */
+export interface QuestionSetParams {
+  academicLevel: string;
+  focusRatio: string;
+  questionCount: number;
+  model: string;
+  promptVersion: string; // A new prompt version generates new questions
+  bloomProfile: CognitiveDistribution; // The institution's mix for the level
+  previousFileHash?: string; // Revision the questions focus changes against
+}
+
+/**
+ * Key for the questions generated from exactly this set of files with these
+ * parameters, independent of upload order
+ */
+export function questionSetKey(
+  documents: AttachedDocument[],
+  params: QuestionSetParams
+): string {
+  const hashes = documents
+    .map((attachment) => attachment.fileHash || attachment.file.name)
+    .sort();
+  return sha256(
+    hashes
+      .concat([
+        params.previousFileHash || "",
+        params.focusRatio,
+        params.academicLevel,
+        String(params.questionCount),
+        params.model,
+        params.promptVersion,
+        COGNITIVE_LEVELS.map((level) => params.bloomProfile[level]).join(","),
+      ])
+      .join("+")
+  );
+}
+
+/**
+ * Test mode: question sets are only replayed from the cache and never
+ * generated, so repeated runs see exactly the same questions
+ */
+export function isQuestionReplayMode(): boolean {
+  return process.env.NEXT_PUBLIC_QUESTION_CACHE_MODE === "replay";
+}
+
+/**
+ * User-facing note about pages that had to be read with OCR
+ */
+function describeOcrResult(ocr: OcrSummary): string {
+  if (!ocr.lowConfidence) {
+    return `${ocr.pages.length} scanned page(s) were read with OCR (average confidence ${ocr.averageConfidence}%).`;
+  }
+
+  const lowPages = ocr.pages
+    .filter((page) => page.confidence < LOW_OCR_CONFIDENCE)
+    .map((page) => page.pageNumber);
+
+  return `Some pages are scanned images and were read with OCR at low confidence (average ${
+    ocr.averageConfidence
+  }%${lowPages.length > 0 ? `; pages ${lowPages.join(", ")}` : ""}${
+    ocr.skippedPages.length > 0
+      ? `; unreadable pages ${ocr.skippedPages.join(", ")}`
+      : ""
+  }). Questions about these pages may be inaccurate.`;
+}
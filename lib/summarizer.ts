@@ -0,0 +1,249 @@
+/**
+ * Map-reduce summarization for long documents.
+ * Each section's chunks are summarized on their own (map), then the section
+ * summaries are condensed into a whole-document summary (reduce), so question
+ * generation sees every chapter of a long thesis instead of its first pages.
+ */
+
+import { generateText } from "ai";
+
+import {
+  CAPTION_CHUNK_PREFIX,
+  estimateTokens,
+  type DocumentChunk,
+} from "@/lib/document-processor";
+import { resolveModel } from "@/lib/llm-provider";
+import { renderPrompt } from "@/lib/prompts";
+
+export interface SectionSummary {
+  sectionId?: string;
+  title: string;
+  location: string;
+  summary: string;
+}
+
+export interface DocumentSummary {
+  summary: string; // Whole-document summary
+  sections: SectionSummary[]; // In document order
+  model: string; // Model that wrote it, or "extractive" without one
+  partial?: boolean; // Some requests failed and their parts are extractive
+  createdAt: string;
+}
+
+// Marks summaries built from leading sentences when no model is available
+export const EXTRACTIVE_SUMMARY = "extractive";
+
+// Consecutive chunks of one section are summarized together up to this size
+const MAP_INPUT_TOKENS = 2000;
+// Summaries are condensed in batches of this size until one batch remains
+const REDUCE_INPUT_TOKENS = 6000;
+// Parallel model requests; more trips the free-tier rate limit
+const SUMMARY_CONCURRENCY = 3;
+// Sentences kept per section by the extractive fallback
+const EXTRACTIVE_SENTENCES = 2;
+
+interface MapGroup {
+  sectionId?: string;
+  title: string;
+  location: string;
+  text: string;
+}
+
+/**
+ * Summarize a processed document chunk by chunk, then as a whole.
+ * Falls back to an extractive summary when no model is configured, and to
+ * extractive text for just the failed part when a request fails, so callers
+ * always get a result.
+ */
+export async function summarizeDocument(params: {
+  name: string;
+  chunks: DocumentChunk[];
+}): Promise<DocumentSummary> {
+  const { name, chunks } = params;
+  const resolved = resolveModel("summary");
+  const model = resolved?.model;
+
+  const groups = groupChunks(
+    chunks.filter((chunk) => !chunk.id.startsWith(CAPTION_CHUNK_PREFIX))
+  );
+
+  let partial = false;
+  const complete = async (prompt: string, fallback: string) => {
+    if (!model) return fallback;
+    try {
+      const { text } = await generateText({ model, prompt, temperature: 0.2 });
+      return text.trim() || fallback;
+    } catch (error) {
+      console.error("Error summarizing document:", error);
+      partial = true;
+      return fallback;
+    }
+  };
+
+  // Map: one summary per group of chunks
+  const mapped = await mapWithConcurrency(
+    groups,
+    SUMMARY_CONCURRENCY,
+    (group) =>
+      complete(
+        renderPrompt("summary-passage", {
+          location: group.location,
+          name,
+          text: group.text,
+        }).text,
+        extractSentences(group.text, EXTRACTIVE_SENTENCES)
+      )
+  );
+  const sections = mergeSections(groups, mapped);
+
+  // Reduce: condense the section summaries until they fit one request
+  let summaries = sections.map(
+    (section) => `[${section.location}] ${section.summary}`
+  );
+  while (
+    summaries.length > 1 &&
+    estimateTokens(summaries.join("\n")) > REDUCE_INPUT_TOKENS
+  ) {
+    const batches = batchByTokens(summaries, REDUCE_INPUT_TOKENS);
+    // Stop when batching cannot shrink the list any further
+    if (batches.length === summaries.length) break;
+    summaries = await mapWithConcurrency(
+      batches,
+      SUMMARY_CONCURRENCY,
+      (batch) =>
+        complete(
+          renderPrompt("summary-condense", {
+            name,
+            summaries: batch.join("\n"),
+          }).text,
+          batch.join(" ")
+        )
+    );
+  }
+
+  const summary = await complete(
+    renderPrompt("summary-document", {
+      name,
+      summaries: summaries.join("\n"),
+    }).text,
+    sections
+      .map((section) => extractSentences(section.summary, 1))
+      .join(" ")
+      .slice(0, 2000)
+  );
+
+  return {
+    summary,
+    sections,
+    model: resolved ? resolved.label : EXTRACTIVE_SUMMARY,
+    ...(partial ? { partial } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Group consecutive chunks of the same section up to the map input size
+ */
+function groupChunks(chunks: DocumentChunk[]): MapGroup[] {
+  const groups: MapGroup[] = [];
+
+  for (const chunk of chunks) {
+    const last = groups[groups.length - 1];
+    if (
+      last &&
+      last.sectionId === chunk.sectionId &&
+      estimateTokens(last.text) + estimateTokens(chunk.text) <= MAP_INPUT_TOKENS
+    ) {
+      last.text += `\n${chunk.text}`;
+      continue;
+    }
+
+    groups.push({
+      sectionId: chunk.sectionId,
+      title: chunk.sectionTitle || "Untitled section",
+      location: chunk.location || chunk.sectionTitle || "the document",
+      text: chunk.text,
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * One summary per section; long sections summarized in several groups are
+ * joined back together
+ */
+function mergeSections(
+  groups: MapGroup[],
+  summaries: string[]
+): SectionSummary[] {
+  const sections: SectionSummary[] = [];
+
+  groups.forEach((group, index) => {
+    const last = sections[sections.length - 1];
+    if (last && last.sectionId === group.sectionId) {
+      last.summary += ` ${summaries[index]}`;
+      return;
+    }
+    sections.push({
+      // Firestore rejects undefined values
+      ...(group.sectionId ? { sectionId: group.sectionId } : {}),
+      title: group.title,
+      location: group.location,
+      summary: summaries[index],
+    });
+  });
+
+  return sections;
+}
+
+function batchByTokens(items: string[], maxTokens: number): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const itemTokens = estimateTokens(item);
+    if (current.length > 0 && tokens + itemTokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(item);
+    tokens += itemTokens;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+function extractSentences(text: string, count: number): string {
+  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  return sentences
+    .slice(0, count)
+    .map((sentence) => sentence.trim())
+    .join(" ");
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import JSZip from "jszip";
+
+import { createZipReader } from "@/lib/zip-reader";
+
+async function loadZip(files: Record<string, string>) {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  const data = await zip.generateAsync({
+    type: "arraybuffer",
+    compression: "DEFLATE",
+  });
+  return JSZip.loadAsync(data);
+}
+
+test("reads entries within the limits", async () => {
+  const zip = await loadZip({ "main.tex": "\\documentclass{article} é" });
+  const reader = createZipReader(1024, "too large");
+
+  assert.equal(
+    await reader.readText(zip.files["main.tex"], 100),
+    "\\documentclass{article} é"
+  );
+});
+
+test("stops reading an entry past its limit", async () => {
+  const zip = await loadZip({ "big.ts": "x".repeat(100_000), "a.ts": "a" });
+  const reader = createZipReader(1_000_000, "too large");
+
+  assert.equal(await reader.readBytes(zip.files["big.ts"], 1000), null);
+  assert.equal(await reader.readText(zip.files["a.ts"], 1000), "a");
+});
+
+test("throws once the archive's total is exceeded", async () => {
+  const zip = await loadZip({
+    "a.ts": "a".repeat(600),
+    "b.ts": "b".repeat(600),
+  });
+  const reader = createZipReader(1000, "too large");
+
+  await reader.readText(zip.files["a.ts"], 1000);
+  await assert.rejects(reader.readText(zip.files["b.ts"], 1000), /too large/);
+});
@@ -0,0 +1,89 @@
+/**
+ * Bounded reads from zip archives.
+ * Entries are inflated through JSZip's stream and dropped as soon as they
+ * pass a byte limit, so an oversized entry or a zip bomb is never held in
+ * memory in full. Each reader also caps the bytes inflated across the whole
+ * archive.
+ */
+
+import type JSZip from "jszip";
+
+// internalStream is documented JSZip API but missing from its declarations
+declare module "jszip" {
+  interface JSZipObject {
+    internalStream(type: "uint8array"): JSZip.JSZipStreamHelper<Uint8Array>;
+  }
+}
+
+export interface ZipReader {
+  // The entry's bytes, or null when it inflates to more than maxBytes
+  readBytes(
+    entry: JSZip.JSZipObject,
+    maxBytes: number
+  ): Promise<Uint8Array | null>;
+  // The entry as UTF-8 text, or null when it inflates to more than maxBytes
+  readText(entry: JSZip.JSZipObject, maxBytes: number): Promise<string | null>;
+}
+
+/**
+ * A reader that throws an Error with tooLargeMessage once the entries read
+ * through it inflate to more than maxTotalBytes together
+ */
+export function createZipReader(
+  maxTotalBytes: number,
+  tooLargeMessage: string
+): ZipReader {
+  let totalBytes = 0;
+
+  const readBytes = (entry: JSZip.JSZipObject, maxBytes: number) =>
+    new Promise<Uint8Array | null>((resolve, reject) => {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      let settled = false;
+
+      const stream = entry.internalStream("uint8array");
+      const stop = (settle: () => void) => {
+        settled = true;
+        stream.pause();
+        settle();
+      };
+
+      stream
+        .on("data", (chunk) => {
+          if (settled) return;
+          size += chunk.length;
+          if (size > maxBytes) {
+            stop(() => resolve(null));
+          } else if (totalBytes + size > maxTotalBytes) {
+            stop(() => reject(new Error(tooLargeMessage)));
+          } else {
+            chunks.push(chunk);
+          }
+        })
+        .on("error", (error) => {
+          if (!settled) stop(() => reject(error));
+        })
+        .on("end", () => {
+          if (settled) return;
+          settled = true;
+          totalBytes += size;
+
+          const bytes = new Uint8Array(size);
+          let offset = 0;
+          for (const chunk of chunks) {
+            bytes.set(chunk, offset);
+            offset += chunk.length;
+          }
+          resolve(bytes);
+        })
+        .resume();
+    });
+
+  return {
+    readBytes,
+    async readText(entry, maxBytes) {
+      const bytes = await readBytes(entry, maxBytes);
+      return bytes ? new TextDecoder("utf-8").decode(bytes) : null;
+    },
+  };
+}
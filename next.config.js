@@ -11,6 +11,15 @@ const nextConfig = {
 
     return config;
   },
+  // Load PDF.js, node-canvas and tesseract.js from node_modules on the server
+  // so PDF.js's fake worker and the native/WASM OCR modules resolve
+  serverExternalPackages: ["pdfjs-dist", "canvas", "tesseract.js"],
+  experimental: {
+    // Uploaded documents (up to 5MB) are passed to server actions for OCR
+    serverActions: {
+      bodySizeLimit: "6mb",
+    },
+  },
   // Disable ESLint during build if DISABLE_ESLINT_PLUGIN is true
   eslint: {
     ignoreDuringBuilds: process.env.DISABLE_ESLINT_PLUGIN === "true",
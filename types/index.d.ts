@@ -12,19 +12,105 @@ interface Feedback {
   finalAssessment: string;
   documentGaps?: string[];
   implementationSuggestions?: string[];
+  promptVersions?: import("@/lib/prompts").PromptVersions; // Session prompts plus the evaluator's
+  model?: string; // Model that wrote the feedback
   createdAt: string;
 }
 
+type DocumentKind = "report" | "slides" | "code" | "appendix";
+
+interface SessionDocument {
+  id: string;
+  name: string;
+  kind: DocumentKind;
+  fileType: string;
+  wordCount: number;
+  pageCount?: number;
+  chunkCount: number;
+  hash?: string; // File hash; the processed copy is stored in "documents"
+}
+
+type QuestionCategory = "technical" | "methodology" | "alternatives" | "ethics";
+
+type QuestionDifficulty = "foundational" | "intermediate" | "advanced";
+
+// Bloom's taxonomy, from remembering to producing new work
+type CognitiveLevel =
+  | "recall"
+  | "explain"
+  | "apply"
+  | "analyze"
+  | "evaluate"
+  | "create";
+
+interface DefenseQuestion {
+  text: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  cognitiveLevel?: CognitiveLevel; // Absent on questions stored before it existed
+  targetSection?: string; // e.g. "Section 3.2 (p.14)" or "Slide 4"
+  expectedPoints: string[]; // What a strong answer covers
+  rationale: string; // Why a committee would ask it
+  pinned?: boolean; // Kept through edits; the examiner must ask it
+}
+
+interface BankQuestion extends DefenseQuestion {
+  id: string; // Hash of the normalized text, so a question is saved once
+  createdBy: string; // User who first saved it
+  disciplines: string[]; // Lowercased, e.g. "computer science"
+  technologies: string[]; // Lowercased, e.g. "react"
+  tags: string[]; // "discipline:...", "technology:..." and "category:..." for filtering
+  source: "generated" | "manual";
+  sourceSessionId?: string; // Session it was generated for
+  useCount: number; // Sessions it was pulled into
+  createdAt: string;
+  updatedAt: string;
+}
+
 interface Interview {
   id: string;
   role: string;
   level: string;
-  questions: string[];
+  questions: string[]; // Question text; see defenseQuestions for the details
+  defenseQuestions?: DefenseQuestion[]; // Generated from the attached documents
   techstack: string[];
+  discipline?: import("@/lib/question-templates").Discipline; // Picks the template questions
   createdAt: string;
   userId: string;
   type: string;
   finalized: boolean;
+  documentOutline?: string;
+  documentChunkCount?: number;
+  codeSummary?: string;
+  documents?: SessionDocument[];
+  consistencyReport?: import("@/lib/consistency-checker").ConsistencyReport;
+  projectId?: string; // Project whose report revision this session examined
+  revisionNumber?: number;
+  changedSections?: string[]; // Sections changed since the previous revision
+  referenceSummary?: string; // Most cited works and citation gaps of the report
+  referenceIssues?: string[]; // Uncited references, unresolved citations, uncited claims
+  promptVersions?: import("@/lib/prompts").PromptVersions; // Prompts that produced the questions and examination
+}
+
+interface DefenseProject {
+  id: string;
+  userId: string;
+  name: string;
+  revisionCount: number;
+  latestFileHash: string; // Key of the latest report in "documents"
+  latestFilename: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DocumentRevision {
+  number: number; // 1 for the first upload
+  fileHash: string;
+  filename: string;
+  uploadedAt: string;
+  sessionId?: string; // Session the revision was uploaded for
+  changeSummary?: string; // e.g. "1 added, 3 modified"
+  changedSections?: string[];
 }
 
 interface CreateFeedbackParams {
@@ -38,6 +124,7 @@ interface User {
   name: string;
   email: string;
   id: string;
+  institutionId?: string; // Institution whose question settings apply
 }
 
 interface InterviewCardProps {
@@ -107,5 +194,14 @@ interface CreateDefenseSessionParams {
   techstack: string[]; // Technologies used
   level: string; // Academic level (Bachelor's/Master's/PhD)
   focusRatio: string; // Practical vs Theoretical focus ratio
-  questions?: string[]; // Optional custom questions generated from the document
+  discipline?: import("@/lib/question-templates").Discipline; // Detected from techstack and outline when missing
+  questions?: DefenseQuestion[]; // Optional custom questions generated from the document
+  documentOutline?: string; // Section outline of the uploaded document
+  codeSummary?: string; // Index summary of the uploaded source code
+  documents?: SessionDocument[]; // Attached report, slides, code and appendices
+  consistencyReport?: import("@/lib/consistency-checker").ConsistencyReport; // Slides checked against the report
+  changedSections?: string[]; // Report sections changed since the previous revision
+  referenceSummary?: string; // Bibliography summary from the reference parser
+  referenceIssues?: string[]; // Citation problems, shown as document gaps
+  promptVersions?: import("@/lib/prompts").PromptVersions; // Prompt that generated the questions
 }
@@ -14,6 +14,7 @@ declare module "pdfjs-dist/webpack" {
 
   interface PDFTextItem {
     str: string;
+    hasEOL?: boolean;
     [key: string]: unknown;
   }
 
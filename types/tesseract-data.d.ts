@@ -0,0 +1,9 @@
+declare module "@tesseract.js-data/eng" {
+  const languageData: {
+    code: string;
+    gzip: boolean;
+    langPath: string;
+  };
+
+  export default languageData;
+}